@@ -10,7 +10,8 @@ export enum CredentialType {
   BIOMETRIC = 'BIOMETRIC',
   CERTIFICATE = 'CERTIFICATE',
   TOKEN = 'TOKEN',
-  SMARTCARD = 'SMARTCARD'
+  SMARTCARD = 'SMARTCARD',
+  WEBAUTHN = 'WEBAUTHN'
 }
 
 /**
@@ -28,6 +29,9 @@ export class AuthenticationCredential {
   public suspensionReason?: string;
   public revocationReason?: string;
   public revokedAt?: Date;
+  public renewedAt?: Date;
+  public replaces?: string; // credential this one replaced through renewal or recovery
+  public replacedBy?: string; // replacement issued through renewal or recovery
 
   constructor(
     credentialId: string,
@@ -0,0 +1,189 @@
+/**
+ * Authentication Event Log
+ * Queryable record of authentication outcomes and credential lifecycle events
+ */
+
+import { AssuranceLevel, CredentialStatus } from '../shared/types';
+import { CredentialType } from './authentication-credential';
+import { AuthenticationEvent, AuthenticationEventType, AuthenticationReasonCode } from './authentication-events';
+
+/**
+ * Criteria for querying the event log; all given criteria must match
+ */
+export interface AuthenticationEventFilter {
+  subjectId?: string;
+  credentialId?: string;
+  sessionId?: string;
+  eventTypes?: AuthenticationEventType[];
+  reasonCodes?: AuthenticationReasonCode[];
+  from?: Date;
+  to?: Date;
+  limit?: number; // most recent matching events
+}
+
+/**
+ * Credential state as shown in a subject report
+ */
+export interface ReportedCredential {
+  credentialId: string;
+  credentialType: CredentialType;
+  status: CredentialStatus;
+  assuranceLevel: AssuranceLevel;
+  issuedAt: Date;
+  expiresAt: Date;
+  lastUsed?: Date;
+  lockedUntil?: Date;
+}
+
+/**
+ * Per-subject report for investigating account-takeover complaints
+ */
+export interface SubjectAuthenticationReport {
+  subjectId: string;
+  periodStart?: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+  credentials: ReportedCredential[];
+  activeSessionIds: string[];
+  summary: {
+    successfulAuthentications: number;
+    failedAuthentications: number;
+    lockouts: number;
+    suspensions: number;
+    revocations: number;
+    sessionsTerminated: number;
+  };
+  failuresByReason: Partial<Record<AuthenticationReasonCode, number>>;
+  ipAddresses: string[];
+  deviceIds: string[];
+  indicators: string[]; // patterns worth a closer look
+  events: AuthenticationEvent[];
+}
+
+/**
+ * Authentication Event Log class
+ */
+export class AuthenticationEventLog {
+  private events: AuthenticationEvent[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 10000) {
+    this.maxEntries = maxEntries;
+  }
+
+  append(event: AuthenticationEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.maxEntries) {
+      this.events.splice(0, this.events.length - this.maxEntries);
+    }
+  }
+
+  /**
+   * Matching events in chronological order
+   */
+  query(filter: AuthenticationEventFilter = {}): AuthenticationEvent[] {
+    const matches = this.events.filter(event =>
+      (!filter.subjectId || event.subjectId === filter.subjectId) &&
+      (!filter.credentialId || event.credentialId === filter.credentialId) &&
+      (!filter.sessionId || event.sessionId === filter.sessionId) &&
+      (!filter.eventTypes || filter.eventTypes.includes(event.eventType)) &&
+      (!filter.reasonCodes || (event.reasonCode !== undefined && filter.reasonCodes.includes(event.reasonCode))) &&
+      (!filter.from || event.timestamp >= filter.from) &&
+      (!filter.to || event.timestamp <= filter.to)
+    );
+
+    return filter.limit !== undefined ? matches.slice(-filter.limit) : matches;
+  }
+
+  size(): number {
+    return this.events.length;
+  }
+}
+
+/**
+ * Summarise a subject's events into a report, flagging patterns
+ * associated with account takeover
+ */
+export function buildSubjectAuthenticationReport(
+  subjectId: string,
+  events: AuthenticationEvent[],
+  credentials: ReportedCredential[],
+  activeSessionIds: string[],
+  periodStart: Date | undefined,
+  periodEnd: Date
+): SubjectAuthenticationReport {
+  const count = (eventType: AuthenticationEventType) => events.filter(event => event.eventType === eventType).length;
+
+  const failuresByReason: Partial<Record<AuthenticationReasonCode, number>> = {};
+  events
+    .filter(event => event.eventType === AuthenticationEventType.AUTHENTICATION_FAILED && event.reasonCode)
+    .forEach(event => {
+      failuresByReason[event.reasonCode!] = (failuresByReason[event.reasonCode!] || 0) + 1;
+    });
+
+  const ipAddresses = new Set<string>();
+  const deviceIds = new Set<string>();
+  events.forEach(event => {
+    if (event.details?.ipAddress) {
+      ipAddresses.add(event.details.ipAddress);
+    }
+    if (event.details?.deviceId) {
+      deviceIds.add(event.details.deviceId);
+    }
+  });
+
+  const indicators: string[] = [];
+  let consecutiveFailures = 0;
+  const failureSources = new Set<string>();
+  events.forEach(event => {
+    if (event.eventType === AuthenticationEventType.AUTHENTICATION_FAILED &&
+        event.reasonCode !== AuthenticationReasonCode.STEP_UP_REQUIRED) {
+      consecutiveFailures++;
+      if (event.details?.ipAddress) {
+        failureSources.add(event.details.ipAddress);
+      }
+    } else if (event.eventType === AuthenticationEventType.AUTHENTICATION_SUCCEEDED) {
+      if (consecutiveFailures >= 3) {
+        indicators.push(`Successful authentication after ${consecutiveFailures} consecutive failures at ${event.timestamp.toISOString()}`);
+      }
+      consecutiveFailures = 0;
+    }
+  });
+
+  const lockouts = count(AuthenticationEventType.CREDENTIAL_LOCKED);
+  if (lockouts > 0) {
+    indicators.push(`${lockouts} credential lockouts from repeated failures`);
+  }
+  if (failureSources.size >= 3) {
+    indicators.push(`Failed attempts from ${failureSources.size} distinct IP addresses`);
+  }
+  const compromises = events.filter(event => event.reasonCode === AuthenticationReasonCode.COMPROMISE_SUSPECTED).length;
+  if (compromises > 0) {
+    indicators.push(`${compromises} events with suspected authenticator compromise`);
+  }
+  if (failuresByReason[AuthenticationReasonCode.RISK_DENIED]) {
+    indicators.push(`${failuresByReason[AuthenticationReasonCode.RISK_DENIED]} attempts denied by risk assessment`);
+  }
+
+  return {
+    subjectId,
+    periodStart,
+    periodEnd,
+    generatedAt: new Date(),
+    credentials,
+    activeSessionIds,
+    summary: {
+      successfulAuthentications: count(AuthenticationEventType.AUTHENTICATION_SUCCEEDED),
+      failedAuthentications: count(AuthenticationEventType.AUTHENTICATION_FAILED),
+      lockouts,
+      suspensions: count(AuthenticationEventType.CREDENTIAL_SUSPENDED),
+      revocations: count(AuthenticationEventType.CREDENTIAL_REVOKED),
+      sessionsTerminated: count(AuthenticationEventType.SESSION_TERMINATED)
+    },
+    failuresByReason,
+    ipAddresses: Array.from(ipAddresses),
+    deviceIds: Array.from(deviceIds),
+    indicators,
+    events
+  };
+}
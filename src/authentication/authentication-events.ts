@@ -0,0 +1,65 @@
+/**
+ * Authentication Events
+ * Lifecycle events emitted by an Authentication Service Provider
+ */
+
+export enum AuthenticationEventType {
+  AUTHENTICATION_SUCCEEDED = 'AUTHENTICATION_SUCCEEDED',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
+  CREDENTIAL_LOCKED = 'CREDENTIAL_LOCKED',
+  CREDENTIAL_UNLOCKED = 'CREDENTIAL_UNLOCKED',
+  CREDENTIAL_SUSPENDED = 'CREDENTIAL_SUSPENDED',
+  CREDENTIAL_REVOKED = 'CREDENTIAL_REVOKED',
+  CREDENTIAL_RENEWED = 'CREDENTIAL_RENEWED',
+  CREDENTIAL_EXPIRING = 'CREDENTIAL_EXPIRING',
+  CREDENTIAL_EXPIRED = 'CREDENTIAL_EXPIRED',
+  SESSION_STEPPED_UP = 'SESSION_STEPPED_UP',
+  SESSION_TERMINATED = 'SESSION_TERMINATED'
+}
+
+/**
+ * Machine-readable cause of an authentication outcome or lifecycle event
+ */
+export enum AuthenticationReasonCode {
+  SUCCESS = 'SUCCESS',
+  INVALID_FACTOR = 'INVALID_FACTOR',
+  THROTTLED = 'THROTTLED',
+  CREDENTIAL_LOCKED = 'CREDENTIAL_LOCKED',
+  CREDENTIAL_INACTIVE = 'CREDENTIAL_INACTIVE',
+  CREDENTIAL_EXPIRED = 'CREDENTIAL_EXPIRED',
+  COMPROMISE_SUSPECTED = 'COMPROMISE_SUSPECTED',
+  RISK_DENIED = 'RISK_DENIED',
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED',
+  INSUFFICIENT_ASSURANCE = 'INSUFFICIENT_ASSURANCE',
+  FAILURE_THRESHOLD = 'FAILURE_THRESHOLD',
+  LOCKOUT_EXPIRED = 'LOCKOUT_EXPIRED',
+  ADMINISTRATIVE = 'ADMINISTRATIVE',
+  SUPERSEDED = 'SUPERSEDED',
+  CREDENTIAL_RECOVERY = 'CREDENTIAL_RECOVERY'
+}
+
+/**
+ * How an authentication attempt was made
+ */
+export enum AuthenticationChannel {
+  SINGLE_FACTOR = 'SINGLE_FACTOR', // authenticate()
+  MULTI_FACTOR = 'MULTI_FACTOR', // authentication transaction
+  STEP_UP = 'STEP_UP' // raising an existing session
+}
+
+/**
+ * Event delivered to subscribers
+ */
+export interface AuthenticationEvent {
+  eventId: string;
+  eventType: AuthenticationEventType;
+  subjectId: string;
+  credentialId?: string;
+  sessionId?: string;
+  reason?: string;
+  reasonCode?: AuthenticationReasonCode;
+  details?: Record<string, any>;
+  timestamp: Date;
+}
+
+export type AuthenticationEventListener = (event: AuthenticationEvent) => void;
@@ -0,0 +1,358 @@
+/**
+ * Authentication Risk Engine
+ * Scores authentication attempts from contextual signals and the subject's history
+ */
+
+import { RiskLevel } from '../shared/types';
+
+/**
+ * Context in which an authentication attempt is made
+ */
+export interface AuthenticationContext {
+  deviceId?: string;
+  deviceFingerprint?: string;
+  ipAddress?: string;
+  location?: GeoLocation;
+  timestamp?: Date; // defaults to the time of assessment
+}
+
+export interface GeoLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Action the provider takes for an assessed attempt
+ */
+export enum RiskDecision {
+  ALLOW = 'ALLOW',
+  STEP_UP = 'STEP_UP', // an additional factor from another category is required
+  DENY = 'DENY'
+}
+
+/**
+ * Contribution of one signal to an assessment
+ */
+export interface RiskSignal {
+  signal: string;
+  score: number; // 0 (no risk) to 100
+  detail: string;
+}
+
+export interface RiskAssessment {
+  subjectId: string;
+  score: number;
+  riskLevel: RiskLevel;
+  decision: RiskDecision;
+  signals: RiskSignal[];
+  assessedAt: Date;
+}
+
+/**
+ * A device bound to a subject after successful authentication
+ */
+export interface BoundDevice {
+  deviceId: string;
+  deviceFingerprint?: string;
+  boundAt: Date;
+  lastSeen: Date;
+}
+
+/**
+ * A previous successful authentication
+ */
+export interface AuthenticationHistoryEntry {
+  authenticatedAt: Date;
+  deviceId?: string;
+  ipAddress?: string;
+  location?: GeoLocation;
+}
+
+/**
+ * What the engine knows about a subject's past authentications
+ */
+export interface SubjectRiskHistory {
+  subjectId: string;
+  devices: BoundDevice[];
+  authentications: AuthenticationHistoryEntry[]; // most recent last
+}
+
+/**
+ * A pluggable source of risk signals
+ */
+export interface RiskSignalEvaluator {
+  readonly name: string;
+  evaluate(context: AuthenticationContext, history: SubjectRiskHistory, now: Date): Promise<RiskSignal | undefined>;
+}
+
+/**
+ * Lookup of IP address reputation, e.g. a threat intelligence feed
+ */
+export interface IpReputationSource {
+  /** Risk score from 0 (trusted) to 100 (known malicious), or undefined when unknown */
+  lookup(ipAddress: string): Promise<number | undefined>;
+}
+
+/**
+ * Score thresholds and the decision taken at each risk level
+ */
+export interface RiskPolicy {
+  mediumThreshold: number;
+  highThreshold: number;
+  veryHighThreshold: number;
+  decisions: Record<RiskLevel, RiskDecision>;
+  historySize: number; // successful authentications kept per subject
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  mediumThreshold: 25,
+  highThreshold: 50,
+  veryHighThreshold: 80,
+  decisions: {
+    [RiskLevel.LOW]: RiskDecision.ALLOW,
+    [RiskLevel.MEDIUM]: RiskDecision.STEP_UP,
+    [RiskLevel.HIGH]: RiskDecision.STEP_UP,
+    [RiskLevel.VERY_HIGH]: RiskDecision.DENY
+  },
+  historySize: 50
+};
+
+/**
+ * Flags devices that are not bound to the subject, or whose fingerprint changed
+ */
+export class DeviceBindingEvaluator implements RiskSignalEvaluator {
+  readonly name = 'DEVICE_BINDING';
+
+  async evaluate(context: AuthenticationContext, history: SubjectRiskHistory): Promise<RiskSignal | undefined> {
+    if (!context.deviceId) {
+      return { signal: this.name, score: 30, detail: 'No device identifier presented' };
+    }
+
+    const device = history.devices.find(bound => bound.deviceId === context.deviceId);
+    if (!device) {
+      // A subject's very first device carries less risk than an additional unknown one
+      const score = history.devices.length === 0 ? 20 : 40;
+      return { signal: this.name, score, detail: 'Device is not bound to the subject' };
+    }
+    if (device.deviceFingerprint && context.deviceFingerprint && device.deviceFingerprint !== context.deviceFingerprint) {
+      return { signal: this.name, score: 60, detail: 'Device fingerprint does not match the bound device' };
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Scores the source IP address from a reputation source
+ */
+export class IpReputationEvaluator implements RiskSignalEvaluator {
+  readonly name = 'IP_REPUTATION';
+  private source: IpReputationSource;
+
+  constructor(source: IpReputationSource) {
+    this.source = source;
+  }
+
+  async evaluate(context: AuthenticationContext): Promise<RiskSignal | undefined> {
+    if (!context.ipAddress) {
+      return undefined;
+    }
+
+    const reputation = await this.source.lookup(context.ipAddress);
+    if (reputation === undefined || reputation <= 0) {
+      return undefined;
+    }
+    return {
+      signal: this.name,
+      score: Math.min(reputation, 100),
+      detail: `IP address ${context.ipAddress} has reputation score ${reputation}`
+    };
+  }
+}
+
+/**
+ * Flags travel between consecutive authentications faster than is physically plausible
+ */
+export class GeoVelocityEvaluator implements RiskSignalEvaluator {
+  readonly name = 'GEO_VELOCITY';
+  private maxSpeedKmh: number;
+
+  constructor(maxSpeedKmh: number = 900) {
+    this.maxSpeedKmh = maxSpeedKmh;
+  }
+
+  async evaluate(context: AuthenticationContext, history: SubjectRiskHistory, now: Date): Promise<RiskSignal | undefined> {
+    const previous = [...history.authentications].reverse().find(entry => entry.location);
+    if (!context.location || !previous?.location) {
+      return undefined;
+    }
+
+    const distanceKm = calculateDistanceKm(previous.location, context.location);
+    const hours = Math.max((now.getTime() - previous.authenticatedAt.getTime()) / (60 * 60 * 1000), 1 / 60);
+    const speedKmh = distanceKm / hours;
+    if (speedKmh <= this.maxSpeedKmh) {
+      return undefined;
+    }
+    return {
+      signal: this.name,
+      score: speedKmh > this.maxSpeedKmh * 2 ? 80 : 50,
+      detail: `Travelled ${Math.round(distanceKm)} km since the previous authentication (${Math.round(speedKmh)} km/h)`
+    };
+  }
+}
+
+/**
+ * Flags attempts at an hour the subject has not authenticated at before
+ */
+export class TimeOfDayEvaluator implements RiskSignalEvaluator {
+  readonly name = 'TIME_OF_DAY';
+  private minimumHistory: number;
+  private toleranceHours: number;
+
+  constructor(minimumHistory: number = 5, toleranceHours: number = 2) {
+    this.minimumHistory = minimumHistory;
+    this.toleranceHours = toleranceHours;
+  }
+
+  async evaluate(_context: AuthenticationContext, history: SubjectRiskHistory, now: Date): Promise<RiskSignal | undefined> {
+    if (history.authentications.length < this.minimumHistory) {
+      return undefined;
+    }
+
+    const hour = now.getUTCHours();
+    const isUsualHour = history.authentications.some(entry => {
+      const difference = Math.abs(entry.authenticatedAt.getUTCHours() - hour);
+      return Math.min(difference, 24 - difference) <= this.toleranceHours;
+    });
+    if (isUsualHour) {
+      return undefined;
+    }
+    return { signal: this.name, score: 25, detail: `Unusual authentication hour (${hour}:00 UTC)` };
+  }
+}
+
+/**
+ * Risk Engine class
+ */
+export class RiskEngine {
+  private evaluators: RiskSignalEvaluator[];
+  private policy: RiskPolicy;
+  private histories: Map<string, SubjectRiskHistory> = new Map();
+
+  constructor(evaluators?: RiskSignalEvaluator[], policy: Partial<RiskPolicy> = {}) {
+    this.evaluators = evaluators ?? [
+      new DeviceBindingEvaluator(),
+      new GeoVelocityEvaluator(),
+      new TimeOfDayEvaluator()
+    ];
+    this.policy = { ...DEFAULT_RISK_POLICY, ...policy };
+  }
+
+  addEvaluator(evaluator: RiskSignalEvaluator): void {
+    this.evaluators.push(evaluator);
+  }
+
+  /**
+   * Score an attempt. The highest signal dominates; further signals add a quarter of their score.
+   */
+  async assess(subjectId: string, context: AuthenticationContext): Promise<RiskAssessment> {
+    const now = context.timestamp || new Date();
+    const history = this.getHistory(subjectId);
+
+    const signals: RiskSignal[] = [];
+    for (const evaluator of this.evaluators) {
+      const signal = await evaluator.evaluate(context, history, now);
+      if (signal) {
+        signals.push(signal);
+      }
+    }
+
+    const scores = signals.map(signal => signal.score).sort((a, b) => b - a);
+    const score = Math.min(100, Math.round(
+      (scores[0] || 0) + scores.slice(1).reduce((sum, value) => sum + value / 4, 0)
+    ));
+    const riskLevel = this.classify(score);
+
+    return {
+      subjectId,
+      score,
+      riskLevel,
+      decision: this.policy.decisions[riskLevel],
+      signals,
+      assessedAt: now
+    };
+  }
+
+  /**
+   * Record a successful authentication, binding the device it was made from
+   */
+  recordSuccess(subjectId: string, context: AuthenticationContext): void {
+    const now = context.timestamp || new Date();
+    const history = this.getHistory(subjectId);
+    this.histories.set(subjectId, history);
+
+    if (context.deviceId) {
+      const device = history.devices.find(bound => bound.deviceId === context.deviceId);
+      if (device) {
+        device.lastSeen = now;
+        device.deviceFingerprint = context.deviceFingerprint || device.deviceFingerprint;
+      } else {
+        history.devices.push({
+          deviceId: context.deviceId,
+          deviceFingerprint: context.deviceFingerprint,
+          boundAt: now,
+          lastSeen: now
+        });
+      }
+    }
+
+    history.authentications.push({
+      authenticatedAt: now,
+      deviceId: context.deviceId,
+      ipAddress: context.ipAddress,
+      location: context.location
+    });
+    if (history.authentications.length > this.policy.historySize) {
+      history.authentications.splice(0, history.authentications.length - this.policy.historySize);
+    }
+  }
+
+  unbindDevice(subjectId: string, deviceId: string): boolean {
+    const history = this.histories.get(subjectId);
+    if (!history) {
+      return false;
+    }
+    const count = history.devices.length;
+    history.devices = history.devices.filter(device => device.deviceId !== deviceId);
+    return history.devices.length < count;
+  }
+
+  getHistory(subjectId: string): SubjectRiskHistory {
+    return this.histories.get(subjectId) || { subjectId, devices: [], authentications: [] };
+  }
+
+  private classify(score: number): RiskLevel {
+    if (score >= this.policy.veryHighThreshold) {
+      return RiskLevel.VERY_HIGH;
+    }
+    if (score >= this.policy.highThreshold) {
+      return RiskLevel.HIGH;
+    }
+    if (score >= this.policy.mediumThreshold) {
+      return RiskLevel.MEDIUM;
+    }
+    return RiskLevel.LOW;
+  }
+}
+
+/**
+ * Great-circle distance between two points (haversine formula)
+ */
+function calculateDistanceKm(from: GeoLocation, to: GeoLocation): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const earthRadiusKm = 6371;
+  const dLatitude = toRadians(to.latitude - from.latitude);
+  const dLongitude = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLongitude / 2) ** 2;
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(a));
+}
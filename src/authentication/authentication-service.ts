@@ -3,6 +3,7 @@
  * Describes how verifying identity allows access to digital systems
  */
 
+import { JsonWebKey, randomUUID } from 'crypto';
 import { 
   AssuranceLevel, 
   TrustedProcess, 
@@ -12,8 +13,86 @@ import {
   RiskLevel,
   CredentialStatus 
 } from '../shared/types';
+import { compareAssuranceLevels, meetsAssuranceLevel, minimumAssuranceLevel } from '../shared/assurance';
+import {
+  DELEGATION_SCOPES,
+  DelegationDisclosure,
+  DelegationRegistry,
+  discloseDelegation
+} from '../shared/delegation';
+import { BiometricEvidence, BiometricProvider } from '../shared/biometrics';
+import { IdentityEvidence, IdentityProvider, VerificationMethod } from '../verified-person/identity-provider';
 import { AuthenticationCredential, CredentialType } from './authentication-credential';
 import { AuthenticationSession, SessionParameters } from './authentication-session';
+import {
+  AuthenticationTransaction,
+  CREDENTIAL_FACTOR_CATEGORIES,
+  VerifiedFactor,
+  calculateCombinedAssuranceLevel,
+  toVerifiedFactor
+} from './authentication-transaction';
+import { SessionTokenSigner } from './session-token';
+import { AuthenticationContext, RiskAssessment, RiskDecision, RiskEngine } from './authentication-risk';
+import {
+  CredentialLifetimePolicy,
+  CredentialLifetimeTable,
+  CredentialRenewalPolicy,
+  DEFAULT_RENEWAL_POLICY
+} from './credential-lifecycle';
+import {
+  AuthenticationChannel,
+  AuthenticationEvent,
+  AuthenticationEventListener,
+  AuthenticationEventType,
+  AuthenticationReasonCode
+} from './authentication-events';
+import {
+  AuthenticationEventFilter,
+  AuthenticationEventLog,
+  buildSubjectAuthenticationReport
+} from './authentication-event-log';
+import {
+  AuthenticationThrottle,
+  AuthenticationThrottlePolicy,
+  CredentialLockout
+} from './authentication-throttle';
+import {
+  AuthenticationFactorVerifier,
+  BiometricFactorVerifier,
+  CertificateVerifier,
+  CredentialEnrollmentData,
+  FactorVerificationResult,
+  OneTimePasswordVerifier,
+  PasswordVerifier
+} from './authentication-verifier';
+import { WebAuthnRelyingPartyConfig, WebAuthnVerifier } from './webauthn-verifier';
+
+/**
+ * Optional configuration for an Authentication Service Provider
+ */
+export interface AuthenticationServiceOptions {
+  throttlePolicy?: Partial<AuthenticationThrottlePolicy>;
+  sessionTokenGraceMinutes?: number; // how long a rotated-out signing key still verifies tokens
+  credentialLifetimes?: CredentialLifetimeTable; // overrides the default lifetimes per type and level
+  renewalPolicy?: Partial<CredentialRenewalPolicy>;
+  webAuthn?: WebAuthnRelyingPartyConfig; // enables WEBAUTHN credentials
+  biometricProvider?: BiometricProvider; // enables BIOMETRIC credentials
+  riskEngine?: RiskEngine; // assesses attempts that carry an authentication context
+  eventLogRetention?: number; // most recent events kept in the authentication event log
+}
+
+/**
+ * Request to recover from a lost or compromised authenticator
+ */
+export interface CredentialRecoveryRequest {
+  credentialId: string; // the lost credential
+  verificationMethod: VerificationMethod; // how the subject re-proves their identity
+  evidence?: IdentityEvidence[]; // fresh evidence, checked against the bound verified person
+  liveCapture?: BiometricEvidence; // face captured now, matched against the bound person's enrolled face or documents
+  replacementType?: CredentialType; // defaults to the lost credential's type
+  enrollmentData?: CredentialEnrollmentData;
+  reason?: string;
+}
 
 /**
  * Authentication Service Provider implementing PCTF03 requirements
@@ -23,35 +102,91 @@ export class AuthenticationServiceProvider {
   private name: string;
   private assuranceLevel: AssuranceLevel;
   private credentials: Map<string, AuthenticationCredential> = new Map();
+  private verifiers: Map<CredentialType, AuthenticationFactorVerifier> = new Map();
+  private transactions: Map<string, AuthenticationTransaction> = new Map();
+  private sessions: Map<string, AuthenticationSession> = new Map();
+  private authenticatedFactors: Map<string, VerifiedFactor> = new Map(); // credentialId -> latest authentication not yet bound to a session
+  private lockouts: Map<string, CredentialLockout> = new Map();
+  private throttle: AuthenticationThrottle;
+  private tokenSigner: SessionTokenSigner;
+  private eventListeners: Set<AuthenticationEventListener> = new Set();
+  private linkedIdentityProvider?: IdentityProvider;
+  private subjectBindings: Map<string, string> = new Map(); // subjectId -> personId
+  private lifetimePolicy: CredentialLifetimePolicy;
+  private renewalPolicy: CredentialRenewalPolicy;
+  private expiryNotices: Map<string, number> = new Map(); // credentialId -> smallest threshold notified
+  private riskEngine?: RiskEngine;
+  private delegationRegistry?: DelegationRegistry;
+  private eventLog: AuthenticationEventLog;
 
-  constructor(participantId: string, name: string, assuranceLevel: AssuranceLevel) {
+  private static readonly TRANSACTION_DURATION_MINUTES = 10;
+  private static readonly SESSION_AUTHENTICATION_WINDOW_MINUTES = 10;
+
+  constructor(
+    participantId: string,
+    name: string,
+    assuranceLevel: AssuranceLevel,
+    options: AuthenticationServiceOptions = {}
+  ) {
     this.participantId = participantId;
     this.name = name;
     this.assuranceLevel = assuranceLevel;
+    this.throttle = new AuthenticationThrottle(options.throttlePolicy);
+    this.tokenSigner = new SessionTokenSigner(participantId, options.sessionTokenGraceMinutes);
+    this.lifetimePolicy = new CredentialLifetimePolicy(options.credentialLifetimes);
+    this.renewalPolicy = { ...DEFAULT_RENEWAL_POLICY, ...options.renewalPolicy };
+    this.riskEngine = options.riskEngine;
+    this.eventLog = new AuthenticationEventLog(options.eventLogRetention);
+
+    this.registerVerifier(new PasswordVerifier());
+    this.registerVerifier(new OneTimePasswordVerifier());
+    this.registerVerifier(new CertificateVerifier());
+    if (options.webAuthn) {
+      this.registerVerifier(new WebAuthnVerifier(options.webAuthn));
+    }
+    if (options.biometricProvider) {
+      this.registerVerifier(new BiometricFactorVerifier(options.biometricProvider));
+    }
+  }
+
+  /**
+   * Register a verifier for the credential types it supports,
+   * replacing any verifier previously registered for those types
+   */
+  registerVerifier(verifier: AuthenticationFactorVerifier): void {
+    verifier.supportedTypes.forEach(type => this.verifiers.set(type, verifier));
   }
 
   /**
    * Trusted Process: Credential Issuance
    * Issues authentication credentials to verified subjects
    */
-  async issueCredential(subjectId: string, credentialType: CredentialType): Promise<ProcessResult> {
+  async issueCredential(
+    subjectId: string,
+    credentialType: CredentialType,
+    enrollmentData: CredentialEnrollmentData = {}
+  ): Promise<ProcessResult> {
     try {
-      const credentialId = this.generateCredentialId();
-      const credential = new AuthenticationCredential(
-        credentialId,
+      const verifier = this.verifiers.get(credentialType);
+      if (!verifier) {
+        return {
+          success: false,
+          message: `No verifier available for credential type ${credentialType}`,
+          timestamp: new Date()
+        };
+      }
+
+      const { credential, provisioningData } = await this.enrollCredential(
         subjectId,
         credentialType,
         this.assuranceLevel,
-        new Date(),
-        this.calculateExpirationDate(credentialType)
+        enrollmentData
       );
-
-      this.credentials.set(credentialId, credential);
       
       return {
         success: true,
         message: 'Credential issued successfully',
-        data: { credentialId },
+        data: { credentialId: credential.credentialId, provisioningData },
         timestamp: new Date()
       };
     } catch (error) {
@@ -64,11 +199,40 @@ export class AuthenticationServiceProvider {
     }
   }
 
+  /**
+   * Start a WebAuthn registration ceremony. The client passes the returned
+   * options to navigator.credentials.create() and the response to
+   * issueCredential() as webAuthnAttestation.
+   */
+  async beginWebAuthnRegistration(subjectId: string): Promise<ProcessResult> {
+    const verifier = this.verifiers.get(CredentialType.WEBAUTHN);
+    if (!(verifier instanceof WebAuthnVerifier)) {
+      return {
+        success: false,
+        message: 'WebAuthn is not configured for this provider',
+        timestamp: new Date()
+      };
+    }
+
+    return {
+      success: true,
+      message: 'WebAuthn registration started',
+      data: { registrationOptions: verifier.createRegistrationOptions(subjectId) },
+      timestamp: new Date()
+    };
+  }
+
   /**
    * Trusted Process: Authentication
-   * Verifies credentials and establishes subject identity
+   * Verifies credentials and establishes subject identity.
+   * With a risk engine configured, an attempt carrying a context is denied or
+   * requires step-up (a multi-factor transaction) according to its risk level.
    */
-  async authenticate(credentialId: string, authenticationFactor: string): Promise<ProcessResult> {
+  async authenticate(
+    credentialId: string,
+    authenticationFactor: string,
+    context?: AuthenticationContext
+  ): Promise<ProcessResult> {
     try {
       const credential = this.credentials.get(credentialId);
       
@@ -80,34 +244,64 @@ export class AuthenticationServiceProvider {
         };
       }
 
-      if (credential.status !== CredentialStatus.ACTIVE) {
-        return {
-          success: false,
-          message: 'Credential is not active',
-          timestamp: new Date()
-        };
+      const unusable = this.rejectUnusableCredential(credential, AuthenticationChannel.SINGLE_FACTOR, context);
+      if (unusable) {
+        return unusable;
       }
 
-      if (credential.isExpired()) {
-        credential.status = CredentialStatus.EXPIRED;
-        return {
-          success: false,
-          message: 'Credential has expired',
-          timestamp: new Date()
-        };
+      const riskAssessment = await this.assessRisk(credential.subjectId, context);
+      if (riskAssessment?.decision === RiskDecision.DENY) {
+        return this.riskDenied(riskAssessment, AuthenticationChannel.SINGLE_FACTOR, context, credential);
       }
 
-      // Validate authentication factor (simplified)
-      const isValid = await this.validateAuthenticationFactor(credential, authenticationFactor);
+      const verification = await this.attemptAuthenticationFactor(
+        credential,
+        authenticationFactor,
+        AuthenticationChannel.SINGLE_FACTOR,
+        context
+      );
       
-      if (isValid) {
+      if (verification.verified) {
         credential.updateLastUsed();
+        if (riskAssessment?.decision === RiskDecision.STEP_UP) {
+          this.recordAuthenticationOutcome(
+            AuthenticationChannel.SINGLE_FACTOR,
+            AuthenticationReasonCode.STEP_UP_REQUIRED,
+            credential.subjectId,
+            credential,
+            context,
+            { riskLevel: riskAssessment.riskLevel }
+          );
+          return {
+            success: false,
+            message: 'Additional authentication factor required',
+            data: {
+              subjectId: credential.subjectId,
+              requiredAction: RiskDecision.STEP_UP,
+              riskAssessment
+            },
+            timestamp: new Date()
+          };
+        }
+
+        if (context && this.riskEngine) {
+          this.riskEngine.recordSuccess(credential.subjectId, context);
+        }
+        this.authenticatedFactors.set(credential.credentialId, toVerifiedFactor(credential));
+        this.recordAuthenticationOutcome(
+          AuthenticationChannel.SINGLE_FACTOR,
+          AuthenticationReasonCode.SUCCESS,
+          credential.subjectId,
+          credential,
+          context
+        );
         return {
           success: true,
           message: 'Authentication successful',
           data: { 
             subjectId: credential.subjectId,
-            assuranceLevel: credential.assuranceLevel
+            assuranceLevel: credential.assuranceLevel,
+            riskAssessment
           },
           timestamp: new Date()
         };
@@ -115,6 +309,8 @@ export class AuthenticationServiceProvider {
         return {
           success: false,
           message: 'Authentication failed',
+          data: { retryAfter: verification.retryAfter, lockedOut: verification.lockedOut },
+          errors: verification.reason ? [verification.reason] : undefined,
           timestamp: new Date()
         };
       }
@@ -128,25 +324,378 @@ export class AuthenticationServiceProvider {
     }
   }
 
+  /**
+   * Trusted Process: Multi-Factor Authentication
+   * Opens a transaction that collects factors from several credentials of one subject
+   */
+  async beginAuthenticationTransaction(
+    subjectId: string,
+    requiredAssuranceLevel: AssuranceLevel,
+    context?: AuthenticationContext
+  ): Promise<ProcessResult> {
+    try {
+      if (compareAssuranceLevels(requiredAssuranceLevel, this.assuranceLevel) > 0) {
+        return {
+          success: false,
+          message: `Provider cannot authenticate above ${this.assuranceLevel}`,
+          timestamp: new Date()
+        };
+      }
+
+      const riskAssessment = await this.assessRisk(subjectId, context);
+      if (riskAssessment?.decision === RiskDecision.DENY) {
+        return this.riskDenied(riskAssessment, AuthenticationChannel.MULTI_FACTOR, context);
+      }
+
+      const transactionId = this.generateTransactionId();
+      const transaction = new AuthenticationTransaction(
+        transactionId,
+        subjectId,
+        requiredAssuranceLevel,
+        AuthenticationServiceProvider.TRANSACTION_DURATION_MINUTES
+      );
+      transaction.context = context;
+      transaction.riskAssessment = riskAssessment;
+      this.transactions.set(transactionId, transaction);
+
+      return {
+        success: true,
+        message: 'Authentication transaction started',
+        data: { transactionId, expiresAt: transaction.expiresAt, riskAssessment },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to start authentication transaction',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Verify one factor within a multi-factor authentication transaction
+   */
+  async submitAuthenticationFactor(transactionId: string, credentialId: string, authenticationFactor: string): Promise<ProcessResult> {
+    try {
+      const transaction = this.getOpenTransaction(transactionId);
+      if (!transaction) {
+        return {
+          success: false,
+          message: 'Authentication transaction not found or no longer open',
+          timestamp: new Date()
+        };
+      }
+
+      const credential = this.credentials.get(credentialId);
+      if (!credential || credential.subjectId !== transaction.subjectId) {
+        return {
+          success: false,
+          message: 'Credential not found for transaction subject',
+          timestamp: new Date()
+        };
+      }
+
+      const unusable = this.rejectUnusableCredential(credential, AuthenticationChannel.MULTI_FACTOR, transaction.context);
+      if (unusable) {
+        return unusable;
+      }
+
+      const category = CREDENTIAL_FACTOR_CATEGORIES[credential.credentialType];
+      if (transaction.hasCategory(category)) {
+        return {
+          success: false,
+          message: `A ${category} factor has already been verified in this transaction`,
+          timestamp: new Date()
+        };
+      }
+
+      const verification = await this.attemptAuthenticationFactor(
+        credential,
+        authenticationFactor,
+        AuthenticationChannel.MULTI_FACTOR,
+        transaction.context
+      );
+      if (!verification.verified) {
+        return {
+          success: false,
+          message: 'Authentication factor rejected',
+          data: { retryAfter: verification.retryAfter, lockedOut: verification.lockedOut },
+          errors: verification.reason ? [verification.reason] : undefined,
+          timestamp: new Date()
+        };
+      }
+
+      credential.updateLastUsed();
+      transaction.addFactor(credential);
+
+      return {
+        success: true,
+        message: 'Authentication factor accepted',
+        data: {
+          transactionId,
+          factorCategories: transaction.getFactorCategories(),
+          combinedAssuranceLevel: transaction.getCombinedAssuranceLevel()
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Authentication factor processing failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Complete a multi-factor authentication transaction, reporting the combined
+   * assurance level only when it satisfies the level the transaction requires
+   */
+  async completeAuthenticationTransaction(transactionId: string): Promise<ProcessResult> {
+    try {
+      const transaction = this.getOpenTransaction(transactionId);
+      if (!transaction) {
+        return {
+          success: false,
+          message: 'Authentication transaction not found or no longer open',
+          timestamp: new Date()
+        };
+      }
+
+      const combinedAssuranceLevel = transaction.getCombinedAssuranceLevel();
+      if (!combinedAssuranceLevel || !meetsAssuranceLevel(combinedAssuranceLevel, transaction.requiredAssuranceLevel)) {
+        this.recordAuthenticationOutcome(
+          AuthenticationChannel.MULTI_FACTOR,
+          AuthenticationReasonCode.INSUFFICIENT_ASSURANCE,
+          transaction.subjectId,
+          undefined,
+          transaction.context,
+          { transactionId, requiredAssuranceLevel: transaction.requiredAssuranceLevel, combinedAssuranceLevel }
+        );
+        return {
+          success: false,
+          message: `Collected factors do not satisfy ${transaction.requiredAssuranceLevel}`,
+          data: {
+            factorCategories: transaction.getFactorCategories(),
+            combinedAssuranceLevel
+          },
+          timestamp: new Date()
+        };
+      }
+
+      // A risk-driven step-up is satisfied by factors from at least two categories
+      if (transaction.riskAssessment?.decision === RiskDecision.STEP_UP && transaction.getFactorCategories().length < 2) {
+        this.recordAuthenticationOutcome(
+          AuthenticationChannel.MULTI_FACTOR,
+          AuthenticationReasonCode.STEP_UP_REQUIRED,
+          transaction.subjectId,
+          undefined,
+          transaction.context,
+          { transactionId, riskLevel: transaction.riskAssessment.riskLevel }
+        );
+        return {
+          success: false,
+          message: 'Additional authentication factor required',
+          data: {
+            requiredAction: RiskDecision.STEP_UP,
+            factorCategories: transaction.getFactorCategories(),
+            riskAssessment: transaction.riskAssessment
+          },
+          timestamp: new Date()
+        };
+      }
+
+      transaction.complete();
+      if (transaction.context && this.riskEngine) {
+        this.riskEngine.recordSuccess(transaction.subjectId, transaction.context);
+      }
+      transaction.verifiedFactors.forEach(factor => this.authenticatedFactors.set(factor.credentialId, factor));
+      this.recordAuthenticationOutcome(
+        AuthenticationChannel.MULTI_FACTOR,
+        AuthenticationReasonCode.SUCCESS,
+        transaction.subjectId,
+        undefined,
+        transaction.context,
+        {
+          transactionId,
+          assuranceLevel: combinedAssuranceLevel,
+          credentialIds: transaction.verifiedFactors.map(factor => factor.credentialId),
+          credentialTypes: transaction.verifiedFactors.map(factor => factor.credentialType)
+        }
+      );
+
+      return {
+        success: true,
+        message: 'Multi-factor authentication successful',
+        data: {
+          subjectId: transaction.subjectId,
+          assuranceLevel: combinedAssuranceLevel,
+          factorCategories: transaction.getFactorCategories(),
+          credentialIds: transaction.verifiedFactors.map(factor => factor.credentialId)
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Authentication transaction completion failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Issue a challenge for challenge-response credentials (e.g. CERTIFICATE)
+   * The subject answers it by passing the signed challenge to authenticate()
+   */
+  async issueAuthenticationChallenge(credentialId: string): Promise<ProcessResult> {
+    try {
+      const credential = this.credentials.get(credentialId);
+      if (!credential || credential.status !== CredentialStatus.ACTIVE) {
+        return {
+          success: false,
+          message: 'Credential not found or not active',
+          timestamp: new Date()
+        };
+      }
+
+      const verifier = this.verifiers.get(credential.credentialType);
+      if (!verifier || !verifier.createChallenge) {
+        return {
+          success: false,
+          message: `Credential type ${credential.credentialType} does not use challenges`,
+          timestamp: new Date()
+        };
+      }
+
+      const challenge = await verifier.createChallenge(credential);
+
+      return {
+        success: true,
+        message: 'Authentication challenge issued',
+        data: { challenge: challenge.challenge, expiresAt: challenge.expiresAt },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Challenge issuance failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
   /**
    * Trusted Process: Session Initiation
-   * Establishes authenticated sessions with appropriate security controls
+   * Establishes authenticated sessions with appropriate security controls.
+   * Every credential named must have just authenticated successfully, and the
+   * session's level is capped at what those factors support together. Each
+   * authentication opens at most one session.
    */
   async initiateSession(subjectId: string, sessionParameters: SessionParameters): Promise<ProcessResult> {
     try {
+      const credentialIds = Array.from(new Set(sessionParameters.credentialIds || []));
+      if (credentialIds.length === 0) {
+        return {
+          success: false,
+          message: 'A session requires at least one authenticated credential',
+          timestamp: new Date()
+        };
+      }
+
+      const unusableCredential = credentialIds.find(credentialId => {
+        const credential = this.credentials.get(credentialId);
+        return !credential || credential.subjectId !== subjectId || credential.status !== CredentialStatus.ACTIVE;
+      });
+      if (unusableCredential) {
+        return {
+          success: false,
+          message: `Credential ${unusableCredential} is not an active credential of the subject`,
+          timestamp: new Date()
+        };
+      }
+
+      const windowMinutes = AuthenticationServiceProvider.SESSION_AUTHENTICATION_WINDOW_MINUTES;
+      const authenticatedSince = new Date(Date.now() - windowMinutes * 60 * 1000);
+      const unauthenticatedCredential = credentialIds.find(credentialId => {
+        const factor = this.authenticatedFactors.get(credentialId);
+        return !factor || factor.verifiedAt < authenticatedSince;
+      });
+      if (unauthenticatedCredential) {
+        return {
+          success: false,
+          message: `Credential ${unauthenticatedCredential} has not authenticated in the last ${windowMinutes} minutes`,
+          timestamp: new Date()
+        };
+      }
+
+      const factors = credentialIds.map(credentialId => this.authenticatedFactors.get(credentialId)!);
+      const assuranceLevel = minimumAssuranceLevel(
+        sessionParameters.assuranceLevel,
+        calculateCombinedAssuranceLevel(factors)!
+      );
+
+      let delegation: DelegationDisclosure | undefined;
+      if (sessionParameters.delegationId) {
+        if (!this.delegationRegistry) {
+          return {
+            success: false,
+            message: 'No delegation registry linked to this provider',
+            timestamp: new Date()
+          };
+        }
+        const check = this.delegationRegistry.checkDelegation(sessionParameters.delegationId, {
+          delegateId: subjectId,
+          scope: DELEGATION_SCOPES.SESSION
+        });
+        if (!check.valid) {
+          return {
+            success: false,
+            message: 'Delegation cannot be used for this session',
+            errors: check.reason ? [check.reason] : undefined,
+            timestamp: new Date()
+          };
+        }
+        delegation = discloseDelegation(check.delegation!);
+      }
+
+      if (sessionParameters.allowConcurrentSessions === false) {
+        this.terminateActiveSessions(subjectId, 'Superseded by new session');
+      }
+
       const sessionId = this.generateSessionId();
       const session = new AuthenticationSession(
         sessionId,
         subjectId,
-        sessionParameters.assuranceLevel,
+        assuranceLevel,
         new Date(),
-        sessionParameters.maxDuration
+        sessionParameters.maxDuration,
+        sessionParameters.idleTimeout,
+        sessionParameters.absoluteTimeout
       );
+      session.attachFactors(factors);
+      if (delegation) {
+        session.actOnBehalfOf(delegation);
+      }
+      this.sessions.set(sessionId, session);
+      // The authentications are now bound to this session
+      credentialIds.forEach(credentialId => this.authenticatedFactors.delete(credentialId));
 
       return {
         success: true,
         message: 'Session initiated successfully',
-        data: { sessionId, expiresAt: session.expiresAt },
+        data: {
+          sessionId,
+          assuranceLevel: session.assuranceLevel,
+          expiresAt: session.expiresAt,
+          delegation,
+          sessionToken: this.issueSessionToken(session)
+        },
         timestamp: new Date()
       };
     } catch (error) {
@@ -160,46 +709,871 @@ export class AuthenticationServiceProvider {
   }
 
   /**
-   * Trusted Process: Credential Suspension/Recovery/Maintenance/Revocation
+   * Look up a session held by this provider
    */
-  async suspendCredential(credentialId: string, reason: string): Promise<ProcessResult> {
-    const credential = this.credentials.get(credentialId);
-    if (!credential) {
+  getSession(sessionId: string): AuthenticationSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  /**
+   * Get the active sessions of a subject
+   */
+  getActiveSessions(subjectId: string): AuthenticationSession[] {
+    return Array.from(this.sessions.values())
+      .filter(session => session.subjectId === subjectId && session.isValid());
+  }
+
+  /**
+   * Trusted Process: Session Management
+   * Confirms a session is active and within its idle and absolute timeouts
+   */
+  async validateSession(sessionId: string): Promise<ProcessResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
       return {
         success: false,
-        message: 'Credential not found',
+        message: 'Session not found',
         timestamp: new Date()
       };
     }
 
-    credential.suspend(reason);
-
-    return {
-      success: true,
-      message: 'Credential suspended successfully',
-      timestamp: new Date()
-    };
-  }
+    if (!session.isActive) {
+      return {
+        success: false,
+        message: 'Session has been terminated',
+        data: { terminatedAt: session.terminatedAt, reason: session.terminationReason },
+        timestamp: new Date()
+      };
+    }
 
-  async revokeCredential(credentialId: string, reason: string): Promise<ProcessResult> {
-    const credential = this.credentials.get(credentialId);
-    if (!credential) {
+    if (session.isExpired() || session.isIdle()) {
+      const reason = session.isExpired() ? 'Session expired' : 'Session idle timeout';
+      this.endSession(session, reason);
       return {
         success: false,
-        message: 'Credential not found',
+        message: reason,
         timestamp: new Date()
       };
     }
 
-    credential.revoke(reason);
+    if (session.delegation) {
+      const check = this.delegationRegistry?.checkDelegation(session.delegation.delegationId, {
+        delegateId: session.subjectId,
+        scope: DELEGATION_SCOPES.SESSION
+      });
+      if (!check?.valid) {
+        const reason = `Delegation no longer valid: ${check?.reason || 'no delegation registry'}`;
+        this.endSession(session, reason);
+        return {
+          success: false,
+          message: reason,
+          timestamp: new Date()
+        };
+      }
+    }
 
     return {
       success: true,
-      message: 'Credential revoked successfully',
+      message: 'Session is valid',
+      data: {
+        sessionId,
+        subjectId: session.subjectId,
+        assuranceLevel: session.assuranceLevel,
+        expiresAt: session.expiresAt,
+        remainingMinutes: session.getRemainingTime(),
+        delegation: session.delegation
+      },
       timestamp: new Date()
     };
   }
 
+  /**
+   * Trusted Process: Step-Up Authentication
+   * Verifies an additional factor and raises the session's assurance level in
+   * place when the factors the session now holds satisfy the required level
+   */
+  async stepUpSession(
+    sessionId: string,
+    requiredAssuranceLevel: AssuranceLevel,
+    credentialId: string,
+    authenticationFactor: string
+  ): Promise<ProcessResult> {
+    try {
+      const validation = await this.validateSession(sessionId);
+      if (!validation.success) {
+        return validation;
+      }
+
+      const session = this.sessions.get(sessionId)!;
+      if (meetsAssuranceLevel(session.assuranceLevel, requiredAssuranceLevel)) {
+        return {
+          success: true,
+          message: `Session already at ${session.assuranceLevel}`,
+          data: { sessionId, assuranceLevel: session.assuranceLevel },
+          timestamp: new Date()
+        };
+      }
+
+      if (compareAssuranceLevels(requiredAssuranceLevel, this.assuranceLevel) > 0) {
+        return {
+          success: false,
+          message: `Provider cannot authenticate above ${this.assuranceLevel}`,
+          timestamp: new Date()
+        };
+      }
+
+      const credential = this.credentials.get(credentialId);
+      if (!credential || credential.subjectId !== session.subjectId) {
+        return {
+          success: false,
+          message: 'Credential not found for session subject',
+          timestamp: new Date()
+        };
+      }
+
+      const unusable = this.rejectUnusableCredential(credential, AuthenticationChannel.STEP_UP);
+      if (unusable) {
+        return unusable;
+      }
+
+      const verification = await this.attemptAuthenticationFactor(credential, authenticationFactor, AuthenticationChannel.STEP_UP);
+      if (!verification.verified) {
+        return {
+          success: false,
+          message: 'Step-up factor rejected',
+          data: { retryAfter: verification.retryAfter, lockedOut: verification.lockedOut },
+          errors: verification.reason ? [verification.reason] : undefined,
+          timestamp: new Date()
+        };
+      }
+      credential.updateLastUsed();
+
+      // Only factors that passed to establish or raise this session count
+      const stepUpFactor = toVerifiedFactor(credential);
+      const factors: VerifiedFactor[] = [
+        ...session.verifiedFactors.filter(factor =>
+          factor.credentialId !== credentialId &&
+          this.credentials.get(factor.credentialId)?.status === CredentialStatus.ACTIVE
+        ),
+        stepUpFactor
+      ];
+      const combinedAssuranceLevel = calculateCombinedAssuranceLevel(factors);
+      if (!combinedAssuranceLevel || !meetsAssuranceLevel(combinedAssuranceLevel, requiredAssuranceLevel)) {
+        this.recordAuthenticationOutcome(
+          AuthenticationChannel.STEP_UP,
+          AuthenticationReasonCode.INSUFFICIENT_ASSURANCE,
+          session.subjectId,
+          credential,
+          undefined,
+          { sessionId, requiredAssuranceLevel, combinedAssuranceLevel }
+        );
+        return {
+          success: false,
+          message: `Session factors do not satisfy ${requiredAssuranceLevel}`,
+          data: { combinedAssuranceLevel },
+          timestamp: new Date()
+        };
+      }
+
+      const previousLevel = session.assuranceLevel;
+      session.stepUp(requiredAssuranceLevel, [stepUpFactor]);
+      session.updateActivity();
+      this.recordAuthenticationOutcome(
+        AuthenticationChannel.STEP_UP,
+        AuthenticationReasonCode.SUCCESS,
+        session.subjectId,
+        credential,
+        undefined,
+        { sessionId }
+      );
+      this.emitEvent({
+        eventType: AuthenticationEventType.SESSION_STEPPED_UP,
+        subjectId: session.subjectId,
+        sessionId,
+        credentialId,
+        details: { from: previousLevel, to: requiredAssuranceLevel }
+      });
+
+      return {
+        success: true,
+        message: 'Session assurance level raised',
+        data: {
+          sessionId,
+          assuranceLevel: session.assuranceLevel,
+          assuranceHistory: session.assuranceHistory,
+          sessionToken: this.issueSessionToken(session)
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Step-up authentication failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Verify a session token presented by a relying party: its signature and
+   * expiry, and that the session it names is still live in this provider
+   */
+  async verifySessionToken(sessionToken: string): Promise<ProcessResult> {
+    try {
+      const verification = this.tokenSigner.verify(sessionToken);
+      if (!verification.valid || !verification.claims) {
+        return {
+          success: false,
+          message: 'Session token rejected',
+          errors: verification.reason ? [verification.reason] : undefined,
+          timestamp: new Date()
+        };
+      }
+
+      const claims = verification.claims;
+      const session = this.sessions.get(claims.sid);
+      if (!session || session.getEffectiveSubjectId() !== claims.sub ||
+          (session.delegation && claims.act?.sub !== session.subjectId)) {
+        return {
+          success: false,
+          message: 'Session token does not match a known session',
+          timestamp: new Date()
+        };
+      }
+
+      const authenticatedLevel = session.getAuthenticatedAssuranceLevel();
+      if (!authenticatedLevel || compareAssuranceLevels(claims.assurance_level as AssuranceLevel, authenticatedLevel) > 0) {
+        return {
+          success: false,
+          message: 'Session token asserts a higher assurance level than the session holds',
+          timestamp: new Date()
+        };
+      }
+
+      const sessionValidation = await this.validateSession(claims.sid);
+      if (!sessionValidation.success) {
+        return sessionValidation;
+      }
+
+      return {
+        success: true,
+        message: 'Session token verified',
+        data: { claims },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Session token verification failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Rotate the session token signing key; tokens signed with the previous
+   * key keep verifying for the configured grace period
+   */
+  async rotateSessionSigningKey(): Promise<ProcessResult> {
+    const keyId = this.tokenSigner.rotateSigningKey();
+
+    return {
+      success: true,
+      message: 'Session signing key rotated',
+      data: { keyId },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Public keys relying parties can use to verify session tokens (JWK format)
+   */
+  getSessionTokenVerificationKeys(): JsonWebKey[] {
+    return this.tokenSigner.getPublicKeys();
+  }
+
+  /**
+   * Record activity on a valid session, resetting its idle timer
+   */
+  async touchSession(sessionId: string): Promise<ProcessResult> {
+    const validation = await this.validateSession(sessionId);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const session = this.sessions.get(sessionId)!;
+    session.updateActivity();
+
+    return {
+      success: true,
+      message: 'Session activity recorded',
+      data: { sessionId, lastActivity: session.lastActivity },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Extend a valid session, never beyond its absolute timeout
+   */
+  async extendSession(sessionId: string, additionalMinutes: number): Promise<ProcessResult> {
+    const validation = await this.validateSession(sessionId);
+    if (!validation.success) {
+      return validation;
+    }
+
+    const session = this.sessions.get(sessionId)!;
+    session.extendSession(additionalMinutes);
+    session.updateActivity();
+
+    return {
+      success: true,
+      message: 'Session extended successfully',
+      data: {
+        sessionId,
+        expiresAt: session.expiresAt,
+        sessionToken: this.issueSessionToken(session)
+      },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Trusted Process: Session Termination
+   */
+  async terminateSession(sessionId: string, reason: string = 'Terminated by request'): Promise<ProcessResult> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return {
+        success: false,
+        message: 'Session not found',
+        timestamp: new Date()
+      };
+    }
+
+    this.endSession(session, reason);
+
+    return {
+      success: true,
+      message: 'Session terminated successfully',
+      data: { sessionId, terminatedAt: session.terminatedAt },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Terminate every active session of a subject
+   */
+  async terminateSubjectSessions(subjectId: string, reason: string = 'Terminated by request'): Promise<ProcessResult> {
+    const terminated = this.terminateActiveSessions(subjectId, reason);
+
+    return {
+      success: true,
+      message: `Terminated ${terminated.length} sessions`,
+      data: { subjectId, terminatedSessionIds: terminated },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Trusted Process: Credential Suspension/Recovery/Maintenance/Revocation
+   */
+  async suspendCredential(
+    credentialId: string,
+    reason: string,
+    reasonCode: AuthenticationReasonCode = AuthenticationReasonCode.ADMINISTRATIVE
+  ): Promise<ProcessResult> {
+    const credential = this.credentials.get(credentialId);
+    if (!credential) {
+      return {
+        success: false,
+        message: 'Credential not found',
+        timestamp: new Date()
+      };
+    }
+
+    credential.suspend(reason);
+    // An administrative suspension must not be lifted when a lockout window elapses
+    this.lockouts.delete(credentialId);
+    const terminatedSessionIds = this.cascadeCredentialInvalidation(
+      credential,
+      AuthenticationEventType.CREDENTIAL_SUSPENDED,
+      reason,
+      reasonCode
+    );
+
+    return {
+      success: true,
+      message: 'Credential suspended successfully',
+      data: { terminatedSessionIds },
+      timestamp: new Date()
+    };
+  }
+
+  async revokeCredential(
+    credentialId: string,
+    reason: string,
+    reasonCode: AuthenticationReasonCode = AuthenticationReasonCode.ADMINISTRATIVE
+  ): Promise<ProcessResult> {
+    const credential = this.credentials.get(credentialId);
+    if (!credential) {
+      return {
+        success: false,
+        message: 'Credential not found',
+        timestamp: new Date()
+      };
+    }
+
+    credential.revoke(reason);
+    this.lockouts.delete(credentialId);
+    this.verifiers.get(credential.credentialType)?.remove(credentialId);
+    const terminatedSessionIds = this.cascadeCredentialInvalidation(
+      credential,
+      AuthenticationEventType.CREDENTIAL_REVOKED,
+      reason,
+      reasonCode
+    );
+
+    return {
+      success: true,
+      message: 'Credential revoked successfully',
+      data: { terminatedSessionIds },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Trusted Process: Credential Recovery (administrative unlock)
+   * Clears a brute-force lockout before its window has elapsed
+   */
+  async unlockCredential(credentialId: string, administratorId: string): Promise<ProcessResult> {
+    const credential = this.credentials.get(credentialId);
+    const lockout = this.lockouts.get(credentialId);
+    if (!credential || !lockout) {
+      return {
+        success: false,
+        message: 'No lockout found for credential',
+        timestamp: new Date()
+      };
+    }
+
+    this.clearLockout(credential, AuthenticationReasonCode.ADMINISTRATIVE, { unlockedBy: administratorId });
+
+    return {
+      success: true,
+      message: 'Credential unlocked successfully',
+      data: { credentialId, unlockedBy: administratorId, lockedAt: lockout.lockedAt },
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * Reactivate credentials whose lockout window has elapsed
+   */
+  async releaseExpiredLockouts(): Promise<ProcessResult> {
+    const now = new Date();
+    const released: string[] = [];
+
+    for (const lockout of Array.from(this.lockouts.values())) {
+      const credential = this.credentials.get(lockout.credentialId);
+      if (credential && lockout.lockedUntil <= now) {
+        this.clearLockout(credential, AuthenticationReasonCode.LOCKOUT_EXPIRED);
+        released.push(credential.credentialId);
+      }
+    }
+
+    return {
+      success: true,
+      message: `Released ${released.length} expired lockouts`,
+      data: { released },
+      timestamp: now
+    };
+  }
+
+  /**
+   * Current lockout for a credential, if any
+   */
+  getCredentialLockout(credentialId: string): CredentialLockout | undefined {
+    return this.lockouts.get(credentialId);
+  }
+
+  /**
+   * Trusted Process: Credential Maintenance (renewal)
+   * Extends a credential near expiry, or re-issues it with fresh enrollment
+   * material when the renewal policy requires it for the credential type.
+   * Enrollment data is required for those types and refused for the others.
+   */
+  async renewCredential(credentialId: string, enrollmentData?: CredentialEnrollmentData): Promise<ProcessResult> {
+    try {
+      const credential = this.credentials.get(credentialId);
+      if (!credential) {
+        return {
+          success: false,
+          message: 'Credential not found',
+          timestamp: new Date()
+        };
+      }
+
+      const unusable = this.checkCredentialUsable(credential);
+      if (unusable) {
+        return unusable;
+      }
+
+      const now = new Date();
+      const renewableFrom = new Date(credential.expiresAt.getTime() - this.renewalPolicy.renewalWindowDays * 24 * 60 * 60 * 1000);
+      if (now < renewableFrom) {
+        return {
+          success: false,
+          message: 'Credential is not yet eligible for renewal',
+          data: { renewableFrom },
+          timestamp: now
+        };
+      }
+
+      const reissueRequired = this.renewalPolicy.reissueRequiredTypes.includes(credential.credentialType);
+      if (!reissueRequired && enrollmentData) {
+        return {
+          success: false,
+          message: `${credential.credentialType} credentials are renewed in place; enrollment data is not accepted`,
+          timestamp: now
+        };
+      }
+
+      if (reissueRequired) {
+        if (!enrollmentData) {
+          return {
+            success: false,
+            message: `Renewal of ${credential.credentialType} credentials requires new enrollment data`,
+            timestamp: now
+          };
+        }
+
+        const { credential: replacement, provisioningData } = await this.enrollCredential(
+          credential.subjectId,
+          credential.credentialType,
+          credential.assuranceLevel,
+          enrollmentData
+        );
+        replacement.replaces = credential.credentialId;
+        credential.replacedBy = replacement.credentialId;
+        await this.revokeCredential(
+          credential.credentialId,
+          `Renewed: superseded by ${replacement.credentialId}`,
+          AuthenticationReasonCode.SUPERSEDED
+        );
+        this.emitEvent({
+          eventType: AuthenticationEventType.CREDENTIAL_RENEWED,
+          subjectId: credential.subjectId,
+          credentialId: replacement.credentialId,
+          details: { replacesCredentialId: credential.credentialId, expiresAt: replacement.expiresAt }
+        });
+
+        return {
+          success: true,
+          message: 'Credential re-issued successfully',
+          data: {
+            credentialId: replacement.credentialId,
+            replacesCredentialId: credential.credentialId,
+            expiresAt: replacement.expiresAt,
+            provisioningData
+          },
+          timestamp: now
+        };
+      }
+
+      credential.expiresAt = this.lifetimePolicy.calculateExpirationDate(credential.credentialType, credential.assuranceLevel, now);
+      credential.renewedAt = now;
+      this.expiryNotices.delete(credential.credentialId);
+      this.emitEvent({
+        eventType: AuthenticationEventType.CREDENTIAL_RENEWED,
+        subjectId: credential.subjectId,
+        credentialId: credential.credentialId,
+        details: { expiresAt: credential.expiresAt }
+      });
+
+      return {
+        success: true,
+        message: 'Credential renewed successfully',
+        data: { credentialId, expiresAt: credential.expiresAt },
+        timestamp: now
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Credential renewal failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Active credentials that expire within the given number of days
+   */
+  findCredentialsNearingExpiry(withinDays: number, now: Date = new Date()): AuthenticationCredential[] {
+    const horizon = now.getTime() + withinDays * 24 * 60 * 60 * 1000;
+    return Array.from(this.credentials.values())
+      .filter(credential => credential.status === CredentialStatus.ACTIVE && credential.expiresAt.getTime() <= horizon);
+  }
+
+  /**
+   * Trusted Process: Credential Expiry
+   * Expires credentials past their expiry date and notifies subjects, once per
+   * threshold, of credentials approaching it. Run by CredentialExpiryScheduler.
+   */
+  async processCredentialExpiry(now: Date = new Date()): Promise<ProcessResult> {
+    const thresholds = [...this.renewalPolicy.notificationThresholdsDays].sort((a, b) => a - b);
+    const expired: string[] = [];
+    const notified: string[] = [];
+
+    for (const credential of this.findCredentialsNearingExpiry(Math.max(0, ...thresholds), now)) {
+      if (credential.expiresAt <= now) {
+        credential.status = CredentialStatus.EXPIRED;
+        this.expiryNotices.delete(credential.credentialId);
+        this.cascadeCredentialInvalidation(
+          credential,
+          AuthenticationEventType.CREDENTIAL_EXPIRED,
+          'Credential expired',
+          AuthenticationReasonCode.CREDENTIAL_EXPIRED
+        );
+        expired.push(credential.credentialId);
+        continue;
+      }
+
+      const daysRemaining = (credential.expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+      const threshold = thresholds.find(days => daysRemaining <= days);
+      const lastNotified = this.expiryNotices.get(credential.credentialId);
+      if (threshold === undefined || (lastNotified !== undefined && lastNotified <= threshold)) {
+        continue;
+      }
+
+      this.expiryNotices.set(credential.credentialId, threshold);
+      this.emitEvent({
+        eventType: AuthenticationEventType.CREDENTIAL_EXPIRING,
+        subjectId: credential.subjectId,
+        credentialId: credential.credentialId,
+        reason: `Credential expires within ${threshold} days`,
+        details: { expiresAt: credential.expiresAt, daysRemaining: Math.ceil(daysRemaining) }
+      });
+      notified.push(credential.credentialId);
+    }
+
+    return {
+      success: true,
+      message: `Credential expiry processed: ${expired.length} expired, ${notified.length} notified`,
+      data: { expired, notified },
+      timestamp: now
+    };
+  }
+
+  /**
+   * Link the Identity Provider used to re-prove subjects during credential recovery
+   */
+  linkIdentityProvider(identityProvider: IdentityProvider): void {
+    this.linkedIdentityProvider = identityProvider;
+  }
+
+  /**
+   * Record which verified person in the linked Identity Provider a subject is
+   */
+  bindSubjectToPerson(subjectId: string, personId: string): void {
+    this.subjectBindings.set(subjectId, personId);
+  }
+
+  getBoundPersonId(subjectId: string): string | undefined {
+    return this.subjectBindings.get(subjectId);
+  }
+
+  /**
+   * Link the registry that delegated sessions are checked against
+   */
+  linkDelegationRegistry(delegationRegistry: DelegationRegistry): void {
+    this.delegationRegistry = delegationRegistry;
+  }
+
+  /**
+   * Trusted Process: Credential Recovery
+   * Re-proves a subject who lost an authenticator through the linked Identity
+   * Provider using fresh evidence or a live capture, issues a replacement no
+   * stronger than the re-proofing supports, and revokes the lost credential
+   * with a link to its replacement. Revoked credentials cannot be recovered.
+   */
+  async recoverCredential(request: CredentialRecoveryRequest): Promise<ProcessResult> {
+    try {
+      const lostCredential = this.credentials.get(request.credentialId);
+      if (!lostCredential) {
+        return {
+          success: false,
+          message: 'Credential not found',
+          timestamp: new Date()
+        };
+      }
+
+      if (lostCredential.replacedBy) {
+        return {
+          success: false,
+          message: `Credential has already been replaced by ${lostCredential.replacedBy}`,
+          timestamp: new Date()
+        };
+      }
+
+      if (lostCredential.status === CredentialStatus.REVOKED) {
+        return {
+          success: false,
+          message: 'Revoked credentials cannot be recovered',
+          errors: lostCredential.revocationReason ? [lostCredential.revocationReason] : undefined,
+          timestamp: new Date()
+        };
+      }
+
+      if ((request.evidence || []).length === 0 && !request.liveCapture) {
+        return {
+          success: false,
+          message: 'Recovery requires fresh evidence or a live biometric capture',
+          timestamp: new Date()
+        };
+      }
+
+      const personId = this.subjectBindings.get(lostCredential.subjectId);
+      if (!this.linkedIdentityProvider || !personId) {
+        return {
+          success: false,
+          message: 'Subject is not bound to a verified person in a linked Identity Provider',
+          timestamp: new Date()
+        };
+      }
+
+      const reproofing = await this.linkedIdentityProvider.verifyIdentity(personId, request.verificationMethod, {
+        evidence: request.evidence,
+        liveCapture: request.liveCapture
+      });
+      if (!reproofing.success || !reproofing.data?.assuranceLevel) {
+        return {
+          success: false,
+          message: 'Identity re-proofing failed',
+          errors: reproofing.errors || [reproofing.message],
+          timestamp: new Date()
+        };
+      }
+
+      const replacementType = request.replacementType || lostCredential.credentialType;
+      if (!this.verifiers.has(replacementType)) {
+        return {
+          success: false,
+          message: `No verifier available for credential type ${replacementType}`,
+          timestamp: new Date()
+        };
+      }
+
+      const replacementLevel = minimumAssuranceLevel(this.assuranceLevel, reproofing.data.assuranceLevel);
+      const { credential: replacement, provisioningData } = await this.enrollCredential(
+        lostCredential.subjectId,
+        replacementType,
+        replacementLevel,
+        request.enrollmentData || {}
+      );
+
+      replacement.replaces = lostCredential.credentialId;
+      lostCredential.replacedBy = replacement.credentialId;
+      await this.revokeCredential(
+        lostCredential.credentialId,
+        `Recovered: ${request.reason || 'authenticator lost'}; replaced by ${replacement.credentialId}`,
+        AuthenticationReasonCode.CREDENTIAL_RECOVERY
+      );
+
+      return {
+        success: true,
+        message: 'Credential recovered successfully',
+        data: {
+          credentialId: replacement.credentialId,
+          replacesCredentialId: lostCredential.credentialId,
+          assuranceLevel: replacement.assuranceLevel,
+          provisioningData
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Credential recovery failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Subscribe to authentication, credential and session events.
+   * Returns a function that removes the subscription.
+   */
+  subscribe(listener: AuthenticationEventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Query the authentication event log
+   */
+  queryAuthenticationEvents(filter: AuthenticationEventFilter = {}): AuthenticationEvent[] {
+    return this.eventLog.query(filter);
+  }
+
+  /**
+   * Report a subject's credentials, sessions and authentication history
+   * over a period, for investigating account-takeover complaints
+   */
+  async generateAuthenticationReport(subjectId: string, from?: Date, to: Date = new Date()): Promise<ProcessResult> {
+    try {
+      const credentials = Array.from(this.credentials.values())
+        .filter(credential => credential.subjectId === subjectId)
+        .map(credential => ({
+          credentialId: credential.credentialId,
+          credentialType: credential.credentialType,
+          status: credential.status,
+          assuranceLevel: credential.assuranceLevel,
+          issuedAt: credential.issuedAt,
+          expiresAt: credential.expiresAt,
+          lastUsed: credential.lastUsed,
+          lockedUntil: this.lockouts.get(credential.credentialId)?.lockedUntil
+        }));
+      const events = this.eventLog.query({ subjectId, from, to });
+
+      if (credentials.length === 0 && events.length === 0) {
+        return {
+          success: false,
+          message: 'No authentication records found for subject',
+          timestamp: new Date()
+        };
+      }
+
+      const report = buildSubjectAuthenticationReport(
+        subjectId,
+        events,
+        credentials,
+        this.getActiveSessions(subjectId).map(session => session.sessionId),
+        from,
+        to
+      );
+
+      return {
+        success: true,
+        message: 'Authentication report generated',
+        data: report,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Authentication report generation failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
   /**
    * Get conformance criteria for Authentication component
    */
@@ -244,31 +1618,387 @@ export class AuthenticationServiceProvider {
     ];
   }
 
+  private async enrollCredential(
+    subjectId: string,
+    credentialType: CredentialType,
+    assuranceLevel: AssuranceLevel,
+    enrollmentData: CredentialEnrollmentData
+  ): Promise<{ credential: AuthenticationCredential; provisioningData?: Record<string, any> }> {
+    const verifier = this.verifiers.get(credentialType);
+    if (!verifier) {
+      throw new Error(`No verifier available for credential type ${credentialType}`);
+    }
+
+    const credential = new AuthenticationCredential(
+      this.generateCredentialId(),
+      subjectId,
+      credentialType,
+      assuranceLevel,
+      new Date(),
+      this.lifetimePolicy.calculateExpirationDate(credentialType, assuranceLevel)
+    );
+
+    const provisioningData = await verifier.enroll(credential, enrollmentData);
+    this.credentials.set(credential.credentialId, credential);
+    return { credential, provisioningData };
+  }
+
   private generateCredentialId(): string {
     return 'CRED-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
   }
 
+  private generateTransactionId(): string {
+    return 'AUTHTX-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  }
+
   private generateSessionId(): string {
     return 'SESS-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
   }
 
-  private calculateExpirationDate(credentialType: CredentialType): Date {
-    const now = new Date();
-    switch (credentialType) {
-      case CredentialType.BIOMETRIC:
-        return new Date(now.getTime() + 365 * 24 * 60 * 60 * 1000); // 1 year
-      case CredentialType.PASSWORD:
-        return new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days
-      case CredentialType.CERTIFICATE:
-        return new Date(now.getTime() + 2 * 365 * 24 * 60 * 60 * 1000); // 2 years
-      default:
-        return new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days
+  /**
+   * Sign a token asserting only the level the session's verified factors
+   * support. Delegated sessions name the principal as `sub` and the
+   * authenticated delegate in an `act` claim (RFC 8693).
+   */
+  private issueSessionToken(session: AuthenticationSession): string {
+    const assuranceLevel = session.getAuthenticatedAssuranceLevel();
+    if (!assuranceLevel) {
+      throw new Error('Session has no verified authentication factors');
+    }
+
+    return this.tokenSigner.sign({
+      iss: this.participantId,
+      sub: session.getEffectiveSubjectId(),
+      sid: session.sessionId,
+      assurance_level: assuranceLevel,
+      iat: Math.floor(Date.now() / 1000),
+      exp: Math.floor(session.expiresAt.getTime() / 1000),
+      jti: randomUUID(),
+      ...(session.delegation ? {
+        act: { sub: session.subjectId },
+        delegation_id: session.delegation.delegationId,
+        delegation_scope: session.delegation.scope
+      } : {})
+    });
+  }
+
+  private terminateActiveSessions(subjectId: string, reason: string): string[] {
+    const terminated: string[] = [];
+    this.sessions.forEach(session => {
+      if (session.subjectId === subjectId && session.isActive) {
+        this.endSession(session, reason);
+        terminated.push(session.sessionId);
+      }
+    });
+    return terminated;
+  }
+
+  /**
+   * Terminate every active session established with a credential that
+   * has just been suspended or revoked, emitting the credential event first
+   */
+  private cascadeCredentialInvalidation(
+    credential: AuthenticationCredential,
+    eventType: AuthenticationEventType,
+    reason: string,
+    reasonCode: AuthenticationReasonCode
+  ): string[] {
+    this.emitEvent({ eventType, subjectId: credential.subjectId, credentialId: credential.credentialId, reason, reasonCode });
+
+    const terminated: string[] = [];
+    this.sessions.forEach(session => {
+      if (session.isActive && session.credentialIds.includes(credential.credentialId)) {
+        this.endSession(session, `Credential ${credential.credentialId} ${credential.status.toLowerCase()}: ${reason}`, credential.credentialId);
+        terminated.push(session.sessionId);
+      }
+    });
+    return terminated;
+  }
+
+  private endSession(session: AuthenticationSession, reason: string, credentialId?: string): void {
+    if (!session.isActive) {
+      return;
+    }
+
+    session.terminate(reason);
+    this.emitEvent({
+      eventType: AuthenticationEventType.SESSION_TERMINATED,
+      subjectId: session.subjectId,
+      sessionId: session.sessionId,
+      credentialId,
+      reason
+    });
+  }
+
+  private emitEvent(event: Omit<AuthenticationEvent, 'eventId' | 'timestamp'>): void {
+    const fullEvent: AuthenticationEvent = {
+      ...event,
+      eventId: 'AUTHEVT-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9),
+      timestamp: new Date()
+    };
+
+    this.eventLog.append(fullEvent);
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(fullEvent);
+      } catch {
+        // A failing subscriber must not interrupt the trusted process that emitted the event
+      }
+    });
+  }
+
+  private async assessRisk(subjectId: string, context?: AuthenticationContext): Promise<RiskAssessment | undefined> {
+    if (!context || !this.riskEngine) {
+      return undefined;
+    }
+    return this.riskEngine.assess(subjectId, context);
+  }
+
+  private riskDenied(
+    riskAssessment: RiskAssessment,
+    channel: AuthenticationChannel,
+    context?: AuthenticationContext,
+    credential?: AuthenticationCredential
+  ): ProcessResult {
+    this.recordAuthenticationOutcome(
+      channel,
+      AuthenticationReasonCode.RISK_DENIED,
+      riskAssessment.subjectId,
+      credential,
+      context,
+      { riskLevel: riskAssessment.riskLevel, signals: riskAssessment.signals.map(signal => signal.signal) }
+    );
+    return {
+      success: false,
+      message: 'Authentication denied by risk assessment',
+      data: { requiredAction: RiskDecision.DENY, riskAssessment },
+      errors: riskAssessment.signals.map(signal => signal.detail),
+      timestamp: new Date()
+    };
+  }
+
+  private checkCredentialUsable(credential: AuthenticationCredential): ProcessResult | undefined {
+    const lockout = this.lockouts.get(credential.credentialId);
+    if (lockout && lockout.lockedUntil <= new Date()) {
+      this.clearLockout(credential, AuthenticationReasonCode.LOCKOUT_EXPIRED);
+    } else if (lockout) {
+      return {
+        success: false,
+        message: 'Credential is locked out',
+        data: { lockedUntil: lockout.lockedUntil, reasonCode: AuthenticationReasonCode.CREDENTIAL_LOCKED },
+        timestamp: new Date()
+      };
+    }
+
+    if (credential.status !== CredentialStatus.ACTIVE) {
+      return {
+        success: false,
+        message: 'Credential is not active',
+        data: { reasonCode: AuthenticationReasonCode.CREDENTIAL_INACTIVE },
+        timestamp: new Date()
+      };
+    }
+
+    if (credential.isExpired()) {
+      credential.status = CredentialStatus.EXPIRED;
+      return {
+        success: false,
+        message: 'Credential has expired',
+        data: { reasonCode: AuthenticationReasonCode.CREDENTIAL_EXPIRED },
+        timestamp: new Date()
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check a credential presented for authentication, logging why it was refused
+   */
+  private rejectUnusableCredential(
+    credential: AuthenticationCredential,
+    channel: AuthenticationChannel,
+    context?: AuthenticationContext
+  ): ProcessResult | undefined {
+    const unusable = this.checkCredentialUsable(credential);
+    if (unusable) {
+      this.recordAuthenticationOutcome(channel, unusable.data.reasonCode, credential.subjectId, credential, context);
     }
+    return unusable;
+  }
+
+  /**
+   * Log the outcome of an authentication attempt with the factor and context it used
+   */
+  private recordAuthenticationOutcome(
+    channel: AuthenticationChannel,
+    reasonCode: AuthenticationReasonCode,
+    subjectId: string,
+    credential?: AuthenticationCredential,
+    context?: AuthenticationContext,
+    details: Record<string, any> = {}
+  ): void {
+    this.emitEvent({
+      eventType: reasonCode === AuthenticationReasonCode.SUCCESS
+        ? AuthenticationEventType.AUTHENTICATION_SUCCEEDED
+        : AuthenticationEventType.AUTHENTICATION_FAILED,
+      subjectId,
+      credentialId: credential?.credentialId,
+      reasonCode,
+      details: {
+        channel,
+        credentialType: credential?.credentialType,
+        ipAddress: context?.ipAddress,
+        deviceId: context?.deviceId,
+        ...details
+      }
+    });
   }
 
-  private async validateAuthenticationFactor(credential: AuthenticationCredential, factor: string): Promise<boolean> {
-    // Simplified validation logic - in real implementation this would involve
-    // cryptographic verification, biometric matching, etc.
-    return factor.length > 0 && credential.status === CredentialStatus.ACTIVE;
+  private getOpenTransaction(transactionId: string): AuthenticationTransaction | undefined {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction || transaction.status !== ProcessStatus.IN_PROGRESS) {
+      return undefined;
+    }
+
+    if (transaction.isExpired()) {
+      transaction.fail();
+      return undefined;
+    }
+
+    return transaction;
   }
+
+  /**
+   * Verify a factor under brute-force throttling, locking credentials
+   * once the policy's failure thresholds are reached
+   */
+  private async attemptAuthenticationFactor(
+    credential: AuthenticationCredential,
+    factor: string,
+    channel: AuthenticationChannel,
+    context?: AuthenticationContext
+  ): Promise<FactorAttemptResult> {
+    const check = this.throttle.checkAttempt(credential);
+    if (!check.allowed) {
+      this.recordAuthenticationOutcome(
+        channel,
+        AuthenticationReasonCode.THROTTLED,
+        credential.subjectId,
+        credential,
+        context,
+        { retryAfter: check.retryAfter }
+      );
+      return {
+        verified: false,
+        reason: 'Too many failed attempts; retry later',
+        retryAfter: check.retryAfter
+      };
+    }
+
+    const verification = await this.validateAuthenticationFactor(credential, factor);
+    if (verification.verified) {
+      this.throttle.recordSuccess(credential);
+      return verification;
+    }
+
+    if (verification.compromiseSuspected) {
+      const reason = `Suspected compromise: ${verification.reason}`;
+      this.recordAuthenticationOutcome(
+        channel,
+        AuthenticationReasonCode.COMPROMISE_SUSPECTED,
+        credential.subjectId,
+        credential,
+        context,
+        { failure: verification.reason }
+      );
+      credential.suspend(reason);
+      this.lockouts.delete(credential.credentialId);
+      this.cascadeCredentialInvalidation(
+        credential,
+        AuthenticationEventType.CREDENTIAL_SUSPENDED,
+        reason,
+        AuthenticationReasonCode.COMPROMISE_SUSPECTED
+      );
+      return verification;
+    }
+
+    this.recordAuthenticationOutcome(
+      channel,
+      AuthenticationReasonCode.INVALID_FACTOR,
+      credential.subjectId,
+      credential,
+      context,
+      { failure: verification.reason }
+    );
+    const outcome = this.throttle.recordFailure(credential);
+    if (outcome.lockSubject) {
+      Array.from(this.credentials.values())
+        .filter(candidate => candidate.subjectId === credential.subjectId && candidate.status === CredentialStatus.ACTIVE)
+        .forEach(candidate => this.lockCredential(candidate, `${outcome.subjectFailures} failed attempts for subject`));
+    } else if (outcome.lockCredential) {
+      this.lockCredential(credential, `${outcome.credentialFailures} consecutive failed attempts`);
+    }
+
+    return {
+      ...verification,
+      retryAfter: outcome.retryAfter,
+      lockedOut: outcome.lockCredential || outcome.lockSubject
+    };
+  }
+
+  private lockCredential(credential: AuthenticationCredential, reason: string): void {
+    const lockedAt = new Date();
+    const lockout: CredentialLockout = {
+      credentialId: credential.credentialId,
+      subjectId: credential.subjectId,
+      reason: `LOCKOUT: ${reason}`,
+      lockedAt,
+      lockedUntil: this.throttle.calculateLockoutExpiry(lockedAt)
+    };
+
+    credential.suspend(lockout.reason);
+    this.lockouts.set(credential.credentialId, lockout);
+    this.cascadeCredentialInvalidation(
+      credential,
+      AuthenticationEventType.CREDENTIAL_LOCKED,
+      lockout.reason,
+      AuthenticationReasonCode.FAILURE_THRESHOLD
+    );
+  }
+
+  private clearLockout(
+    credential: AuthenticationCredential,
+    reasonCode: AuthenticationReasonCode,
+    details?: Record<string, any>
+  ): void {
+    this.lockouts.delete(credential.credentialId);
+    this.throttle.reset(credential.credentialId, credential.subjectId);
+    credential.reactivate();
+    this.emitEvent({
+      eventType: AuthenticationEventType.CREDENTIAL_UNLOCKED,
+      subjectId: credential.subjectId,
+      credentialId: credential.credentialId,
+      reasonCode,
+      details
+    });
+  }
+
+  private async validateAuthenticationFactor(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    if (credential.status !== CredentialStatus.ACTIVE || !factor) {
+      return { verified: false, reason: 'Credential inactive or factor missing' };
+    }
+
+    const verifier = this.verifiers.get(credential.credentialType);
+    if (!verifier) {
+      return { verified: false, reason: `No verifier available for credential type ${credential.credentialType}` };
+    }
+
+    return verifier.verify(credential, factor);
+  }
+}
+
+interface FactorAttemptResult extends FactorVerificationResult {
+  retryAfter?: Date;
+  lockedOut?: boolean;
 }
@@ -4,15 +4,33 @@
  */
 
 import { AssuranceLevel } from '../shared/types';
+import { compareAssuranceLevels, minimumAssuranceLevel } from '../shared/assurance';
+import { DelegationDisclosure } from '../shared/delegation';
+import { FactorCategory, VerifiedFactor, calculateCombinedAssuranceLevel } from './authentication-transaction';
 
 /**
  * Session parameters for session initiation
  */
 export interface SessionParameters {
-  assuranceLevel: AssuranceLevel;
+  assuranceLevel: AssuranceLevel; // requested; capped at what the credentials support
   maxDuration: number; // in minutes
+  credentialIds: string[]; // credentials the subject has just authenticated with
+  idleTimeout?: number; // in minutes without activity
+  absoluteTimeout?: number; // in minutes from initiation, caps any extension
   allowConcurrentSessions?: boolean;
   requireReauthentication?: boolean;
+  delegationId?: string; // act on behalf of the delegation's principal
+}
+
+/**
+ * Audit record of how a session reached an assurance level
+ */
+export interface SessionAssuranceRecord {
+  assuranceLevel: AssuranceLevel;
+  achievedAt: Date;
+  method: 'INITIAL' | 'STEP_UP';
+  credentialIds: string[];
+  factorCategories: FactorCategory[];
 }
 
 /**
@@ -28,13 +46,23 @@ export class AuthenticationSession {
   public lastActivity?: Date;
   public ipAddress?: string;
   public userAgent?: string;
+  public idleTimeout?: number; // in minutes
+  public absoluteExpiresAt?: Date;
+  public terminatedAt?: Date;
+  public terminationReason?: string;
+  public credentialIds: string[] = [];
+  public verifiedFactors: VerifiedFactor[] = []; // factors that passed to establish or raise the session
+  public assuranceHistory: SessionAssuranceRecord[] = [];
+  public delegation?: DelegationDisclosure; // set when the subject acts for a principal
 
   constructor(
     sessionId: string,
     subjectId: string,
     assuranceLevel: AssuranceLevel,
     initiatedAt: Date,
-    maxDuration: number // in minutes
+    maxDuration: number, // in minutes
+    idleTimeout?: number, // in minutes
+    absoluteTimeout?: number // in minutes
   ) {
     this.sessionId = sessionId;
     this.subjectId = subjectId;
@@ -43,23 +71,128 @@ export class AuthenticationSession {
     this.expiresAt = new Date(initiatedAt.getTime() + maxDuration * 60 * 1000);
     this.isActive = true;
     this.lastActivity = initiatedAt;
+    this.idleTimeout = idleTimeout;
+    this.assuranceHistory.push({
+      assuranceLevel,
+      achievedAt: initiatedAt,
+      method: 'INITIAL',
+      credentialIds: [],
+      factorCategories: []
+    });
+
+    if (absoluteTimeout !== undefined) {
+      this.absoluteExpiresAt = new Date(initiatedAt.getTime() + absoluteTimeout * 60 * 1000);
+      if (this.expiresAt > this.absoluteExpiresAt) {
+        this.expiresAt = this.absoluteExpiresAt;
+      }
+    }
+  }
+
+  /**
+   * Record the verified factors the session was established with
+   */
+  attachFactors(factors: VerifiedFactor[]): void {
+    this.verifiedFactors = [...factors];
+    this.credentialIds = factors.map(factor => factor.credentialId);
+    this.assuranceHistory[0].credentialIds = [...this.credentialIds];
+    this.assuranceHistory[0].factorCategories = Array.from(new Set(factors.map(factor => factor.factorCategory)));
+  }
+
+  /**
+   * Raise the session's assurance level in place after additional factors
+   */
+  stepUp(assuranceLevel: AssuranceLevel, factors: VerifiedFactor[]): void {
+    if (!this.isValid()) {
+      throw new Error('Cannot step up an inactive session');
+    }
+    if (compareAssuranceLevels(assuranceLevel, this.assuranceLevel) <= 0) {
+      throw new Error(`Session is already at ${this.assuranceLevel}`);
+    }
+
+    this.assuranceLevel = assuranceLevel;
+    const credentialIds = factors.map(factor => factor.credentialId);
+    this.verifiedFactors = [
+      ...this.verifiedFactors.filter(factor => !credentialIds.includes(factor.credentialId)),
+      ...factors
+    ];
+    credentialIds
+      .filter(credentialId => !this.credentialIds.includes(credentialId))
+      .forEach(credentialId => this.credentialIds.push(credentialId));
+    this.assuranceHistory.push({
+      assuranceLevel,
+      achievedAt: new Date(),
+      method: 'STEP_UP',
+      credentialIds,
+      factorCategories: Array.from(new Set(factors.map(factor => factor.factorCategory)))
+    });
+  }
+
+  /**
+   * Level the session's verified factors support, never above the level the
+   * session was granted; undefined when no factor has been verified
+   */
+  getAuthenticatedAssuranceLevel(): AssuranceLevel | undefined {
+    const combined = calculateCombinedAssuranceLevel(this.verifiedFactors);
+    return combined ? minimumAssuranceLevel(this.assuranceLevel, combined) : undefined;
+  }
+
+  /**
+   * Act on behalf of a principal; the session cannot outlive the delegation
+   */
+  actOnBehalfOf(delegation: DelegationDisclosure): void {
+    this.delegation = delegation;
+    if (delegation.validUntil) {
+      if (delegation.validUntil < this.expiresAt) {
+        this.expiresAt = delegation.validUntil;
+      }
+      if (!this.absoluteExpiresAt || delegation.validUntil < this.absoluteExpiresAt) {
+        this.absoluteExpiresAt = delegation.validUntil;
+      }
+    }
   }
 
-  terminate(): void {
-    this.isActive = false;
+  /**
+   * Identity the session acts as: the principal when delegated, otherwise the subject
+   */
+  getEffectiveSubjectId(): string {
+    return this.delegation ? this.delegation.principalId : this.subjectId;
+  }
+
+  terminate(reason?: string): void {
+    if (this.isActive) {
+      this.isActive = false;
+      this.terminatedAt = new Date();
+      this.terminationReason = reason;
+    }
   }
 
   isExpired(): boolean {
     return new Date() > this.expiresAt;
   }
 
+  isIdle(): boolean {
+    if (this.idleTimeout === undefined || !this.lastActivity) {
+      return false;
+    }
+    return new Date().getTime() - this.lastActivity.getTime() > this.idleTimeout * 60 * 1000;
+  }
+
+  isValid(): boolean {
+    return this.isActive && !this.isExpired() && !this.isIdle();
+  }
+
   updateActivity(): void {
-    this.lastActivity = new Date();
+    if (this.isActive) {
+      this.lastActivity = new Date();
+    }
   }
 
   extendSession(additionalMinutes: number): void {
     if (this.isActive && !this.isExpired()) {
-      this.expiresAt = new Date(this.expiresAt.getTime() + additionalMinutes * 60 * 1000);
+      const extended = new Date(this.expiresAt.getTime() + additionalMinutes * 60 * 1000);
+      this.expiresAt = this.absoluteExpiresAt && extended > this.absoluteExpiresAt
+        ? this.absoluteExpiresAt
+        : extended;
     }
   }
 
@@ -0,0 +1,144 @@
+/**
+ * Authentication Throttle
+ * Tracks failed authentication attempts per credential and per subject
+ */
+
+import { AuthenticationCredential } from './authentication-credential';
+
+/**
+ * Brute-force protection policy
+ */
+export interface AuthenticationThrottlePolicy {
+  maxCredentialFailures: number; // consecutive failures before the credential is locked
+  maxSubjectFailures: number; // failures across all of a subject's credentials before all are locked
+  baseBackoffSeconds: number; // delay after the first failure, doubled for each further failure
+  maxBackoffSeconds: number;
+  lockoutDurationMinutes: number; // lockouts clear automatically after this window
+  failureWindowMinutes: number; // counters reset after this long without a failure
+}
+
+export const DEFAULT_THROTTLE_POLICY: AuthenticationThrottlePolicy = {
+  maxCredentialFailures: 5,
+  maxSubjectFailures: 10,
+  baseBackoffSeconds: 1,
+  maxBackoffSeconds: 300,
+  lockoutDurationMinutes: 30,
+  failureWindowMinutes: 60
+};
+
+/**
+ * Lockout applied to a credential after repeated failures
+ */
+export interface CredentialLockout {
+  credentialId: string;
+  subjectId: string;
+  reason: string;
+  lockedAt: Date;
+  lockedUntil: Date;
+}
+
+/**
+ * Result of checking whether an attempt may proceed
+ */
+export interface ThrottleCheck {
+  allowed: boolean;
+  retryAfter?: Date;
+}
+
+/**
+ * Result of recording a failed attempt
+ */
+export interface ThrottleFailureOutcome {
+  credentialFailures: number;
+  subjectFailures: number;
+  retryAfter: Date;
+  lockCredential: boolean;
+  lockSubject: boolean;
+}
+
+/**
+ * Authentication Throttle class
+ */
+export class AuthenticationThrottle {
+  public readonly policy: AuthenticationThrottlePolicy;
+  private credentialCounters: Map<string, FailureCounter> = new Map();
+  private subjectCounters: Map<string, FailureCounter> = new Map();
+
+  constructor(policy: Partial<AuthenticationThrottlePolicy> = {}) {
+    this.policy = { ...DEFAULT_THROTTLE_POLICY, ...policy };
+  }
+
+  checkAttempt(credential: AuthenticationCredential, now: Date = new Date()): ThrottleCheck {
+    const retryAfter = [
+      this.getCounter(this.credentialCounters, credential.credentialId, now),
+      this.getCounter(this.subjectCounters, credential.subjectId, now)
+    ]
+      .filter((counter): counter is FailureCounter => counter !== undefined && counter.nextAttemptAt > now)
+      .map(counter => counter.nextAttemptAt)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+
+    return retryAfter ? { allowed: false, retryAfter } : { allowed: true };
+  }
+
+  recordFailure(credential: AuthenticationCredential, now: Date = new Date()): ThrottleFailureOutcome {
+    const credentialCounter = this.incrementCounter(this.credentialCounters, credential.credentialId, now);
+    const subjectCounter = this.incrementCounter(this.subjectCounters, credential.subjectId, now);
+    const retryAfter = credentialCounter.nextAttemptAt > subjectCounter.nextAttemptAt
+      ? credentialCounter.nextAttemptAt
+      : subjectCounter.nextAttemptAt;
+
+    return {
+      credentialFailures: credentialCounter.failures,
+      subjectFailures: subjectCounter.failures,
+      retryAfter,
+      lockCredential: credentialCounter.failures >= this.policy.maxCredentialFailures,
+      lockSubject: subjectCounter.failures >= this.policy.maxSubjectFailures
+    };
+  }
+
+  recordSuccess(credential: AuthenticationCredential): void {
+    this.credentialCounters.delete(credential.credentialId);
+    this.subjectCounters.delete(credential.subjectId);
+  }
+
+  reset(credentialId: string, subjectId?: string): void {
+    this.credentialCounters.delete(credentialId);
+    if (subjectId) {
+      this.subjectCounters.delete(subjectId);
+    }
+  }
+
+  calculateLockoutExpiry(now: Date = new Date()): Date {
+    return new Date(now.getTime() + this.policy.lockoutDurationMinutes * 60 * 1000);
+  }
+
+  private getCounter(counters: Map<string, FailureCounter>, key: string, now: Date): FailureCounter | undefined {
+    const counter = counters.get(key);
+    if (counter && now.getTime() - counter.lastFailureAt.getTime() > this.policy.failureWindowMinutes * 60 * 1000) {
+      counters.delete(key);
+      return undefined;
+    }
+    return counter;
+  }
+
+  private incrementCounter(counters: Map<string, FailureCounter>, key: string, now: Date): FailureCounter {
+    const failures = (this.getCounter(counters, key, now)?.failures || 0) + 1;
+    const backoffSeconds = Math.min(
+      this.policy.baseBackoffSeconds * Math.pow(2, failures - 1),
+      this.policy.maxBackoffSeconds
+    );
+    const counter = {
+      failures,
+      lastFailureAt: now,
+      nextAttemptAt: new Date(now.getTime() + backoffSeconds * 1000)
+    };
+    counters.set(key, counter);
+    return counter;
+  }
+}
+
+interface FailureCounter {
+  failures: number;
+  lastFailureAt: Date;
+  nextAttemptAt: Date;
+}
@@ -0,0 +1,147 @@
+/**
+ * Authentication Transaction
+ * Collects factors from several credentials of one subject for multi-factor authentication
+ */
+
+import { AssuranceLevel, ProcessStatus } from '../shared/types';
+import { minimumAssuranceLevel } from '../shared/assurance';
+import { AuthenticationCredential, CredentialType } from './authentication-credential';
+import { AuthenticationContext, RiskAssessment } from './authentication-risk';
+
+/**
+ * Authentication factor categories (something you know, have, are)
+ */
+export enum FactorCategory {
+  KNOWLEDGE = 'KNOWLEDGE',
+  POSSESSION = 'POSSESSION',
+  INHERENCE = 'INHERENCE'
+}
+
+/**
+ * Factor category of each credential type
+ */
+export const CREDENTIAL_FACTOR_CATEGORIES: Record<CredentialType, FactorCategory> = {
+  [CredentialType.PASSWORD]: FactorCategory.KNOWLEDGE,
+  [CredentialType.BIOMETRIC]: FactorCategory.INHERENCE,
+  [CredentialType.CERTIFICATE]: FactorCategory.POSSESSION,
+  [CredentialType.TOKEN]: FactorCategory.POSSESSION,
+  [CredentialType.SMARTCARD]: FactorCategory.POSSESSION,
+  [CredentialType.WEBAUTHN]: FactorCategory.POSSESSION
+};
+
+/**
+ * Credential types backed by a cryptographic key held in a protected device
+ */
+const CRYPTOGRAPHIC_CREDENTIAL_TYPES: CredentialType[] = [
+  CredentialType.CERTIFICATE,
+  CredentialType.SMARTCARD,
+  CredentialType.WEBAUTHN
+];
+
+/**
+ * A factor successfully verified within a transaction
+ */
+export interface VerifiedFactor {
+  credentialId: string;
+  credentialType: CredentialType;
+  factorCategory: FactorCategory;
+  assuranceLevel: AssuranceLevel;
+  verifiedAt: Date;
+}
+
+/**
+ * Authentication Transaction class
+ */
+export class AuthenticationTransaction {
+  public transactionId: string;
+  public subjectId: string;
+  public requiredAssuranceLevel: AssuranceLevel;
+  public status: ProcessStatus;
+  public startedAt: Date;
+  public expiresAt: Date;
+  public completedAt?: Date;
+  public verifiedFactors: VerifiedFactor[] = [];
+  public context?: AuthenticationContext;
+  public riskAssessment?: RiskAssessment;
+
+  constructor(
+    transactionId: string,
+    subjectId: string,
+    requiredAssuranceLevel: AssuranceLevel,
+    maxDuration: number // in minutes
+  ) {
+    this.transactionId = transactionId;
+    this.subjectId = subjectId;
+    this.requiredAssuranceLevel = requiredAssuranceLevel;
+    this.status = ProcessStatus.IN_PROGRESS;
+    this.startedAt = new Date();
+    this.expiresAt = new Date(this.startedAt.getTime() + maxDuration * 60 * 1000);
+  }
+
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  hasCategory(category: FactorCategory): boolean {
+    return this.verifiedFactors.some(factor => factor.factorCategory === category);
+  }
+
+  getFactorCategories(): FactorCategory[] {
+    return Array.from(new Set(this.verifiedFactors.map(factor => factor.factorCategory)));
+  }
+
+  addFactor(credential: AuthenticationCredential): void {
+    this.verifiedFactors.push(toVerifiedFactor(credential));
+  }
+
+  getCombinedAssuranceLevel(): AssuranceLevel | undefined {
+    return calculateCombinedAssuranceLevel(this.verifiedFactors);
+  }
+
+  complete(): void {
+    this.status = ProcessStatus.COMPLETED;
+    this.completedAt = new Date();
+  }
+
+  fail(): void {
+    this.status = ProcessStatus.FAILED;
+    this.completedAt = new Date();
+  }
+}
+
+/**
+ * Record of a credential that has just passed verification
+ */
+export function toVerifiedFactor(credential: AuthenticationCredential, verifiedAt: Date = new Date()): VerifiedFactor {
+  return {
+    credentialId: credential.credentialId,
+    credentialType: credential.credentialType,
+    factorCategory: CREDENTIAL_FACTOR_CATEGORIES[credential.credentialType],
+    assuranceLevel: credential.assuranceLevel,
+    verifiedAt
+  };
+}
+
+/**
+ * Combined assurance level for a set of verified factors.
+ * A single factor category supports at most LOA2; two or more independent
+ * categories support LOA3, and LOA4 additionally requires a cryptographic
+ * possession factor. The result never exceeds the weakest credential used.
+ */
+export function calculateCombinedAssuranceLevel(factors: VerifiedFactor[]): AssuranceLevel | undefined {
+  if (factors.length === 0) {
+    return undefined;
+  }
+
+  const categoryCount = new Set(factors.map(factor => factor.factorCategory)).size;
+  let ceiling: AssuranceLevel;
+  if (categoryCount < 2) {
+    ceiling = AssuranceLevel.LOA2;
+  } else if (factors.some(factor => CRYPTOGRAPHIC_CREDENTIAL_TYPES.includes(factor.credentialType))) {
+    ceiling = AssuranceLevel.LOA4;
+  } else {
+    ceiling = AssuranceLevel.LOA3;
+  }
+
+  return minimumAssuranceLevel(ceiling, ...factors.map(factor => factor.assuranceLevel));
+}
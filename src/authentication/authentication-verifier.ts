@@ -0,0 +1,431 @@
+/**
+ * Authentication Factor Verifiers
+ * Per-credential-type enrollment and verification of authentication factors
+ */
+
+import {
+  createHmac,
+  randomBytes,
+  scrypt,
+  timingSafeEqual,
+  verify as verifySignature,
+  X509Certificate,
+  ScryptOptions
+} from 'crypto';
+import { AuthenticationCredential, CredentialType } from './authentication-credential';
+import { WebAuthnAttestationResponse } from './webauthn-verifier';
+import {
+  BiometricEvidence,
+  BiometricProvider,
+  BiometricVerificationPolicy,
+  DEFAULT_BIOMETRIC_VERIFICATION_POLICY
+} from '../shared/biometrics';
+import { constantTimeEquals } from '../shared/constant-time';
+
+/**
+ * One-time password modes supported for TOKEN credentials
+ */
+export enum OneTimePasswordMode {
+  TOTP = 'TOTP',
+  HOTP = 'HOTP'
+}
+
+/**
+ * Enrollment material supplied when a credential is issued
+ */
+export interface CredentialEnrollmentData {
+  secret?: string; // PASSWORD
+  otpMode?: OneTimePasswordMode; // TOKEN
+  otpSeed?: string; // TOKEN, base32 encoded; generated when omitted
+  certificatePem?: string; // CERTIFICATE and SMARTCARD
+  webAuthnAttestation?: WebAuthnAttestationResponse; // WEBAUTHN
+  biometricReference?: BiometricEvidence; // BIOMETRIC, the enrolled sample
+}
+
+/**
+ * Challenge issued to the subject for challenge-response authenticators
+ */
+export interface AuthenticationChallenge {
+  credentialId: string;
+  challenge: string; // base64url encoded
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of verifying a single authentication factor
+ */
+export interface FactorVerificationResult {
+  verified: boolean;
+  reason?: string;
+  compromiseSuspected?: boolean; // e.g. a cloned authenticator was detected
+}
+
+/**
+ * Verifier responsible for one or more credential types
+ */
+export interface AuthenticationFactorVerifier {
+  readonly supportedTypes: CredentialType[];
+
+  /**
+   * Stores the verifier-side material for a newly issued credential.
+   * Returns provisioning data to hand back to the subject, if any.
+   */
+  enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<Record<string, any> | undefined>;
+
+  verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult>;
+
+  createChallenge?(credential: AuthenticationCredential): Promise<AuthenticationChallenge>;
+
+  remove(credentialId: string): void;
+}
+
+/**
+ * Password verifier using salted scrypt hashes
+ */
+export class PasswordVerifier implements AuthenticationFactorVerifier {
+  public readonly supportedTypes = [CredentialType.PASSWORD];
+
+  private static readonly MINIMUM_LENGTH = 8;
+  private static readonly KEY_LENGTH = 64;
+  private static readonly PARAMETERS: ScryptOptions = { N: 32768, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+  private records: Map<string, PasswordRecord> = new Map();
+
+  async enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<undefined> {
+    const secret = enrollmentData.secret;
+    if (!secret || secret.length < PasswordVerifier.MINIMUM_LENGTH) {
+      throw new Error(`Password must be at least ${PasswordVerifier.MINIMUM_LENGTH} characters`);
+    }
+
+    const salt = randomBytes(16);
+    const hash = await deriveScryptKey(secret, salt, PasswordVerifier.KEY_LENGTH, PasswordVerifier.PARAMETERS);
+    this.records.set(credential.credentialId, { salt, hash, parameters: PasswordVerifier.PARAMETERS });
+    return undefined;
+  }
+
+  async verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      return { verified: false, reason: 'No password enrolled for credential' };
+    }
+
+    const candidate = await deriveScryptKey(factor, record.salt, record.hash.length, record.parameters);
+    return timingSafeEqual(candidate, record.hash)
+      ? { verified: true }
+      : { verified: false, reason: 'Password mismatch' };
+  }
+
+  remove(credentialId: string): void {
+    this.records.delete(credentialId);
+  }
+}
+
+/**
+ * TOTP (RFC 6238) and HOTP (RFC 4226) verifier for TOKEN credentials
+ */
+export class OneTimePasswordVerifier implements AuthenticationFactorVerifier {
+  public readonly supportedTypes = [CredentialType.TOKEN];
+
+  private static readonly DIGITS = 6;
+  private static readonly TIME_STEP_SECONDS = 30;
+  private static readonly TOTP_WINDOW = 1; // accepted steps either side of now
+  private static readonly HOTP_LOOK_AHEAD = 10;
+
+  private records: Map<string, OneTimePasswordRecord> = new Map();
+
+  async enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<Record<string, any>> {
+    const mode = enrollmentData.otpMode || OneTimePasswordMode.TOTP;
+    const seed = enrollmentData.otpSeed ? decodeBase32(enrollmentData.otpSeed) : randomBytes(20);
+    if (seed.length < 16) {
+      throw new Error('One-time password seed must be at least 128 bits');
+    }
+
+    this.records.set(credential.credentialId, { mode, seed, counter: 0 });
+
+    return {
+      otpMode: mode,
+      otpSeed: encodeBase32(seed),
+      digits: OneTimePasswordVerifier.DIGITS,
+      period: mode === OneTimePasswordMode.TOTP ? OneTimePasswordVerifier.TIME_STEP_SECONDS : undefined
+    };
+  }
+
+  async verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      return { verified: false, reason: 'No token seed enrolled for credential' };
+    }
+
+    if (!/^\d+$/.test(factor) || factor.length !== OneTimePasswordVerifier.DIGITS) {
+      return { verified: false, reason: 'Malformed one-time password' };
+    }
+
+    if (record.mode === OneTimePasswordMode.HOTP) {
+      for (let offset = 0; offset < OneTimePasswordVerifier.HOTP_LOOK_AHEAD; offset++) {
+        const counter = record.counter + offset;
+        if (constantTimeEquals(generateOneTimePassword(record.seed, counter, OneTimePasswordVerifier.DIGITS), factor)) {
+          record.counter = counter + 1;
+          return { verified: true };
+        }
+      }
+      return { verified: false, reason: 'One-time password mismatch' };
+    }
+
+    const currentStep = Math.floor(Date.now() / 1000 / OneTimePasswordVerifier.TIME_STEP_SECONDS);
+    for (let offset = -OneTimePasswordVerifier.TOTP_WINDOW; offset <= OneTimePasswordVerifier.TOTP_WINDOW; offset++) {
+      const step = currentStep + offset;
+      if (constantTimeEquals(generateOneTimePassword(record.seed, step, OneTimePasswordVerifier.DIGITS), factor)) {
+        // Reject replay of a code from a step that has already been accepted
+        if (step < record.counter) {
+          return { verified: false, reason: 'One-time password already used' };
+        }
+        record.counter = step + 1;
+        return { verified: true };
+      }
+    }
+
+    return { verified: false, reason: 'One-time password mismatch' };
+  }
+
+  remove(credentialId: string): void {
+    this.records.delete(credentialId);
+  }
+}
+
+/**
+ * X.509 challenge-signature verifier for CERTIFICATE and SMARTCARD credentials
+ * The factor is the base64 encoded signature over the most recently issued challenge.
+ */
+export class CertificateVerifier implements AuthenticationFactorVerifier {
+  public readonly supportedTypes = [CredentialType.CERTIFICATE, CredentialType.SMARTCARD];
+
+  private static readonly CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+
+  private records: Map<string, CertificateRecord> = new Map();
+
+  async enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<Record<string, any>> {
+    if (!enrollmentData.certificatePem) {
+      throw new Error('Certificate is required for enrollment');
+    }
+
+    const certificate = new X509Certificate(enrollmentData.certificatePem);
+    if (new Date(certificate.validTo) < new Date()) {
+      throw new Error('Certificate has expired');
+    }
+
+    this.records.set(credential.credentialId, { certificate });
+
+    return {
+      subject: certificate.subject,
+      serialNumber: certificate.serialNumber,
+      fingerprint256: certificate.fingerprint256
+    };
+  }
+
+  async createChallenge(credential: AuthenticationCredential): Promise<AuthenticationChallenge> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      throw new Error('No certificate enrolled for credential');
+    }
+
+    const issuedAt = new Date();
+    const challenge = {
+      credentialId: credential.credentialId,
+      challenge: randomBytes(32).toString('base64url'),
+      issuedAt,
+      expiresAt: new Date(issuedAt.getTime() + CertificateVerifier.CHALLENGE_LIFETIME_MS)
+    };
+    record.pendingChallenge = challenge;
+    return challenge;
+  }
+
+  async verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      return { verified: false, reason: 'No certificate enrolled for credential' };
+    }
+
+    const challenge = record.pendingChallenge;
+    // Challenges are single use regardless of the outcome
+    record.pendingChallenge = undefined;
+
+    if (!challenge) {
+      return { verified: false, reason: 'No outstanding challenge' };
+    }
+
+    const now = new Date();
+    if (now > challenge.expiresAt) {
+      return { verified: false, reason: 'Challenge has expired' };
+    }
+
+    if (now < new Date(record.certificate.validFrom) || now > new Date(record.certificate.validTo)) {
+      return { verified: false, reason: 'Certificate is outside its validity period' };
+    }
+
+    const publicKey = record.certificate.publicKey;
+    // EdDSA keys sign the message directly; RSA and ECDSA keys use SHA-256
+    const algorithm = publicKey.asymmetricKeyType === 'ed25519' || publicKey.asymmetricKeyType === 'ed448' ? null : 'sha256';
+    const isValid = verifySignature(
+      algorithm,
+      Buffer.from(challenge.challenge, 'utf8'),
+      publicKey,
+      Buffer.from(factor, 'base64')
+    );
+
+    return isValid ? { verified: true } : { verified: false, reason: 'Challenge signature invalid' };
+  }
+
+  remove(credentialId: string): void {
+    this.records.delete(credentialId);
+  }
+}
+
+/**
+ * Biometric verifier for BIOMETRIC credentials. The factor presented is the
+ * template of a live sample, checked for liveness and matched 1:1 against the
+ * enrolled reference by a biometric provider.
+ */
+export class BiometricFactorVerifier implements AuthenticationFactorVerifier {
+  public readonly supportedTypes = [CredentialType.BIOMETRIC];
+
+  private provider: BiometricProvider;
+  private policy: BiometricVerificationPolicy;
+  private records: Map<string, BiometricEvidence> = new Map();
+
+  constructor(provider: BiometricProvider, policy: BiometricVerificationPolicy = DEFAULT_BIOMETRIC_VERIFICATION_POLICY) {
+    this.provider = provider;
+    this.policy = policy;
+  }
+
+  async enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<Record<string, any>> {
+    const reference = enrollmentData.biometricReference;
+    if (!reference || !reference.template) {
+      throw new Error('Biometric reference sample is required for enrollment');
+    }
+    if (!(reference.qualityScore >= this.policy.minimumQualityScore)) {
+      throw new Error(`Biometric reference quality ${reference.qualityScore} below ${this.policy.minimumQualityScore}`);
+    }
+
+    this.records.set(credential.credentialId, { ...reference, captureDate: new Date(reference.captureDate) });
+    return { biometricType: reference.biometricType };
+  }
+
+  async verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    const reference = this.records.get(credential.credentialId);
+    if (!reference) {
+      return { verified: false, reason: 'No biometric reference enrolled for credential' };
+    }
+    if (!factor) {
+      return { verified: false, reason: 'No biometric sample presented' };
+    }
+
+    // The capture's quality is measured by the provider, never taken from the reference
+    const sample: BiometricEvidence = {
+      biometricType: reference.biometricType,
+      template: factor,
+      qualityScore: 0,
+      captureDate: new Date()
+    };
+    sample.qualityScore = await this.provider.assessQuality(sample);
+    if (!(sample.qualityScore >= this.policy.minimumQualityScore)) {
+      return { verified: false, reason: `Biometric sample quality ${sample.qualityScore} below ${this.policy.minimumQualityScore}` };
+    }
+
+    const livenessScore = await this.provider.detectLiveness(sample);
+    if (livenessScore < this.policy.livenessThreshold) {
+      return { verified: false, reason: `Liveness ${livenessScore.toFixed(2)} below ${this.policy.livenessThreshold}` };
+    }
+
+    const matchScore = await this.provider.compare(sample, reference);
+    return matchScore >= this.policy.faceMatchThreshold
+      ? { verified: true }
+      : { verified: false, reason: `Biometric match ${matchScore.toFixed(2)} below ${this.policy.faceMatchThreshold}` };
+  }
+
+  remove(credentialId: string): void {
+    this.records.delete(credentialId);
+  }
+}
+
+/**
+ * Generate an RFC 4226 one-time password for the given moving factor
+ */
+export function generateOneTimePassword(seed: Buffer, movingFactor: number, digits: number = 6): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(movingFactor));
+  const digest = createHmac('sha1', seed).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % Math.pow(10, digits);
+  return binary.toString().padStart(digits, '0');
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function encodeBase32(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+export function decodeBase32(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(output);
+}
+
+
+function deriveScryptKey(secret: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(secret.normalize('NFKC'), salt, keyLength, options, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+interface PasswordRecord {
+  salt: Buffer;
+  hash: Buffer;
+  parameters: ScryptOptions;
+}
+
+interface OneTimePasswordRecord {
+  mode: OneTimePasswordMode;
+  seed: Buffer;
+  counter: number; // next acceptable HOTP counter or TOTP time step
+}
+
+interface CertificateRecord {
+  certificate: X509Certificate;
+  pendingChallenge?: AuthenticationChallenge;
+}
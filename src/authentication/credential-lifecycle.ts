@@ -0,0 +1,110 @@
+/**
+ * Credential Lifecycle Policy
+ * Credential lifetimes, renewal rules and expiry notification scheduling
+ */
+
+import { AssuranceLevel, ProcessResult } from '../shared/types';
+import { CredentialType } from './authentication-credential';
+
+/**
+ * Credential lifetimes in days per credential type and assurance level
+ */
+export type CredentialLifetimeTable = Partial<Record<CredentialType, Partial<Record<AssuranceLevel, number>>>>;
+
+/**
+ * Rules governing credential renewal and expiry notifications
+ */
+export interface CredentialRenewalPolicy {
+  renewalWindowDays: number; // renewal is accepted only this close to expiry
+  reissueRequiredTypes: CredentialType[]; // types renewed by re-issuing with fresh enrollment material
+  notificationThresholdsDays: number[]; // days before expiry at which subjects are notified
+}
+
+export const DEFAULT_RENEWAL_POLICY: CredentialRenewalPolicy = {
+  renewalWindowDays: 30,
+  reissueRequiredTypes: [CredentialType.PASSWORD, CredentialType.CERTIFICATE, CredentialType.SMARTCARD],
+  notificationThresholdsDays: [30, 7, 1]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function uniformLifetime(days: number): Record<AssuranceLevel, number> {
+  return {
+    [AssuranceLevel.LOA1]: days,
+    [AssuranceLevel.LOA2]: days,
+    [AssuranceLevel.LOA3]: days,
+    [AssuranceLevel.LOA4]: days
+  };
+}
+
+export const DEFAULT_CREDENTIAL_LIFETIMES: Record<CredentialType, Record<AssuranceLevel, number>> = {
+  [CredentialType.PASSWORD]: uniformLifetime(90),
+  [CredentialType.BIOMETRIC]: uniformLifetime(365),
+  [CredentialType.CERTIFICATE]: uniformLifetime(2 * 365),
+  [CredentialType.TOKEN]: uniformLifetime(30),
+  [CredentialType.SMARTCARD]: uniformLifetime(30),
+  [CredentialType.WEBAUTHN]: uniformLifetime(2 * 365)
+};
+
+/**
+ * Resolves credential lifetimes from a partial table layered over the defaults
+ */
+export class CredentialLifetimePolicy {
+  private lifetimes: CredentialLifetimeTable;
+
+  constructor(lifetimes: CredentialLifetimeTable = {}) {
+    this.lifetimes = lifetimes;
+  }
+
+  getLifetimeDays(credentialType: CredentialType, assuranceLevel: AssuranceLevel): number {
+    return this.lifetimes[credentialType]?.[assuranceLevel]
+      ?? DEFAULT_CREDENTIAL_LIFETIMES[credentialType][assuranceLevel];
+  }
+
+  calculateExpirationDate(credentialType: CredentialType, assuranceLevel: AssuranceLevel, from: Date = new Date()): Date {
+    return new Date(from.getTime() + this.getLifetimeDays(credentialType, assuranceLevel) * DAY_MS);
+  }
+}
+
+/**
+ * Provider operations the expiry scheduler drives
+ */
+export interface CredentialExpiryProcessor {
+  processCredentialExpiry(now?: Date): Promise<ProcessResult>;
+}
+
+/**
+ * Periodically runs the credential expiry process of a provider
+ */
+export class CredentialExpiryScheduler {
+  private processor: CredentialExpiryProcessor;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(processor: CredentialExpiryProcessor) {
+    this.processor = processor;
+  }
+
+  async runOnce(now: Date = new Date()): Promise<ProcessResult> {
+    return this.processor.processCredentialExpiry(now);
+  }
+
+  start(intervalMinutes: number): void {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runOnce().catch(() => undefined);
+    }, intervalMinutes * 60 * 1000);
+    // The schedule must not keep the host process alive on its own
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+}
@@ -3,6 +3,107 @@
  * Barrel export for authentication module
  */
 
-export { AuthenticationServiceProvider } from './authentication-service';
+export {
+  AuthenticationServiceProvider,
+  AuthenticationServiceOptions,
+  CredentialRecoveryRequest
+} from './authentication-service';
 export { AuthenticationCredential, CredentialType } from './authentication-credential';
-export { AuthenticationSession, SessionParameters } from './authentication-session';
+export { AuthenticationSession, SessionParameters, SessionAssuranceRecord } from './authentication-session';
+export {
+  AuthenticationTransaction,
+  FactorCategory,
+  VerifiedFactor,
+  CREDENTIAL_FACTOR_CATEGORIES,
+  calculateCombinedAssuranceLevel
+} from './authentication-transaction';
+export {
+  AuthenticationFactorVerifier,
+  AuthenticationChallenge,
+  CredentialEnrollmentData,
+  FactorVerificationResult,
+  OneTimePasswordMode,
+  PasswordVerifier,
+  OneTimePasswordVerifier,
+  CertificateVerifier,
+  BiometricFactorVerifier,
+  generateOneTimePassword
+} from './authentication-verifier';
+export {
+  AuthenticationThrottle,
+  AuthenticationThrottlePolicy,
+  CredentialLockout,
+  DEFAULT_THROTTLE_POLICY
+} from './authentication-throttle';
+export { SessionTokenSigner, SessionTokenClaims, TokenVerificationResult } from './session-token';
+export {
+  AuthenticationChannel,
+  AuthenticationEvent,
+  AuthenticationEventListener,
+  AuthenticationEventType,
+  AuthenticationReasonCode
+} from './authentication-events';
+export {
+  AuthenticationEventLog,
+  AuthenticationEventFilter,
+  ReportedCredential,
+  SubjectAuthenticationReport
+} from './authentication-event-log';
+export {
+  CredentialLifetimePolicy,
+  CredentialLifetimeTable,
+  CredentialRenewalPolicy,
+  CredentialExpiryScheduler,
+  CredentialExpiryProcessor,
+  DEFAULT_CREDENTIAL_LIFETIMES,
+  DEFAULT_RENEWAL_POLICY
+} from './credential-lifecycle';
+export {
+  RiskEngine,
+  RiskPolicy,
+  RiskDecision,
+  RiskAssessment,
+  RiskSignal,
+  RiskSignalEvaluator,
+  AuthenticationContext,
+  GeoLocation,
+  BoundDevice,
+  SubjectRiskHistory,
+  IpReputationSource,
+  DeviceBindingEvaluator,
+  IpReputationEvaluator,
+  GeoVelocityEvaluator,
+  TimeOfDayEvaluator,
+  DEFAULT_RISK_POLICY
+} from './authentication-risk';
+export {
+  WebAuthnVerifier,
+  WebAuthnRelyingPartyConfig,
+  WebAuthnAttestationResponse,
+  WebAuthnAssertionResponse,
+  WebAuthnRegistrationOptions,
+  WebAuthnAttestationType,
+  CoseAlgorithm,
+  decodeCbor
+} from './webauthn-verifier';
+export {
+  OpenIdConnectProvider,
+  OidcProviderConfig,
+  OidcClientRegistration,
+  OidcClaimsSource,
+  OidcHttpRequest,
+  OidcHttpResponse,
+  ASSURANCE_LEVEL_ACR_VALUES,
+  assuranceLevelFromAcr,
+  createOidcRequestListener
+} from './oidc-provider';
+export {
+  SamlIdentityProvider,
+  SamlIdentityProviderConfig,
+  SamlServiceProviderRegistration,
+  SamlAuthnRequestMessage,
+  SamlAuthnRequest,
+  SamlBinding,
+  SamlNameIdFormat,
+  renderSamlPostForm
+} from './saml-identity-provider';
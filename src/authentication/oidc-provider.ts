@@ -0,0 +1,674 @@
+/**
+ * OpenID Connect Provider
+ * Authorization code flow (with PKCE), discovery, JWKS and userinfo endpoints
+ * on top of the sessions of an Authentication Service Provider
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { AssuranceLevel, ProcessResult } from '../shared/types';
+import { compareAssuranceLevels, meetsAssuranceLevel } from '../shared/assurance';
+import { AuthenticationServiceProvider } from './authentication-service';
+import { SessionTokenSigner } from './session-token';
+import { constantTimeEquals } from '../shared/constant-time';
+
+/**
+ * `acr` value asserted for each assurance level
+ */
+export const ASSURANCE_LEVEL_ACR_VALUES: Record<AssuranceLevel, string> = {
+  [AssuranceLevel.LOA1]: 'urn:diacc:pctf:loa:1',
+  [AssuranceLevel.LOA2]: 'urn:diacc:pctf:loa:2',
+  [AssuranceLevel.LOA3]: 'urn:diacc:pctf:loa:3',
+  [AssuranceLevel.LOA4]: 'urn:diacc:pctf:loa:4'
+};
+
+export function assuranceLevelFromAcr(acr: string): AssuranceLevel | undefined {
+  return (Object.keys(ASSURANCE_LEVEL_ACR_VALUES) as AssuranceLevel[])
+    .find(level => ASSURANCE_LEVEL_ACR_VALUES[level] === acr);
+}
+
+/**
+ * Claims released for each scope
+ */
+const SCOPE_CLAIMS: Record<string, string[]> = {
+  profile: ['name', 'given_name', 'family_name', 'middle_name', 'birthdate', 'locale', 'updated_at'],
+  email: ['email', 'email_verified'],
+  phone: ['phone_number', 'phone_number_verified'],
+  address: ['address']
+};
+
+/**
+ * A relying party registered with the provider
+ */
+export interface OidcClientRegistration {
+  clientId: string;
+  clientSecret?: string; // omitted for public clients, which must use PKCE
+  redirectUris: string[];
+  allowedScopes?: string[]; // defaults to every supported scope
+  requirePkce?: boolean; // always true for public clients
+  defaultAcrValues?: string[];
+}
+
+export interface OidcProviderConfig {
+  issuer: string; // https URL; endpoints are served below its path
+  sessionCookieName?: string; // cookie carrying the session token from initiateSession
+  loginUrl?: string; // where subjects without a session are sent to authenticate
+  authorizationCodeTtlSeconds?: number;
+  accessTokenTtlSeconds?: number;
+  idTokenTtlSeconds?: number;
+  claimsSource?: OidcClaimsSource;
+}
+
+/**
+ * Source of the identity claims released at the userinfo endpoint
+ */
+export interface OidcClaimsSource {
+  getClaims(subjectId: string, scopes: string[]): Promise<Record<string, any>>;
+}
+
+/**
+ * Transport-neutral HTTP request and response handled by the provider
+ */
+export interface OidcHttpRequest {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  headers?: Record<string, string | undefined>;
+  body?: string;
+}
+
+export interface OidcHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+interface RegisteredClient {
+  clientId: string;
+  secretHash?: Buffer;
+  redirectUris: string[];
+  allowedScopes: string[];
+  requirePkce: boolean;
+  defaultAcrValues: string[];
+}
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  subjectId: string;
+  actorId?: string; // delegate acting for subjectId
+  sessionId: string;
+  scopes: string[];
+  nonce?: string;
+  codeChallenge?: string;
+  assuranceLevel: AssuranceLevel;
+  authTime: Date;
+  expiresAt: Date;
+  redeemed: boolean;
+  accessTokens: string[];
+}
+
+interface AccessTokenGrant {
+  clientId: string;
+  subjectId: string;
+  sessionId: string;
+  scopes: string[];
+  expiresAt: Date;
+}
+
+/**
+ * Error returned to the client as an OAuth error response
+ */
+class OAuthError extends Error {
+  constructor(public code: string, description: string, public status: number = 400) {
+    super(description);
+  }
+}
+
+/**
+ * OpenID Connect Provider class
+ */
+export class OpenIdConnectProvider {
+  private static readonly SUPPORTED_SCOPES = ['openid', ...Object.keys(SCOPE_CLAIMS)];
+  private static readonly CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+  private authProvider: AuthenticationServiceProvider;
+  private config: Required<Omit<OidcProviderConfig, 'loginUrl' | 'claimsSource'>> & Pick<OidcProviderConfig, 'loginUrl' | 'claimsSource'>;
+  private basePath: string;
+  private signer: SessionTokenSigner;
+  private clients: Map<string, RegisteredClient> = new Map();
+  private codes: Map<string, AuthorizationCode> = new Map();
+  private accessTokens: Map<string, AccessTokenGrant> = new Map();
+
+  constructor(authProvider: AuthenticationServiceProvider, config: OidcProviderConfig) {
+    const issuer = new URL(config.issuer);
+    if (issuer.protocol !== 'https:' && issuer.hostname !== 'localhost') {
+      throw new Error('OIDC issuer must be an https URL');
+    }
+
+    this.authProvider = authProvider;
+    this.config = {
+      sessionCookieName: 'pctf_session',
+      authorizationCodeTtlSeconds: 60,
+      accessTokenTtlSeconds: 600,
+      idTokenTtlSeconds: 600,
+      ...config,
+      issuer: config.issuer.replace(/\/$/, '')
+    };
+    this.basePath = issuer.pathname.replace(/\/$/, '');
+    this.signer = new SessionTokenSigner(this.config.issuer);
+  }
+
+  /**
+   * Register a relying party
+   */
+  async registerClient(registration: OidcClientRegistration): Promise<ProcessResult> {
+    try {
+      if (this.clients.has(registration.clientId)) {
+        return {
+          success: false,
+          message: 'Client already registered',
+          timestamp: new Date()
+        };
+      }
+      if (registration.redirectUris.length === 0) {
+        return {
+          success: false,
+          message: 'At least one redirect URI is required',
+          timestamp: new Date()
+        };
+      }
+      registration.redirectUris.forEach(uri => {
+        const parsed = new URL(uri);
+        if (parsed.hash) {
+          throw new Error(`Redirect URI must not contain a fragment: ${uri}`);
+        }
+      });
+
+      const unsupportedScopes = (registration.allowedScopes || [])
+        .filter(scope => !OpenIdConnectProvider.SUPPORTED_SCOPES.includes(scope));
+      if (unsupportedScopes.length > 0) {
+        return {
+          success: false,
+          message: 'Unsupported scopes requested for client',
+          errors: unsupportedScopes,
+          timestamp: new Date()
+        };
+      }
+
+      this.clients.set(registration.clientId, {
+        clientId: registration.clientId,
+        secretHash: registration.clientSecret ? hashSecret(registration.clientSecret) : undefined,
+        redirectUris: [...registration.redirectUris],
+        allowedScopes: registration.allowedScopes || OpenIdConnectProvider.SUPPORTED_SCOPES,
+        requirePkce: !registration.clientSecret || registration.requirePkce !== false,
+        defaultAcrValues: registration.defaultAcrValues || []
+      });
+
+      return {
+        success: true,
+        message: 'Client registered successfully',
+        data: {
+          clientId: registration.clientId,
+          tokenEndpointAuthMethod: registration.clientSecret ? 'client_secret_basic' : 'none'
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Client registration failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Rotate the ID token signing key; the previous key stays in the JWKS for a grace period
+   */
+  rotateSigningKey(): string {
+    return this.signer.rotateSigningKey();
+  }
+
+  /**
+   * Discovery document (/.well-known/openid-configuration)
+   */
+  getDiscoveryDocument(): Record<string, any> {
+    const issuer = this.config.issuer;
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      jwks_uri: `${issuer}/jwks`,
+      scopes_supported: OpenIdConnectProvider.SUPPORTED_SCOPES,
+      response_types_supported: ['code'],
+      response_modes_supported: ['query'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['ES256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      code_challenge_methods_supported: ['S256'],
+      acr_values_supported: Object.values(ASSURANCE_LEVEL_ACR_VALUES),
+      claims_supported: ['sub', 'iss', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'acr', 'sid',
+        ...Object.values(SCOPE_CLAIMS).flat()],
+      authorization_response_iss_parameter_supported: true
+    };
+  }
+
+  /**
+   * JSON Web Key Set used to verify ID tokens
+   */
+  getJwks(): { keys: Record<string, any>[] } {
+    return { keys: this.signer.getPublicKeys() };
+  }
+
+  /**
+   * Handle a protocol request. This is the in-process entry point; use
+   * createOidcRequestListener() to serve it over node's http module.
+   */
+  async handleRequest(request: OidcHttpRequest): Promise<OidcHttpResponse> {
+    const path = request.path.startsWith(this.basePath) ? request.path.slice(this.basePath.length) : request.path;
+    const method = request.method.toUpperCase();
+
+    try {
+      if (path === '/.well-known/openid-configuration' && method === 'GET') {
+        return jsonResponse(200, this.getDiscoveryDocument());
+      }
+      if (path === '/jwks' && method === 'GET') {
+        return jsonResponse(200, this.getJwks());
+      }
+      if (path === '/authorize' && (method === 'GET' || method === 'POST')) {
+        const parameters = method === 'GET' ? request.query || {} : parseForm(request.body);
+        return await this.handleAuthorization(parameters, request.headers || {});
+      }
+      if (path === '/token' && method === 'POST') {
+        return await this.handleToken(parseForm(request.body), request.headers || {});
+      }
+      if (path === '/userinfo' && (method === 'GET' || method === 'POST')) {
+        return await this.handleUserInfo(request.headers || {});
+      }
+      return jsonResponse(404, { error: 'not_found' });
+    } catch (error) {
+      if (error instanceof OAuthError) {
+        return oauthErrorResponse(error);
+      }
+      return jsonResponse(500, { error: 'server_error' });
+    }
+  }
+
+  private async handleAuthorization(
+    parameters: Record<string, string>,
+    headers: Record<string, string | undefined>
+  ): Promise<OidcHttpResponse> {
+    // Without a valid client and redirect URI the error must not be redirected
+    const client = this.clients.get(parameters.client_id);
+    if (!client) {
+      throw new OAuthError('invalid_request', 'Unknown client_id');
+    }
+    const redirectUri = parameters.redirect_uri;
+    if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for the client');
+    }
+
+    const redirectError = (code: string, description: string) =>
+      redirectResponse(redirectUri, {
+        error: code,
+        error_description: description,
+        state: parameters.state,
+        iss: this.config.issuer
+      });
+
+    if (parameters.response_type !== 'code') {
+      return redirectError('unsupported_response_type', 'Only the authorization code flow is supported');
+    }
+
+    const scopes = (parameters.scope || '').split(' ').filter(scope => scope.length > 0);
+    if (!scopes.includes('openid')) {
+      return redirectError('invalid_scope', 'The openid scope is required');
+    }
+    if (scopes.some(scope => !client.allowedScopes.includes(scope))) {
+      return redirectError('invalid_scope', 'Scope not allowed for client');
+    }
+
+    if (parameters.code_challenge_method && parameters.code_challenge_method !== 'S256') {
+      return redirectError('invalid_request', 'Only the S256 code challenge method is supported');
+    }
+    if (!parameters.code_challenge && client.requirePkce) {
+      return redirectError('invalid_request', 'PKCE code_challenge is required');
+    }
+
+    const requestedAcrValues = parameters.acr_values
+      ? parameters.acr_values.split(' ')
+      : client.defaultAcrValues;
+    const requestedLevels = requestedAcrValues
+      .map(acr => assuranceLevelFromAcr(acr))
+      .filter((level): level is AssuranceLevel => level !== undefined);
+    if (requestedAcrValues.length > 0 && requestedLevels.length === 0) {
+      return redirectError('invalid_request', 'None of the requested acr_values are supported');
+    }
+
+    if (parameters.max_age !== undefined && !/^\d+$/.test(parameters.max_age)) {
+      return redirectError('invalid_request', 'max_age must be a non-negative integer number of seconds');
+    }
+
+    const sessionToken = readCookie(headers.cookie, this.config.sessionCookieName);
+    const verification = sessionToken ? await this.authProvider.verifySessionToken(sessionToken) : undefined;
+    const session = verification?.success ? this.authProvider.getSession(verification.data.claims.sid) : undefined;
+    const authTime = session?.assuranceHistory[session.assuranceHistory.length - 1].achievedAt;
+    // The level the session's verified factors support, as in its session token
+    const sessionLevel = session?.getAuthenticatedAssuranceLevel();
+
+    const maxAge = parameters.max_age !== undefined ? Number(parameters.max_age) : undefined;
+    const isTooOld = maxAge !== undefined && authTime !== undefined &&
+      (Date.now() - authTime.getTime()) / 1000 > maxAge;
+
+    if (!session || !authTime || !sessionLevel || isTooOld || parameters.prompt === 'login') {
+      if (parameters.prompt === 'none') {
+        return redirectError('login_required', 'Subject must authenticate');
+      }
+      if (this.config.loginUrl) {
+        const returnTo = `${this.config.issuer}/authorize?${new URLSearchParams(parameters).toString()}`;
+        return redirectResponse(this.config.loginUrl, { return_to: returnTo });
+      }
+      throw new OAuthError('login_required', 'Subject must authenticate', 401);
+    }
+
+    // acr_values are in order of preference; any one of them is acceptable
+    if (requestedLevels.length > 0) {
+      const lowestRequested = requestedLevels.reduce((lowest, level) =>
+        compareAssuranceLevels(level, lowest) < 0 ? level : lowest);
+      if (!meetsAssuranceLevel(sessionLevel, lowestRequested)) {
+        return redirectError(
+          'unmet_authentication_requirements',
+          `Session assurance ${sessionLevel} does not satisfy the requested acr_values`
+        );
+      }
+    }
+
+    const code = randomBytes(32).toString('base64url');
+    this.pruneExpiredGrants();
+    this.codes.set(code, {
+      clientId: client.clientId,
+      redirectUri,
+      subjectId: session.getEffectiveSubjectId(),
+      actorId: session.delegation ? session.subjectId : undefined,
+      sessionId: session.sessionId,
+      scopes,
+      nonce: parameters.nonce,
+      codeChallenge: parameters.code_challenge,
+      assuranceLevel: sessionLevel,
+      authTime,
+      expiresAt: new Date(Date.now() + this.config.authorizationCodeTtlSeconds * 1000),
+      redeemed: false,
+      accessTokens: []
+    });
+
+    return redirectResponse(redirectUri, { code, state: parameters.state, iss: this.config.issuer });
+  }
+
+  private async handleToken(
+    parameters: Record<string, string>,
+    headers: Record<string, string | undefined>
+  ): Promise<OidcHttpResponse> {
+    const client = this.authenticateClient(parameters, headers);
+
+    if (parameters.grant_type !== 'authorization_code') {
+      throw new OAuthError('unsupported_grant_type', 'Only the authorization_code grant is supported');
+    }
+
+    const grant = parameters.code ? this.codes.get(parameters.code) : undefined;
+    if (!grant || grant.clientId !== client.clientId) {
+      throw new OAuthError('invalid_grant', 'Unknown authorization code');
+    }
+    if (grant.redeemed) {
+      // A replayed code revokes everything issued from it (RFC 6749 section 4.1.2)
+      grant.accessTokens.forEach(token => this.accessTokens.delete(token));
+      this.codes.delete(parameters.code);
+      throw new OAuthError('invalid_grant', 'Authorization code has already been used');
+    }
+    grant.redeemed = true;
+
+    if (grant.expiresAt <= new Date()) {
+      throw new OAuthError('invalid_grant', 'Authorization code has expired');
+    }
+    if (parameters.redirect_uri !== grant.redirectUri) {
+      throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (grant.codeChallenge) {
+      const verifier = parameters.code_verifier;
+      if (!verifier || !OpenIdConnectProvider.CODE_VERIFIER_PATTERN.test(verifier) ||
+          !constantTimeEquals(createHash('sha256').update(verifier).digest('base64url'), grant.codeChallenge)) {
+        throw new OAuthError('invalid_grant', 'PKCE verification failed');
+      }
+    } else if (parameters.code_verifier) {
+      throw new OAuthError('invalid_grant', 'code_verifier sent without a code_challenge');
+    }
+
+    const sessionValidation = await this.authProvider.validateSession(grant.sessionId);
+    if (!sessionValidation.success) {
+      throw new OAuthError('invalid_grant', 'The authenticated session is no longer valid');
+    }
+
+    const now = new Date();
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const accessToken = randomBytes(32).toString('base64url');
+    this.accessTokens.set(accessToken, {
+      clientId: client.clientId,
+      subjectId: grant.subjectId,
+      sessionId: grant.sessionId,
+      scopes: grant.scopes,
+      expiresAt: new Date(now.getTime() + this.config.accessTokenTtlSeconds * 1000)
+    });
+    grant.accessTokens.push(accessToken);
+
+    const idToken = this.signer.sign({
+      iss: this.config.issuer,
+      sub: grant.subjectId,
+      aud: client.clientId,
+      iat: nowSeconds,
+      exp: nowSeconds + this.config.idTokenTtlSeconds,
+      auth_time: Math.floor(grant.authTime.getTime() / 1000),
+      acr: ASSURANCE_LEVEL_ACR_VALUES[grant.assuranceLevel],
+      sid: grant.sessionId,
+      ...(grant.actorId ? { act: { sub: grant.actorId } } : {}),
+      ...(grant.nonce ? { nonce: grant.nonce } : {})
+    });
+
+    return jsonResponse(200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.config.accessTokenTtlSeconds,
+      id_token: idToken,
+      scope: grant.scopes.join(' ')
+    });
+  }
+
+  private async handleUserInfo(headers: Record<string, string | undefined>): Promise<OidcHttpResponse> {
+    const authorization = headers.authorization || '';
+    const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : undefined;
+    const grant = token ? this.accessTokens.get(token) : undefined;
+
+    if (!token || !grant || grant.expiresAt <= new Date()) {
+      return bearerErrorResponse('invalid_token', 'Access token is missing, unknown or expired');
+    }
+
+    // Tokens die with the session they were issued from
+    const sessionValidation = await this.authProvider.validateSession(grant.sessionId);
+    if (!sessionValidation.success) {
+      this.accessTokens.delete(token);
+      return bearerErrorResponse('invalid_token', 'The authenticated session is no longer valid');
+    }
+
+    const releasable = grant.scopes.flatMap(scope => SCOPE_CLAIMS[scope] || []);
+    const claims = this.config.claimsSource
+      ? await this.config.claimsSource.getClaims(grant.subjectId, grant.scopes)
+      : {};
+    const released: Record<string, any> = { sub: grant.subjectId };
+    Object.keys(claims)
+      .filter(claim => releasable.includes(claim))
+      .forEach(claim => {
+        released[claim] = claims[claim];
+      });
+
+    return jsonResponse(200, released);
+  }
+
+  /**
+   * Authenticate the client at the token endpoint (client_secret_basic,
+   * client_secret_post, or none for public clients)
+   */
+  private authenticateClient(
+    parameters: Record<string, string>,
+    headers: Record<string, string | undefined>
+  ): RegisteredClient {
+    let clientId = parameters.client_id;
+    let clientSecret = parameters.client_secret;
+
+    const authorization = headers.authorization || '';
+    if (authorization.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator < 0) {
+        throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+      }
+      try {
+        clientId = decodeURIComponent(decoded.slice(0, separator));
+        clientSecret = decodeURIComponent(decoded.slice(separator + 1));
+      } catch {
+        throw new OAuthError('invalid_client', 'Malformed client credentials', 401);
+      }
+    }
+
+    const client = clientId ? this.clients.get(clientId) : undefined;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client', 401);
+    }
+    if (client.secretHash && (!clientSecret || !timingSafeEqual(hashSecret(clientSecret), client.secretHash))) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+    return client;
+  }
+
+  private pruneExpiredGrants(): void {
+    const now = new Date();
+    this.codes.forEach((grant, code) => {
+      if (grant.expiresAt <= now && grant.accessTokens.every(token => !this.accessTokens.has(token))) {
+        this.codes.delete(code);
+      }
+    });
+    this.accessTokens.forEach((grant, token) => {
+      if (grant.expiresAt <= now) {
+        this.accessTokens.delete(token);
+      }
+    });
+  }
+}
+
+/**
+ * Serve an OpenID Connect provider with node's http module:
+ * http.createServer(createOidcRequestListener(provider))
+ */
+export function createOidcRequestListener(
+  provider: OpenIdConnectProvider,
+  maxBodyBytes: number = 64 * 1024
+): (request: IncomingMessage, response: ServerResponse) => void {
+  return (request, response) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let rejected = false;
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes && !rejected) {
+        rejected = true;
+        response.writeHead(413).end();
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    request.on('end', () => {
+      if (rejected) {
+        return;
+      }
+      const url = new URL(request.url || '/', 'http://localhost');
+      const headers: Record<string, string | undefined> = {};
+      Object.entries(request.headers).forEach(([name, value]) => {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      });
+
+      provider.handleRequest({
+        method: request.method || 'GET',
+        path: url.pathname,
+        query: Object.fromEntries(url.searchParams),
+        headers,
+        body: Buffer.concat(chunks).toString('utf8')
+      }).then(result => {
+        response.writeHead(result.status, result.headers).end(result.body);
+      }).catch(() => {
+        response.writeHead(500).end();
+      });
+    });
+  };
+}
+
+function jsonResponse(status: number, body: object): OidcHttpResponse {
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', 'Pragma': 'no-cache' },
+    body: JSON.stringify(body)
+  };
+}
+
+function redirectResponse(target: string, parameters: Record<string, string | undefined>): OidcHttpResponse {
+  const location = new URL(target);
+  Object.entries(parameters).forEach(([name, value]) => {
+    if (value !== undefined) {
+      location.searchParams.set(name, value);
+    }
+  });
+  return { status: 302, headers: { 'Location': location.toString(), 'Cache-Control': 'no-store' }, body: '' };
+}
+
+function oauthErrorResponse(error: OAuthError): OidcHttpResponse {
+  const response = jsonResponse(error.status, { error: error.code, error_description: error.message });
+  if (error.status === 401 && error.code === 'invalid_client') {
+    response.headers['WWW-Authenticate'] = 'Basic realm="token"';
+  }
+  return response;
+}
+
+function bearerErrorResponse(code: string, description: string): OidcHttpResponse {
+  const response = jsonResponse(401, { error: code, error_description: description });
+  response.headers['WWW-Authenticate'] = `Bearer error="${code}", error_description="${description}"`;
+  return response;
+}
+
+function parseForm(body?: string): Record<string, string> {
+  return Object.fromEntries(new URLSearchParams(body || ''));
+}
+
+function readCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const cookie = header.split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  if (!cookie) {
+    return undefined;
+  }
+  try {
+    return decodeURIComponent(cookie.slice(name.length + 1));
+  } catch {
+    return undefined; // a malformed cookie is treated as no session
+  }
+}
+
+function hashSecret(secret: string): Buffer {
+  return createHash('sha256').update(secret).digest();
+}
+
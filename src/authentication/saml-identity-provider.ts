@@ -0,0 +1,736 @@
+/**
+ * SAML 2.0 Identity Provider Bridge
+ * Answers AuthnRequests from legacy relying parties with signed assertions
+ * backed by Authentication Service Provider sessions
+ */
+
+import { createHash, createPrivateKey, randomBytes, sign, KeyObject, X509Certificate } from 'crypto';
+import { inflateRawSync } from 'zlib';
+import { AssuranceLevel, ProcessResult } from '../shared/types';
+import { compareAssuranceLevels, meetsAssuranceLevel } from '../shared/assurance';
+import { IdentityProvider } from '../verified-person/identity-provider';
+import { AuthenticationServiceProvider } from './authentication-service';
+import { AuthenticationSession } from './authentication-session';
+import { ASSURANCE_LEVEL_ACR_VALUES, assuranceLevelFromAcr } from './oidc-provider';
+import {
+  SAML_NAMESPACES,
+  XmlElement,
+  XmlNode,
+  findChild,
+  findChildren,
+  parseXml,
+  serializeXml
+} from './saml-xml';
+
+export enum SamlBinding {
+  HTTP_REDIRECT = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect',
+  HTTP_POST = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST'
+}
+
+export enum SamlNameIdFormat {
+  PERSISTENT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+  TRANSIENT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:transient',
+  UNSPECIFIED = 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified'
+}
+
+const STATUS = {
+  SUCCESS: 'urn:oasis:names:tc:SAML:2.0:status:Success',
+  REQUESTER: 'urn:oasis:names:tc:SAML:2.0:status:Requester',
+  RESPONDER: 'urn:oasis:names:tc:SAML:2.0:status:Responder',
+  NO_PASSIVE: 'urn:oasis:names:tc:SAML:2.0:status:NoPassive',
+  NO_AUTHN_CONTEXT: 'urn:oasis:names:tc:SAML:2.0:status:NoAuthnContext',
+  INVALID_NAME_ID_POLICY: 'urn:oasis:names:tc:SAML:2.0:status:InvalidNameIDPolicy',
+  REQUEST_DENIED: 'urn:oasis:names:tc:SAML:2.0:status:RequestDenied'
+};
+
+const ALGORITHMS = {
+  EXC_C14N: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  ENVELOPED_SIGNATURE: 'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+  SHA256: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  RSA_SHA256: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  ECDSA_SHA256: 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256'
+};
+
+const ATTRIBUTE_NAME_FORMAT_BASIC = 'urn:oasis:names:tc:SAML:2.0:attrname-format:basic';
+
+/**
+ * A relying party registered with the bridge
+ */
+export interface SamlServiceProviderRegistration {
+  entityId: string;
+  name: string;
+  assertionConsumerServiceUrls: string[]; // the first is the default
+  requestedAttributes?: string[]; // core attribute names released from presentIdentity
+  purpose?: string; // recorded with each identity presentation
+  nameIdFormat?: SamlNameIdFormat;
+}
+
+export interface SamlIdentityProviderConfig {
+  entityId: string;
+  singleSignOnUrl: string;
+  signingKey: KeyObject | string; // RSA or P-256 private key (PEM)
+  signingCertificate: string; // PEM certificate for the signing key, published in metadata
+  assertionLifetimeSeconds?: number;
+  requestMaxAgeSeconds?: number;
+  clockSkewSeconds?: number;
+}
+
+/**
+ * An AuthnRequest as received on the single sign-on endpoint
+ */
+export interface SamlAuthnRequestMessage {
+  samlRequest: string; // SAMLRequest parameter as received
+  binding: SamlBinding;
+  relayState?: string;
+  sessionToken?: string; // session token from initiateSession, if the subject has one
+}
+
+/**
+ * Fields of an AuthnRequest the bridge acts on
+ */
+export interface SamlAuthnRequest {
+  id: string;
+  issuer: string;
+  issueInstant: Date;
+  destination?: string;
+  assertionConsumerServiceUrl?: string;
+  protocolBinding?: string;
+  nameIdFormat?: string;
+  forceAuthn: boolean;
+  isPassive: boolean;
+  requestedAuthnContext?: {
+    comparison: 'exact' | 'minimum' | 'maximum' | 'better';
+    classRefs: string[];
+  };
+}
+
+interface RegisteredServiceProvider extends SamlServiceProviderRegistration {
+  requestedAttributes: string[];
+}
+
+/**
+ * SAML Identity Provider class
+ */
+export class SamlIdentityProvider {
+  private static readonly MAX_MESSAGE_BYTES = 64 * 1024;
+  private static readonly MAX_RELAY_STATE_BYTES = 80;
+
+  private authProvider: AuthenticationServiceProvider;
+  private identityProvider: IdentityProvider;
+  private config: Required<Omit<SamlIdentityProviderConfig, 'signingKey'>>;
+  private signingKey: KeyObject;
+  private certificateBody: string;
+  private serviceProviders: Map<string, RegisteredServiceProvider> = new Map();
+  private seenRequestIds: Map<string, Date> = new Map(); // request ID -> when it may be forgotten
+
+  constructor(
+    authProvider: AuthenticationServiceProvider,
+    identityProvider: IdentityProvider,
+    config: SamlIdentityProviderConfig
+  ) {
+    this.authProvider = authProvider;
+    this.identityProvider = identityProvider;
+    this.signingKey = typeof config.signingKey === 'string' ? createPrivateKey(config.signingKey) : config.signingKey;
+
+    const certificate = new X509Certificate(config.signingCertificate);
+    if (!certificate.checkPrivateKey(this.signingKey)) {
+      throw new Error('Signing certificate does not match the signing key');
+    }
+    if (this.signingKey.asymmetricKeyType !== 'rsa' &&
+        !(this.signingKey.asymmetricKeyType === 'ec' && this.signingKey.asymmetricKeyDetails?.namedCurve === 'prime256v1')) {
+      throw new Error('SAML signing keys must be RSA or P-256 EC keys');
+    }
+    this.certificateBody = certificate.raw.toString('base64');
+
+    this.config = {
+      assertionLifetimeSeconds: 300,
+      requestMaxAgeSeconds: 600,
+      clockSkewSeconds: 180,
+      ...config,
+      signingCertificate: config.signingCertificate
+    };
+  }
+
+  registerServiceProvider(registration: SamlServiceProviderRegistration): ProcessResult {
+    try {
+      if (registration.assertionConsumerServiceUrls.length === 0) {
+        return {
+          success: false,
+          message: 'At least one assertion consumer service URL is required',
+          timestamp: new Date()
+        };
+      }
+      registration.assertionConsumerServiceUrls.forEach(url => new URL(url));
+
+      this.serviceProviders.set(registration.entityId, {
+        ...registration,
+        requestedAttributes: registration.requestedAttributes || []
+      });
+
+      return {
+        success: true,
+        message: 'Service provider registered successfully',
+        data: { entityId: registration.entityId },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Service provider registration failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * IdP metadata (EntityDescriptor) for relying parties to import
+   */
+  getMetadata(): string {
+    return serializeXml({
+      name: 'md:EntityDescriptor',
+      namespaces: { md: SAML_NAMESPACES.METADATA, ds: SAML_NAMESPACES.XMLDSIG },
+      attributes: { entityID: this.config.entityId },
+      children: [{
+        name: 'md:IDPSSODescriptor',
+        attributes: { WantAuthnRequestsSigned: 'false', protocolSupportEnumeration: SAML_NAMESPACES.PROTOCOL },
+        children: [
+          {
+            name: 'md:KeyDescriptor',
+            attributes: { use: 'signing' },
+            children: [this.keyInfo()]
+          },
+          ...Object.values(SamlNameIdFormat).map(format => ({ name: 'md:NameIDFormat', children: [format] })),
+          ...Object.values(SamlBinding).map(binding => ({
+            name: 'md:SingleSignOnService',
+            attributes: { Binding: binding, Location: this.config.singleSignOnUrl }
+          }))
+        ]
+      }]
+    });
+  }
+
+  /**
+   * Trusted Process: Federated Authentication
+   * Validates an AuthnRequest and answers it from the subject's session.
+   * When the subject has no suitable session the result carries
+   * loginRequired so the host can authenticate them and retry.
+   */
+  async handleAuthnRequest(message: SamlAuthnRequestMessage): Promise<ProcessResult> {
+    try {
+      if (message.relayState && Buffer.byteLength(message.relayState) > SamlIdentityProvider.MAX_RELAY_STATE_BYTES) {
+        return {
+          success: false,
+          message: 'RelayState exceeds 80 bytes',
+          timestamp: new Date()
+        };
+      }
+
+      const request = this.decodeAuthnRequest(message);
+      const serviceProvider = this.serviceProviders.get(request.issuer);
+      if (!serviceProvider) {
+        return {
+          success: false,
+          message: 'AuthnRequest issuer is not a registered service provider',
+          timestamp: new Date()
+        };
+      }
+
+      // Responses only ever go to a registered endpoint
+      const acsUrl = request.assertionConsumerServiceUrl || serviceProvider.assertionConsumerServiceUrls[0];
+      if (!serviceProvider.assertionConsumerServiceUrls.includes(acsUrl)) {
+        return {
+          success: false,
+          message: 'AssertionConsumerServiceURL is not registered for the service provider',
+          timestamp: new Date()
+        };
+      }
+
+      const requestError = this.checkRequestValidity(request);
+      if (requestError) {
+        return this.errorResponse(request, acsUrl, message.relayState, STATUS.REQUESTER, undefined, requestError);
+      }
+
+      const nameIdFormat = request.nameIdFormat || serviceProvider.nameIdFormat || SamlNameIdFormat.PERSISTENT;
+      if (!(Object.values(SamlNameIdFormat) as string[]).includes(nameIdFormat)) {
+        return this.errorResponse(request, acsUrl, message.relayState, STATUS.REQUESTER, STATUS.INVALID_NAME_ID_POLICY);
+      }
+
+      const session = await this.findSession(message.sessionToken, request);
+      if (!session) {
+        if (request.isPassive) {
+          return this.errorResponse(request, acsUrl, message.relayState, STATUS.RESPONDER, STATUS.NO_PASSIVE);
+        }
+        return {
+          success: false,
+          message: 'Subject must authenticate',
+          data: { loginRequired: true, requestId: request.id, forceAuthn: request.forceAuthn },
+          timestamp: new Date()
+        };
+      }
+
+      // The level the session's factors actually achieved, not the level it asked for
+      const authenticatedLevel = session.getAuthenticatedAssuranceLevel();
+      const assertedLevel = authenticatedLevel && this.selectAuthnContext(authenticatedLevel, request);
+      if (!assertedLevel) {
+        return this.errorResponse(request, acsUrl, message.relayState, STATUS.RESPONDER, STATUS.NO_AUTHN_CONTEXT);
+      }
+
+      let attributes: Record<string, any> = {};
+      if (serviceProvider.requestedAttributes.length > 0) {
+        const presentation = await this.presentAttributes(session, serviceProvider);
+        if (!presentation.success) {
+          return this.errorResponse(
+            request, acsUrl, message.relayState, STATUS.RESPONDER, STATUS.REQUEST_DENIED, presentation.message
+          );
+        }
+        attributes = presentation.data.presentedAttributes;
+      }
+      // The assertion is about the principal; a delegate acting for them is disclosed, as act is in OIDC
+      if (session.delegation) {
+        attributes = { ...attributes, delegation: session.delegation };
+      }
+
+      this.rememberRequest(request);
+      const nameId = nameIdFormat === SamlNameIdFormat.TRANSIENT
+        ? '_' + randomBytes(16).toString('hex')
+        : session.getEffectiveSubjectId();
+      const assertion = this.buildAssertion(request, serviceProvider, acsUrl, session, assertedLevel, nameIdFormat, nameId, attributes);
+      const response = this.buildResponse(request, acsUrl, STATUS.SUCCESS, undefined, undefined, assertion.xml);
+
+      return {
+        success: true,
+        message: 'SAML assertion issued',
+        data: {
+          destination: acsUrl,
+          samlResponse: Buffer.from(response).toString('base64'),
+          relayState: message.relayState,
+          assertionId: assertion.id,
+          authnContextClassRef: ASSURANCE_LEVEL_ACR_VALUES[assertedLevel]
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'AuthnRequest processing failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Decode and parse an AuthnRequest from its binding
+   */
+  decodeAuthnRequest(message: SamlAuthnRequestMessage): SamlAuthnRequest {
+    const raw = Buffer.from(message.samlRequest, 'base64');
+    const xml = message.binding === SamlBinding.HTTP_REDIRECT
+      ? inflateRawSync(raw, { maxOutputLength: SamlIdentityProvider.MAX_MESSAGE_BYTES }).toString('utf8')
+      : raw.toString('utf8');
+    if (Buffer.byteLength(xml) > SamlIdentityProvider.MAX_MESSAGE_BYTES) {
+      throw new Error('AuthnRequest is too large');
+    }
+
+    const root = parseXml(xml);
+    if (root.namespace !== SAML_NAMESPACES.PROTOCOL || root.localName !== 'AuthnRequest') {
+      throw new Error('Message is not a SAML 2.0 AuthnRequest');
+    }
+
+    const issuer = findChild(root, SAML_NAMESPACES.ASSERTION, 'Issuer');
+    if (!root.attributes.ID || !root.attributes.IssueInstant || !issuer?.text.trim()) {
+      throw new Error('AuthnRequest is missing ID, IssueInstant or Issuer');
+    }
+    if (root.attributes.Version !== '2.0') {
+      throw new Error('Unsupported SAML version');
+    }
+
+    const nameIdPolicy = findChild(root, SAML_NAMESPACES.PROTOCOL, 'NameIDPolicy');
+    const requestedContext = findChild(root, SAML_NAMESPACES.PROTOCOL, 'RequestedAuthnContext');
+    const comparison = requestedContext?.attributes.Comparison || 'exact';
+    if (!['exact', 'minimum', 'maximum', 'better'].includes(comparison)) {
+      throw new Error(`Unsupported AuthnContext comparison ${comparison}`);
+    }
+
+    return {
+      id: root.attributes.ID,
+      issuer: issuer.text.trim(),
+      issueInstant: new Date(root.attributes.IssueInstant),
+      destination: root.attributes.Destination,
+      assertionConsumerServiceUrl: root.attributes.AssertionConsumerServiceURL,
+      protocolBinding: root.attributes.ProtocolBinding,
+      nameIdFormat: nameIdPolicy?.attributes.Format,
+      forceAuthn: root.attributes.ForceAuthn === 'true' || root.attributes.ForceAuthn === '1',
+      isPassive: root.attributes.IsPassive === 'true' || root.attributes.IsPassive === '1',
+      requestedAuthnContext: requestedContext ? {
+        comparison: comparison as 'exact' | 'minimum' | 'maximum' | 'better',
+        classRefs: findChildren(requestedContext, SAML_NAMESPACES.ASSERTION, 'AuthnContextClassRef')
+          .map((reference: XmlElement) => reference.text.trim())
+      } : undefined
+    };
+  }
+
+  private checkRequestValidity(request: SamlAuthnRequest): string | undefined {
+    const now = Date.now();
+    const skewMs = this.config.clockSkewSeconds * 1000;
+
+    if (isNaN(request.issueInstant.getTime()) ||
+        request.issueInstant.getTime() > now + skewMs ||
+        now - request.issueInstant.getTime() > this.config.requestMaxAgeSeconds * 1000 + skewMs) {
+      return 'AuthnRequest IssueInstant is outside the accepted window';
+    }
+    if (request.destination && request.destination !== this.config.singleSignOnUrl) {
+      return 'AuthnRequest Destination does not match this endpoint';
+    }
+    if (request.protocolBinding && request.protocolBinding !== SamlBinding.HTTP_POST) {
+      return 'Only the HTTP-POST response binding is supported';
+    }
+
+    this.seenRequestIds.forEach((forgetAt, id) => {
+      if (forgetAt.getTime() <= now) {
+        this.seenRequestIds.delete(id);
+      }
+    });
+    if (this.seenRequestIds.has(request.id)) {
+      return 'AuthnRequest has already been answered';
+    }
+    return undefined;
+  }
+
+  private rememberRequest(request: SamlAuthnRequest): void {
+    const forgetAt = request.issueInstant.getTime() +
+      (this.config.requestMaxAgeSeconds + this.config.clockSkewSeconds) * 1000;
+    this.seenRequestIds.set(request.id, new Date(forgetAt));
+  }
+
+  private async findSession(
+    sessionToken: string | undefined,
+    request: SamlAuthnRequest
+  ): Promise<AuthenticationSession | undefined> {
+    if (!sessionToken) {
+      return undefined;
+    }
+    const verification = await this.authProvider.verifySessionToken(sessionToken);
+    if (!verification.success) {
+      return undefined;
+    }
+
+    const session = this.authProvider.getSession(verification.data.claims.sid);
+    if (!session) {
+      return undefined;
+    }
+
+    // ForceAuthn needs an authentication made after the request was issued
+    const lastAuthentication = session.assuranceHistory[session.assuranceHistory.length - 1].achievedAt;
+    if (request.forceAuthn &&
+        lastAuthentication.getTime() < request.issueInstant.getTime() - this.config.clockSkewSeconds * 1000) {
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * Level to assert for the session under the requested comparison, if any satisfies it
+   */
+  private selectAuthnContext(sessionLevel: AssuranceLevel, request: SamlAuthnRequest): AssuranceLevel | undefined {
+    if (!request.requestedAuthnContext) {
+      return sessionLevel;
+    }
+
+    const requestedLevels = request.requestedAuthnContext.classRefs
+      .map(reference => assuranceLevelFromAcr(reference))
+      .filter((level): level is AssuranceLevel => level !== undefined)
+      .sort(compareAssuranceLevels);
+    if (requestedLevels.length === 0) {
+      return undefined;
+    }
+
+    switch (request.requestedAuthnContext.comparison) {
+      case 'exact':
+        // Only the class the session achieved is ever asserted, never a weaker one standing in for it
+        return requestedLevels.includes(sessionLevel) ? sessionLevel : undefined;
+      case 'minimum':
+        return meetsAssuranceLevel(sessionLevel, requestedLevels[0]) ? sessionLevel : undefined;
+      case 'better':
+        return compareAssuranceLevels(sessionLevel, requestedLevels[0]) > 0 ? sessionLevel : undefined;
+      case 'maximum': {
+        const highest = requestedLevels[requestedLevels.length - 1];
+        return meetsAssuranceLevel(sessionLevel, highest) ? highest : sessionLevel;
+      }
+    }
+  }
+
+  private async presentAttributes(session: AuthenticationSession, serviceProvider: RegisteredServiceProvider): Promise<ProcessResult> {
+    const personId = this.authProvider.getBoundPersonId(session.getEffectiveSubjectId());
+    if (!personId) {
+      return {
+        success: false,
+        message: 'Subject is not bound to a verified person',
+        timestamp: new Date()
+      };
+    }
+
+    return this.identityProvider.presentIdentity(
+      personId,
+      {
+        requesterId: serviceProvider.entityId,
+        requesterName: serviceProvider.name,
+        purpose: serviceProvider.purpose || 'SAML single sign-on',
+        isAuthorized: true
+      },
+      serviceProvider.requestedAttributes,
+      // The grant names authentication subjects, not person ids
+      session.delegation && {
+        delegationId: session.delegation.delegationId,
+        delegateId: session.delegation.delegateId,
+        principalId: session.delegation.principalId
+      }
+    );
+  }
+
+  private buildAssertion(
+    request: SamlAuthnRequest,
+    serviceProvider: RegisteredServiceProvider,
+    acsUrl: string,
+    session: AuthenticationSession,
+    assertedLevel: AssuranceLevel,
+    nameIdFormat: string,
+    nameId: string,
+    attributes: Record<string, any>
+  ): { id: string; xml: string } {
+    const id = generateId();
+    const now = new Date();
+    const notBefore = new Date(now.getTime() - this.config.clockSkewSeconds * 1000);
+    const notOnOrAfter = new Date(now.getTime() + this.config.assertionLifetimeSeconds * 1000);
+    const authnInstant = session.assuranceHistory[session.assuranceHistory.length - 1].achievedAt;
+
+    const attributeNodes = flattenAttributes(attributes).map(([name, value]) => ({
+      name: 'saml:Attribute',
+      attributes: { Name: name, NameFormat: ATTRIBUTE_NAME_FORMAT_BASIC },
+      children: [{ name: 'saml:AttributeValue', children: [value] }]
+    }));
+
+    const children: XmlNode[] = [
+      { name: 'saml:Issuer', children: [this.config.entityId] },
+      {
+        name: 'saml:Subject',
+        children: [
+          {
+            name: 'saml:NameID',
+            attributes: { Format: nameIdFormat, NameQualifier: this.config.entityId, SPNameQualifier: serviceProvider.entityId },
+            children: [nameId]
+          },
+          {
+            name: 'saml:SubjectConfirmation',
+            attributes: { Method: 'urn:oasis:names:tc:SAML:2.0:cm:bearer' },
+            children: [{
+              name: 'saml:SubjectConfirmationData',
+              attributes: { InResponseTo: request.id, NotOnOrAfter: formatInstant(notOnOrAfter), Recipient: acsUrl }
+            }]
+          }
+        ]
+      },
+      {
+        name: 'saml:Conditions',
+        attributes: { NotBefore: formatInstant(notBefore), NotOnOrAfter: formatInstant(notOnOrAfter) },
+        children: [{
+          name: 'saml:AudienceRestriction',
+          children: [{ name: 'saml:Audience', children: [serviceProvider.entityId] }]
+        }]
+      },
+      {
+        name: 'saml:AuthnStatement',
+        attributes: {
+          AuthnInstant: formatInstant(authnInstant),
+          SessionIndex: session.sessionId,
+          SessionNotOnOrAfter: formatInstant(session.expiresAt)
+        },
+        children: [{
+          name: 'saml:AuthnContext',
+          children: [{ name: 'saml:AuthnContextClassRef', children: [ASSURANCE_LEVEL_ACR_VALUES[assertedLevel]] }]
+        }]
+      }
+    ];
+    if (attributeNodes.length > 0) {
+      children.push({ name: 'saml:AttributeStatement', children: attributeNodes });
+    }
+
+    const assertion: XmlNode = {
+      name: 'saml:Assertion',
+      namespaces: { saml: SAML_NAMESPACES.ASSERTION },
+      attributes: { ID: id, IssueInstant: formatInstant(now), Version: '2.0' },
+      children
+    };
+
+    // Enveloped signature: the digest covers the assertion without the Signature element
+    const digest = createHash('sha256').update(serializeXml(assertion)).digest('base64');
+    const signedInfo: XmlNode = {
+      name: 'ds:SignedInfo',
+      children: [
+        { name: 'ds:CanonicalizationMethod', attributes: { Algorithm: ALGORITHMS.EXC_C14N } },
+        { name: 'ds:SignatureMethod', attributes: { Algorithm: this.signatureAlgorithm() } },
+        {
+          name: 'ds:Reference',
+          attributes: { URI: `#${id}` },
+          children: [
+            {
+              name: 'ds:Transforms',
+              children: [
+                { name: 'ds:Transform', attributes: { Algorithm: ALGORITHMS.ENVELOPED_SIGNATURE } },
+                { name: 'ds:Transform', attributes: { Algorithm: ALGORITHMS.EXC_C14N } }
+              ]
+            },
+            { name: 'ds:DigestMethod', attributes: { Algorithm: ALGORITHMS.SHA256 } },
+            { name: 'ds:DigestValue', children: [digest] }
+          ]
+        }
+      ]
+    };
+
+    // Canonicalised on its own, SignedInfo carries the ds namespace declaration
+    const canonicalSignedInfo = serializeXml({ ...signedInfo, namespaces: { ds: SAML_NAMESPACES.XMLDSIG } });
+    const signatureValue = sign('sha256', Buffer.from(canonicalSignedInfo), {
+      key: this.signingKey,
+      dsaEncoding: 'ieee-p1363'
+    }).toString('base64');
+
+    const signature: XmlNode = {
+      name: 'ds:Signature',
+      namespaces: { ds: SAML_NAMESPACES.XMLDSIG },
+      children: [
+        signedInfo,
+        { name: 'ds:SignatureValue', children: [signatureValue] },
+        this.keyInfo()
+      ]
+    };
+
+    // The Signature follows the Issuer
+    assertion.children = [children[0], signature, ...children.slice(1)];
+    return { id, xml: serializeXml(assertion) };
+  }
+
+  private buildResponse(
+    request: SamlAuthnRequest,
+    acsUrl: string,
+    statusCode: string,
+    subStatusCode?: string,
+    statusMessage?: string,
+    assertionXml?: string
+  ): string {
+    const status: XmlNode = {
+      name: 'samlp:Status',
+      children: [
+        {
+          name: 'samlp:StatusCode',
+          attributes: { Value: statusCode },
+          children: subStatusCode ? [{ name: 'samlp:StatusCode', attributes: { Value: subStatusCode } }] : []
+        },
+        ...(statusMessage ? [{ name: 'samlp:StatusMessage', children: [statusMessage] }] : [])
+      ]
+    };
+
+    const response = serializeXml({
+      name: 'samlp:Response',
+      namespaces: { samlp: SAML_NAMESPACES.PROTOCOL, saml: SAML_NAMESPACES.ASSERTION },
+      attributes: {
+        ID: generateId(),
+        InResponseTo: request.id,
+        Version: '2.0',
+        IssueInstant: formatInstant(new Date()),
+        Destination: acsUrl
+      },
+      children: [
+        { name: 'saml:Issuer', children: [this.config.entityId] },
+        status
+      ]
+    });
+
+    return assertionXml
+      ? response.replace(/<\/samlp:Response>$/, `${assertionXml}</samlp:Response>`)
+      : response;
+  }
+
+  private errorResponse(
+    request: SamlAuthnRequest,
+    acsUrl: string,
+    relayState: string | undefined,
+    statusCode: string,
+    subStatusCode?: string,
+    statusMessage?: string
+  ): ProcessResult {
+    const response = this.buildResponse(request, acsUrl, statusCode, subStatusCode, statusMessage);
+    return {
+      success: false,
+      message: statusMessage || `AuthnRequest refused: ${subStatusCode || statusCode}`,
+      data: {
+        destination: acsUrl,
+        samlResponse: Buffer.from(response).toString('base64'),
+        relayState,
+        statusCode: subStatusCode || statusCode
+      },
+      timestamp: new Date()
+    };
+  }
+
+  private keyInfo(): XmlNode {
+    return {
+      name: 'ds:KeyInfo',
+      children: [{
+        name: 'ds:X509Data',
+        children: [{ name: 'ds:X509Certificate', children: [this.certificateBody] }]
+      }]
+    };
+  }
+
+  private signatureAlgorithm(): string {
+    return this.signingKey.asymmetricKeyType === 'rsa' ? ALGORITHMS.RSA_SHA256 : ALGORITHMS.ECDSA_SHA256;
+  }
+}
+
+/**
+ * Auto-submitting HTML form delivering a response with the HTTP-POST binding
+ */
+export function renderSamlPostForm(destination: string, samlResponse: string, relayState?: string): string {
+  const escape = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+  const relayField = relayState !== undefined
+    ? `<input type="hidden" name="RelayState" value="${escape(relayState)}"/>`
+    : '';
+
+  return '<!DOCTYPE html><html><body onload="document.forms[0].submit()">' +
+    `<form method="post" action="${escape(destination)}">` +
+    `<input type="hidden" name="SAMLResponse" value="${escape(samlResponse)}"/>${relayField}` +
+    '<noscript><button type="submit">Continue</button></noscript></form></body></html>';
+}
+
+/**
+ * Attribute name/value pairs; nested objects such as address become dotted names
+ */
+function flattenAttributes(attributes: Record<string, any>, prefix: string = ''): [string, string][] {
+  return Object.keys(attributes).sort().flatMap(key => {
+    const value = attributes[key];
+    const name = prefix + key;
+    if (value === undefined || value === null) {
+      return [];
+    }
+    if (value instanceof Date) {
+      return [[name, value.toISOString().slice(0, 10)] as [string, string]];
+    }
+    if (typeof value === 'object') {
+      return flattenAttributes(value, `${name}.`);
+    }
+    return [[name, String(value)] as [string, string]];
+  });
+}
+
+function generateId(): string {
+  // IDs must be valid xsd:ID values, which cannot start with a digit
+  return '_' + randomBytes(20).toString('hex');
+}
+
+function formatInstant(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
@@ -0,0 +1,210 @@
+/**
+ * SAML XML Support
+ * Minimal namespace-aware XML parsing for protocol messages and serialisation
+ * that is already in exclusive canonical form (exc-c14n) for signing
+ */
+
+export const SAML_NAMESPACES = {
+  PROTOCOL: 'urn:oasis:names:tc:SAML:2.0:protocol',
+  ASSERTION: 'urn:oasis:names:tc:SAML:2.0:assertion',
+  METADATA: 'urn:oasis:names:tc:SAML:2.0:metadata',
+  XMLDSIG: 'http://www.w3.org/2000/09/xmldsig#'
+} as const;
+
+/**
+ * A parsed XML element
+ */
+export interface XmlElement {
+  name: string; // qualified name as written
+  localName: string;
+  namespace?: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * A node to serialise; attributes are emitted in canonical order
+ */
+export interface XmlNode {
+  name: string;
+  namespaces?: Record<string, string>; // prefix -> URI, declared on this element
+  attributes?: Record<string, string | undefined>;
+  children?: (XmlNode | string)[];
+}
+
+/**
+ * Parse a document. DTDs are rejected to rule out entity expansion attacks.
+ */
+export function parseXml(xml: string): XmlElement {
+  if (/<!DOCTYPE|<!ENTITY/i.test(xml)) {
+    throw new Error('XML document type declarations are not allowed');
+  }
+
+  let position = 0;
+  const stack: { element: XmlElement; namespaces: Record<string, string> }[] = [];
+  let root: XmlElement | undefined;
+
+  const skip = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end < 0) {
+      throw new Error('Unterminated XML construct');
+    }
+    position = end + terminator.length;
+  };
+
+  while (position < xml.length) {
+    const next = xml.indexOf('<', position);
+    const text = xml.slice(position, next < 0 ? xml.length : next);
+    if (stack.length > 0) {
+      stack[stack.length - 1].element.text += decodeEntities(text);
+    } else if (text.trim().length > 0) {
+      throw new Error('Text outside the document element');
+    }
+    if (next < 0) {
+      break;
+    }
+    position = next;
+
+    if (xml.startsWith('<?', position)) {
+      skip('?>');
+    } else if (xml.startsWith('<!--', position)) {
+      skip('-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      const end = xml.indexOf(']]>', position);
+      if (end < 0 || stack.length === 0) {
+        throw new Error('Invalid CDATA section');
+      }
+      stack[stack.length - 1].element.text += xml.slice(position + 9, end);
+      position = end + 3;
+    } else if (xml.startsWith('</', position)) {
+      const end = xml.indexOf('>', position);
+      const name = xml.slice(position + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.element.name !== name) {
+        throw new Error(`Mismatched closing tag </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      const match = /^<([A-Za-z_][\w.\-]*(?::[A-Za-z_][\w.\-]*)?)((?:\s+[^\s=>\/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(xml.slice(position));
+      if (!match) {
+        throw new Error('Malformed start tag');
+      }
+      position += match[0].length;
+
+      const attributes: Record<string, string> = {};
+      const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attribute: RegExpExecArray | null;
+      while ((attribute = attributePattern.exec(match[2])) !== null) {
+        if (attributes[attribute[1]] !== undefined) {
+          throw new Error(`Duplicate attribute ${attribute[1]}`);
+        }
+        attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const inherited = stack.length > 0 ? stack[stack.length - 1].namespaces : {};
+      const namespaces = { ...inherited };
+      Object.keys(attributes).forEach(key => {
+        if (key === 'xmlns') {
+          namespaces[''] = attributes[key];
+        } else if (key.startsWith('xmlns:')) {
+          namespaces[key.slice(6)] = attributes[key];
+        }
+      });
+
+      const name = match[1];
+      const separator = name.indexOf(':');
+      const prefix = separator >= 0 ? name.slice(0, separator) : '';
+      const element: XmlElement = {
+        name,
+        localName: separator >= 0 ? name.slice(separator + 1) : name,
+        namespace: namespaces[prefix],
+        attributes,
+        children: [],
+        text: ''
+      };
+
+      if (stack.length > 0) {
+        stack[stack.length - 1].element.children.push(element);
+      } else if (root) {
+        throw new Error('Multiple document elements');
+      } else {
+        root = element;
+      }
+      if (!match[3]) {
+        stack.push({ element, namespaces });
+      }
+    }
+  }
+
+  if (!root || stack.length > 0) {
+    throw new Error('Incomplete XML document');
+  }
+  return root;
+}
+
+/**
+ * First child element with the given namespace and local name
+ */
+export function findChild(element: XmlElement, namespace: string, localName: string): XmlElement | undefined {
+  return element.children.find(child => child.namespace === namespace && child.localName === localName);
+}
+
+export function findChildren(element: XmlElement, namespace: string, localName: string): XmlElement[] {
+  return element.children.filter(child => child.namespace === namespace && child.localName === localName);
+}
+
+/**
+ * Serialise a node tree. Namespace declarations precede attributes, both
+ * sorted, elements are never self-closed and text is escaped as exc-c14n
+ * requires, so the output is its own canonical form when every prefix is
+ * declared on the element that first uses it.
+ */
+export function serializeXml(node: XmlNode): string {
+  const namespaces = Object.keys(node.namespaces || {})
+    .sort()
+    .map(prefix => prefix ? ` xmlns:${prefix}="${escapeAttribute(node.namespaces![prefix])}"` : ` xmlns="${escapeAttribute(node.namespaces![prefix])}"`)
+    .join('');
+  const attributes = Object.keys(node.attributes || {})
+    .filter(name => node.attributes![name] !== undefined)
+    .sort()
+    .map(name => ` ${name}="${escapeAttribute(node.attributes![name]!)}"`)
+    .join('');
+  const children = (node.children || [])
+    .map(child => typeof child === 'string' ? escapeText(child) : serializeXml(child))
+    .join('');
+
+  return `<${node.name}${namespaces}${attributes}>${children}</${node.name}>`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_entity, code: string) => {
+    switch (code) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return '\'';
+      default:
+        return String.fromCodePoint(code.startsWith('#x') ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+  });
+}
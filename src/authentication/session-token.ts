@@ -0,0 +1,187 @@
+/**
+ * Session Token Signer
+ * Issues and verifies signed (JWT, ES256) session tokens with rotatable signing keys
+ */
+
+import { createPublicKey, generateKeyPairSync, KeyObject, randomBytes, sign, verify, JsonWebKey } from 'crypto';
+
+/**
+ * Claims carried by a session token
+ */
+export interface SessionTokenClaims {
+  iss: string;
+  sub: string;
+  sid: string;
+  assurance_level: string;
+  iat: number; // seconds since epoch
+  exp: number; // seconds since epoch
+  jti: string;
+  [claim: string]: any;
+}
+
+/**
+ * Outcome of verifying a token's signature and validity period
+ */
+export interface TokenVerificationResult {
+  valid: boolean;
+  claims?: SessionTokenClaims;
+  reason?: string;
+}
+
+/**
+ * A signing key and its lifecycle
+ */
+interface SigningKey {
+  keyId: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: Date;
+  retiredAt?: Date;
+}
+
+/**
+ * Session Token Signer class
+ */
+export class SessionTokenSigner {
+  private static readonly ALGORITHM = 'ES256';
+  private static readonly CLOCK_SKEW_SECONDS = 60;
+
+  private issuer: string;
+  private verificationGraceMinutes: number;
+  private keys: Map<string, SigningKey> = new Map();
+  private activeKeyId!: string;
+
+  /**
+   * @param verificationGraceMinutes how long a rotated-out key still verifies tokens;
+   *   should be at least the longest session duration
+   */
+  constructor(issuer: string, verificationGraceMinutes: number = 24 * 60) {
+    this.issuer = issuer;
+    this.verificationGraceMinutes = verificationGraceMinutes;
+    this.rotateSigningKey();
+  }
+
+  /**
+   * Make a new key (generated, or the supplied P-256 private key) the active signing key.
+   * The previous key keeps verifying tokens for the grace period.
+   */
+  rotateSigningKey(privateKey?: KeyObject): string {
+    const now = new Date();
+    const current = this.keys.get(this.activeKeyId);
+    if (current) {
+      current.retiredAt = now;
+    }
+
+    let publicKey: KeyObject;
+    if (privateKey) {
+      if (privateKey.asymmetricKeyType !== 'ec' || privateKey.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        throw new Error('Session token signing keys must be P-256 EC keys');
+      }
+      publicKey = createPublicKey(privateKey);
+    } else {
+      const pair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      privateKey = pair.privateKey;
+      publicKey = pair.publicKey;
+    }
+
+    const keyId = 'KEY-' + now.getTime() + '-' + randomBytes(4).toString('hex');
+    this.keys.set(keyId, { keyId, privateKey, publicKey, createdAt: now });
+    this.activeKeyId = keyId;
+    this.pruneRetiredKeys(now);
+    return keyId;
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  /**
+   * Public keys currently accepted for verification, as JWKs
+   */
+  getPublicKeys(): JsonWebKey[] {
+    this.pruneRetiredKeys(new Date());
+    return Array.from(this.keys.values()).map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.keyId,
+      alg: SessionTokenSigner.ALGORITHM,
+      use: 'sig'
+    }));
+  }
+
+  /**
+   * Sign a set of claims with the active key
+   */
+  sign(claims: Record<string, any>): string {
+    const key = this.keys.get(this.activeKeyId)!;
+    const header = { alg: SessionTokenSigner.ALGORITHM, typ: 'JWT', kid: key.keyId };
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+    const signature = sign('sha256', Buffer.from(signingInput), { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Check a token's signature, issuer and validity period
+   */
+  verify(token: string): TokenVerificationResult {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return { valid: false, reason: 'Malformed token' };
+    }
+
+    let header: any;
+    let claims: SessionTokenClaims;
+    try {
+      header = JSON.parse(Buffer.from(segments[0], 'base64url').toString('utf8'));
+      claims = JSON.parse(Buffer.from(segments[1], 'base64url').toString('utf8'));
+    } catch {
+      return { valid: false, reason: 'Malformed token' };
+    }
+
+    if (header.alg !== SessionTokenSigner.ALGORITHM) {
+      return { valid: false, reason: 'Unsupported signing algorithm' };
+    }
+
+    const now = new Date();
+    this.pruneRetiredKeys(now);
+    const key = this.keys.get(header.kid);
+    if (!key) {
+      return { valid: false, reason: 'Unknown or retired signing key' };
+    }
+
+    const isSignatureValid = verify(
+      'sha256',
+      Buffer.from(`${segments[0]}.${segments[1]}`),
+      { key: key.publicKey, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(segments[2], 'base64url')
+    );
+    if (!isSignatureValid) {
+      return { valid: false, reason: 'Invalid signature' };
+    }
+
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    if (claims.iss !== this.issuer) {
+      return { valid: false, reason: 'Unexpected issuer' };
+    }
+    if (typeof claims.exp !== 'number' || claims.exp <= nowSeconds) {
+      return { valid: false, reason: 'Token has expired' };
+    }
+    if (typeof claims.iat !== 'number' || claims.iat > nowSeconds + SessionTokenSigner.CLOCK_SKEW_SECONDS) {
+      return { valid: false, reason: 'Token issued in the future' };
+    }
+
+    return { valid: true, claims };
+  }
+
+  private pruneRetiredKeys(now: Date): void {
+    const graceMs = this.verificationGraceMinutes * 60 * 1000;
+    this.keys.forEach((key, keyId) => {
+      if (key.retiredAt && now.getTime() - key.retiredAt.getTime() > graceMs) {
+        this.keys.delete(keyId);
+      }
+    });
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
@@ -0,0 +1,539 @@
+/**
+ * WebAuthn / FIDO2 Verifier
+ * Registration (attestation) and assertion verification for WEBAUTHN credentials
+ */
+
+import { createHash, createPublicKey, KeyObject, randomBytes, timingSafeEqual, verify as verifySignature, X509Certificate } from 'crypto';
+import { AuthenticationCredential, CredentialType } from './authentication-credential';
+import {
+  AuthenticationChallenge,
+  AuthenticationFactorVerifier,
+  CredentialEnrollmentData,
+  FactorVerificationResult
+} from './authentication-verifier';
+import { constantTimeEquals } from '../shared/constant-time';
+
+/**
+ * Relying party configuration for WebAuthn ceremonies
+ */
+export interface WebAuthnRelyingPartyConfig {
+  rpId: string; // effective domain, e.g. 'login.example.ca'
+  rpName: string;
+  origins: string[]; // accepted client origins, e.g. 'https://login.example.ca'
+  requireUserVerification?: boolean;
+  challengeTimeoutMinutes?: number;
+}
+
+/**
+ * Response of navigator.credentials.create(), fields base64url encoded
+ */
+export interface WebAuthnAttestationResponse {
+  clientDataJSON: string;
+  attestationObject: string;
+}
+
+/**
+ * Response of navigator.credentials.get(), fields base64url encoded.
+ * Passed to authenticate() as a JSON string.
+ */
+export interface WebAuthnAssertionResponse {
+  credentialId: string;
+  clientDataJSON: string;
+  authenticatorData: string;
+  signature: string;
+}
+
+/**
+ * Options handed to the client to start a registration ceremony
+ */
+export interface WebAuthnRegistrationOptions {
+  challenge: string;
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  timeout: number; // in milliseconds
+  attestation: 'none' | 'direct';
+  userVerification: 'required' | 'preferred';
+}
+
+/**
+ * COSE algorithm identifiers supported for credential public keys
+ */
+export enum CoseAlgorithm {
+  ES256 = -7,
+  EDDSA = -8,
+  RS256 = -257
+}
+
+/**
+ * How far an enrolled authenticator's attestation can be trusted. Certificate
+ * chains are not anchored in a trusted root, so packed attestation with an
+ * x5c chain is treated as self attestation.
+ */
+export type WebAuthnAttestationType = 'none' | 'self';
+
+// Authenticator data flags
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+/**
+ * WebAuthn Verifier class
+ */
+export class WebAuthnVerifier implements AuthenticationFactorVerifier {
+  public readonly supportedTypes = [CredentialType.WEBAUTHN];
+
+  private config: WebAuthnRelyingPartyConfig;
+  private records: Map<string, WebAuthnRecord> = new Map();
+  private registrationChallenges: Map<string, AuthenticationChallenge> = new Map(); // by subjectId
+
+  constructor(config: WebAuthnRelyingPartyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Start a registration ceremony for a subject
+   */
+  createRegistrationOptions(subjectId: string): WebAuthnRegistrationOptions {
+    const challenge = this.newChallenge(subjectId);
+    this.registrationChallenges.set(subjectId, challenge);
+
+    return {
+      challenge: challenge.challenge,
+      rp: { id: this.config.rpId, name: this.config.rpName },
+      user: { id: Buffer.from(subjectId).toString('base64url'), name: subjectId, displayName: subjectId },
+      pubKeyCredParams: [CoseAlgorithm.ES256, CoseAlgorithm.EDDSA, CoseAlgorithm.RS256]
+        .map(alg => ({ type: 'public-key' as const, alg })),
+      timeout: this.getChallengeTimeoutMs(),
+      attestation: 'none',
+      userVerification: this.config.requireUserVerification ? 'required' : 'preferred'
+    };
+  }
+
+  async enroll(credential: AuthenticationCredential, enrollmentData: CredentialEnrollmentData): Promise<Record<string, any>> {
+    const attestation = enrollmentData.webAuthnAttestation;
+    if (!attestation) {
+      throw new Error('WebAuthn attestation response is required for enrollment');
+    }
+
+    const challenge = this.registrationChallenges.get(credential.subjectId);
+    this.registrationChallenges.delete(credential.subjectId);
+    if (!challenge || new Date() > challenge.expiresAt) {
+      throw new Error('No outstanding registration challenge for subject');
+    }
+
+    const clientDataJSON = Buffer.from(attestation.clientDataJSON, 'base64url');
+    const clientDataFailure = this.checkClientData(clientDataJSON, 'webauthn.create', challenge.challenge);
+    if (clientDataFailure) {
+      throw new Error(clientDataFailure);
+    }
+
+    const attestationObject = decodeCbor(Buffer.from(attestation.attestationObject, 'base64url'));
+    if (!(attestationObject instanceof Map)) {
+      throw new Error('Malformed attestation object');
+    }
+
+    const format = attestationObject.get('fmt');
+    const statement = attestationObject.get('attStmt');
+    const authData: Buffer = attestationObject.get('authData');
+    if (typeof format !== 'string' || !(statement instanceof Map) || !Buffer.isBuffer(authData)) {
+      throw new Error('Malformed attestation object');
+    }
+
+    const parsed = parseAuthenticatorData(authData);
+    const authDataFailure = this.checkAuthenticatorData(parsed);
+    if (authDataFailure) {
+      throw new Error(authDataFailure);
+    }
+    if (!parsed.attestedCredential) {
+      throw new Error('Attested credential data missing');
+    }
+
+    const { credentialId, publicKey, algorithm, aaguid } = parsed.attestedCredential;
+    // A credential ID names one authenticator key; it cannot be bound to a second credential or subject
+    const webAuthnCredentialId = credentialId.toString('base64url');
+    if (Array.from(this.records.values()).some(record => record.webAuthnCredentialId === webAuthnCredentialId)) {
+      throw new Error('WebAuthn credential ID is already registered');
+    }
+    const signedData = Buffer.concat([authData, sha256(clientDataJSON)]);
+    const attestationType = verifyAttestationStatement(format, statement, signedData, publicKey, algorithm);
+
+    this.records.set(credential.credentialId, {
+      webAuthnCredentialId,
+      publicKey,
+      algorithm,
+      signCount: parsed.signCount,
+      aaguid: formatAaguid(aaguid),
+      attestationFormat: format,
+      attestationType
+    });
+
+    return {
+      webAuthnCredentialId,
+      aaguid: formatAaguid(aaguid),
+      attestationFormat: format,
+      attestationType
+    };
+  }
+
+  async createChallenge(credential: AuthenticationCredential): Promise<AuthenticationChallenge> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      throw new Error('No WebAuthn authenticator registered for credential');
+    }
+
+    const challenge = this.newChallenge(credential.credentialId);
+    record.pendingChallenge = challenge;
+    return challenge;
+  }
+
+  async verify(credential: AuthenticationCredential, factor: string): Promise<FactorVerificationResult> {
+    const record = this.records.get(credential.credentialId);
+    if (!record) {
+      return { verified: false, reason: 'No WebAuthn authenticator registered for credential' };
+    }
+
+    const challenge = record.pendingChallenge;
+    // Challenges are single use regardless of the outcome
+    record.pendingChallenge = undefined;
+    if (!challenge || new Date() > challenge.expiresAt) {
+      return { verified: false, reason: 'No outstanding challenge' };
+    }
+
+    let assertion: WebAuthnAssertionResponse;
+    try {
+      assertion = JSON.parse(factor);
+    } catch {
+      return { verified: false, reason: 'Malformed WebAuthn assertion' };
+    }
+
+    if (assertion.credentialId !== record.webAuthnCredentialId) {
+      return { verified: false, reason: 'Assertion is for a different authenticator' };
+    }
+
+    const clientDataJSON = Buffer.from(assertion.clientDataJSON || '', 'base64url');
+    const clientDataFailure = this.checkClientData(clientDataJSON, 'webauthn.get', challenge.challenge);
+    if (clientDataFailure) {
+      return { verified: false, reason: clientDataFailure };
+    }
+
+    const authData = Buffer.from(assertion.authenticatorData || '', 'base64url');
+    let parsed: ParsedAuthenticatorData;
+    try {
+      parsed = parseAuthenticatorData(authData);
+    } catch (error) {
+      return { verified: false, reason: error instanceof Error ? error.message : 'Malformed authenticator data' };
+    }
+
+    const authDataFailure = this.checkAuthenticatorData(parsed);
+    if (authDataFailure) {
+      return { verified: false, reason: authDataFailure };
+    }
+
+    const isSignatureValid = verifyCoseSignature(
+      record.algorithm,
+      Buffer.concat([authData, sha256(clientDataJSON)]),
+      record.publicKey,
+      Buffer.from(assertion.signature || '', 'base64url')
+    );
+    if (!isSignatureValid) {
+      return { verified: false, reason: 'Assertion signature invalid' };
+    }
+
+    // Authenticators that implement counters must strictly increase them;
+    // a counter that does not advance indicates a cloned authenticator
+    if ((parsed.signCount !== 0 || record.signCount !== 0) && parsed.signCount <= record.signCount) {
+      return {
+        verified: false,
+        reason: 'Signature counter did not increase; possible cloned authenticator',
+        compromiseSuspected: true
+      };
+    }
+
+    record.signCount = parsed.signCount;
+    return { verified: true };
+  }
+
+  remove(credentialId: string): void {
+    this.records.delete(credentialId);
+  }
+
+  private newChallenge(credentialId: string): AuthenticationChallenge {
+    const issuedAt = new Date();
+    return {
+      credentialId,
+      challenge: randomBytes(32).toString('base64url'),
+      issuedAt,
+      expiresAt: new Date(issuedAt.getTime() + this.getChallengeTimeoutMs())
+    };
+  }
+
+  private getChallengeTimeoutMs(): number {
+    return (this.config.challengeTimeoutMinutes ?? 5) * 60 * 1000;
+  }
+
+  private checkClientData(clientDataJSON: Buffer, expectedType: string, expectedChallenge: string): string | undefined {
+    let clientData: any;
+    try {
+      clientData = JSON.parse(clientDataJSON.toString('utf8'));
+    } catch {
+      return 'Malformed client data';
+    }
+
+    if (clientData.type !== expectedType) {
+      return `Unexpected client data type ${clientData.type}`;
+    }
+    if (typeof clientData.challenge !== 'string' || !constantTimeEquals(clientData.challenge, expectedChallenge)) {
+      return 'Challenge mismatch';
+    }
+    if (!this.config.origins.includes(clientData.origin)) {
+      return `Origin ${clientData.origin} is not accepted`;
+    }
+    return undefined;
+  }
+
+  private checkAuthenticatorData(parsed: ParsedAuthenticatorData): string | undefined {
+    if (!timingSafeEqual(parsed.rpIdHash, sha256(Buffer.from(this.config.rpId)))) {
+      return 'Relying party ID mismatch';
+    }
+    if (!(parsed.flags & FLAG_USER_PRESENT)) {
+      return 'User presence not asserted';
+    }
+    if (this.config.requireUserVerification && !(parsed.flags & FLAG_USER_VERIFIED)) {
+      return 'User verification required';
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Decode a single CBOR (RFC 8949) data item. Maps decode to Map, byte strings to Buffer.
+ */
+export function decodeCbor(data: Buffer): any {
+  const [value, offset] = decodeCborItem(data, 0);
+  if (offset !== data.length) {
+    throw new Error('Trailing bytes after CBOR item');
+  }
+  return value;
+}
+
+function decodeCborItem(data: Buffer, offset: number): [any, number] {
+  if (offset >= data.length) {
+    throw new Error('Unexpected end of CBOR data');
+  }
+
+  const initial = data[offset];
+  const majorType = initial >> 5;
+  const additional = initial & 0x1f;
+  let position = offset + 1;
+  let argument: number;
+
+  if (additional < 24) {
+    argument = additional;
+  } else if (additional === 24) {
+    argument = data.readUInt8(position);
+    position += 1;
+  } else if (additional === 25) {
+    argument = data.readUInt16BE(position);
+    position += 2;
+  } else if (additional === 26) {
+    argument = data.readUInt32BE(position);
+    position += 4;
+  } else if (additional === 27) {
+    const big = data.readBigUInt64BE(position);
+    if (big > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new Error('CBOR integer exceeds safe range');
+    }
+    argument = Number(big);
+    position += 8;
+  } else {
+    throw new Error('Indefinite-length CBOR items are not supported');
+  }
+
+  switch (majorType) {
+    case 0:
+      return [argument, position];
+    case 1:
+      return [-1 - argument, position];
+    case 2:
+      return [Buffer.from(data.subarray(position, position + argument)), position + argument];
+    case 3:
+      return [data.toString('utf8', position, position + argument), position + argument];
+    case 4: {
+      const items: any[] = [];
+      for (let i = 0; i < argument; i++) {
+        const [item, next] = decodeCborItem(data, position);
+        items.push(item);
+        position = next;
+      }
+      return [items, position];
+    }
+    case 5: {
+      const map = new Map<any, any>();
+      for (let i = 0; i < argument; i++) {
+        const [key, afterKey] = decodeCborItem(data, position);
+        const [value, afterValue] = decodeCborItem(data, afterKey);
+        map.set(key, value);
+        position = afterValue;
+      }
+      return [map, position];
+    }
+    case 7:
+      switch (additional) {
+        case 20: return [false, position];
+        case 21: return [true, position];
+        case 22: return [null, position];
+        case 23: return [undefined, position];
+        default: throw new Error('Unsupported CBOR simple value');
+      }
+    default:
+      throw new Error('Unsupported CBOR major type');
+  }
+}
+
+interface ParsedAuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: Buffer;
+    credentialId: Buffer;
+    publicKey: KeyObject;
+    algorithm: CoseAlgorithm;
+  };
+}
+
+function parseAuthenticatorData(authData: Buffer): ParsedAuthenticatorData {
+  if (authData.length < 37) {
+    throw new Error('Authenticator data too short');
+  }
+
+  const parsed: ParsedAuthenticatorData = {
+    rpIdHash: authData.subarray(0, 32),
+    flags: authData[32],
+    signCount: authData.readUInt32BE(33)
+  };
+
+  if (parsed.flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    const aaguid = authData.subarray(37, 53);
+    const idLength = authData.readUInt16BE(53);
+    const credentialId = authData.subarray(55, 55 + idLength);
+    const [coseKey] = decodeCborItem(authData, 55 + idLength);
+    const { publicKey, algorithm } = coseKeyToPublicKey(coseKey);
+    parsed.attestedCredential = { aaguid, credentialId, publicKey, algorithm };
+  }
+
+  return parsed;
+}
+
+function coseKeyToPublicKey(coseKey: any): { publicKey: KeyObject; algorithm: CoseAlgorithm } {
+  if (!(coseKey instanceof Map)) {
+    throw new Error('Malformed COSE key');
+  }
+
+  const keyType = coseKey.get(1);
+  const algorithm = coseKey.get(3);
+
+  if (keyType === 2 && algorithm === CoseAlgorithm.ES256 && coseKey.get(-1) === 1) {
+    return {
+      publicKey: createPublicKey({
+        key: { kty: 'EC', crv: 'P-256', x: coseKey.get(-2).toString('base64url'), y: coseKey.get(-3).toString('base64url') },
+        format: 'jwk'
+      }),
+      algorithm
+    };
+  }
+
+  if (keyType === 1 && algorithm === CoseAlgorithm.EDDSA && coseKey.get(-1) === 6) {
+    return {
+      publicKey: createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: coseKey.get(-2).toString('base64url') },
+        format: 'jwk'
+      }),
+      algorithm
+    };
+  }
+
+  if (keyType === 3 && algorithm === CoseAlgorithm.RS256) {
+    return {
+      publicKey: createPublicKey({
+        key: { kty: 'RSA', n: coseKey.get(-1).toString('base64url'), e: coseKey.get(-2).toString('base64url') },
+        format: 'jwk'
+      }),
+      algorithm
+    };
+  }
+
+  throw new Error(`Unsupported COSE key (kty ${keyType}, alg ${algorithm})`);
+}
+
+function verifyCoseSignature(algorithm: CoseAlgorithm, data: Buffer, publicKey: KeyObject, signature: Buffer): boolean {
+  // ES256 signatures are DER encoded in WebAuthn, which is Node's default
+  return verifySignature(algorithm === CoseAlgorithm.EDDSA ? null : 'sha256', data, publicKey, signature);
+}
+
+/**
+ * Verify the attestation statement for the 'none' and 'packed' formats.
+ * Packed attestation with an x5c chain is signature-checked against the leaf
+ * certificate only; without a trust anchor for the chain the leaf could be
+ * self-issued, so the result is reported as self attestation.
+ */
+function verifyAttestationStatement(
+  format: string,
+  statement: Map<any, any>,
+  signedData: Buffer,
+  credentialPublicKey: KeyObject,
+  credentialAlgorithm: CoseAlgorithm
+): WebAuthnAttestationType {
+  if (format === 'none') {
+    return 'none';
+  }
+
+  if (format !== 'packed') {
+    throw new Error(`Unsupported attestation format ${format}`);
+  }
+
+  const algorithm = statement.get('alg');
+  const signature = statement.get('sig');
+  const x5c = statement.get('x5c');
+  if (!Buffer.isBuffer(signature)) {
+    throw new Error('Packed attestation signature missing');
+  }
+
+  let isValid: boolean;
+  if (Array.isArray(x5c) && x5c.length > 0) {
+    const leaf = new X509Certificate(x5c[0]);
+    isValid = verifyCoseSignature(algorithm, signedData, leaf.publicKey, signature);
+  } else {
+    if (algorithm !== credentialAlgorithm) {
+      throw new Error('Self attestation algorithm does not match credential key');
+    }
+    isValid = verifyCoseSignature(algorithm, signedData, credentialPublicKey, signature);
+  }
+
+  if (!isValid) {
+    throw new Error('Attestation signature invalid');
+  }
+  return 'self';
+}
+
+function sha256(data: Buffer): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+
+function formatAaguid(aaguid: Buffer): string {
+  const hex = aaguid.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+interface WebAuthnRecord {
+  webAuthnCredentialId: string; // base64url
+  publicKey: KeyObject;
+  algorithm: CoseAlgorithm;
+  signCount: number;
+  aaguid: string;
+  attestationFormat: string;
+  attestationType: WebAuthnAttestationType;
+  pendingChallenge?: AuthenticationChallenge;
+}
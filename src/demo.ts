@@ -14,7 +14,10 @@ import {
   PrivacyServiceProvider,
   CredentialType,
   TrustStatus,
-  CredentialStatus
+  CredentialStatus,
+  BiometricFactorVerifier,
+  BiometricType,
+  ReferenceBiometricProvider
 } from './index';
 
 /**
@@ -95,8 +98,16 @@ export async function demonstratePCTFFramework(): Promise<void> {
   console.log('\n🔐 Authentication Service Demo...');
   const authProvider = framework.getAuthenticationProvider('ASP-001');
   if (authProvider) {
-    // Issue a credential
-    const credResult = await authProvider.issueCredential('USER-001', CredentialType.BIOMETRIC);
+    // Issue a biometric credential, matched by a reference provider for the demo
+    authProvider.registerVerifier(new BiometricFactorVerifier(new ReferenceBiometricProvider()));
+    const credResult = await authProvider.issueCredential('USER-001', CredentialType.BIOMETRIC, {
+      biometricReference: {
+        biometricType: BiometricType.FACE,
+        template: 'biometric-template-123',
+        qualityScore: 85,
+        captureDate: new Date()
+      }
+    });
     console.log(`   Credential Issuance: ${credResult.success ? '✅' : '❌'} ${credResult.message}`);
     
     if (credResult.success && credResult.data?.credentialId) {
@@ -105,10 +116,11 @@ export async function demonstratePCTFFramework(): Promise<void> {
       console.log(`   Authentication: ${authResult.success ? '✅' : '❌'} ${authResult.message}`);
       
       if (authResult.success && authResult.data?.subjectId) {
-        // Initiate session
+        // Initiate session; a single factor supports at most LOA2
         const sessionResult = await authProvider.initiateSession(authResult.data.subjectId, {
-          assuranceLevel: AssuranceLevel.LOA3,
-          maxDuration: 60 // 60 minutes
+          assuranceLevel: AssuranceLevel.LOA2,
+          maxDuration: 60, // 60 minutes
+          credentialIds: [credResult.data.credentialId]
         });
         console.log(`   Session Initiation: ${sessionResult.success ? '✅' : '❌'} ${sessionResult.message}`);
       }
@@ -132,7 +144,24 @@ export async function demonstratePCTFFramework(): Promise<void> {
           postalCode: 'M5V 3A8',
           country: 'Canada'
         }
-      }
+      },
+      // LOA3 resolution needs supporting documents as well as core attributes
+      supportingDocuments: [
+        {
+          documentType: 'Passport',
+          documentNumber: 'AB123456',
+          issuer: 'Passport Canada',
+          issuedDate: new Date('2020-01-01'),
+          expirationDate: new Date('2030-01-01')
+        },
+        {
+          documentType: "Driver's Licence",
+          documentNumber: 'D1234-56789-00101',
+          issuer: 'Ontario Ministry of Transportation',
+          issuedDate: new Date('2021-06-01'),
+          expirationDate: new Date('2031-06-01')
+        }
+      ]
     };
 
     const resolutionResult = await idProvider.performIdentityResolution(identityInfo);
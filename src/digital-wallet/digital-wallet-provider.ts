@@ -12,6 +12,12 @@ import {
   ProcessStatus,
   CredentialStatus 
 } from '../shared/types';
+import {
+  DELEGATION_SCOPES,
+  DelegationDisclosure,
+  DelegationRegistry,
+  discloseDelegation
+} from '../shared/delegation';
 
 /**
  * Digital wallet types
@@ -117,6 +123,7 @@ export class DigitalWalletProvider implements TrustedProcess {
   private credentials: Map<string, DigitalCredential> = new Map();
   private activityLog: WalletActivity[] = [];
   private isLocked: boolean = true;
+  private delegationRegistry?: DelegationRegistry;
 
   constructor(
     walletId: string,
@@ -136,6 +143,13 @@ export class DigitalWalletProvider implements TrustedProcess {
     this.securityFeatures = this.getDefaultSecurityFeatures(walletType);
   }
 
+  /**
+   * Link the registry used when the owner presents credentials held for a principal
+   */
+  linkDelegationRegistry(delegationRegistry: DelegationRegistry): void {
+    this.delegationRegistry = delegationRegistry;
+  }
+
   /**
    * Execute wallet process
    */
@@ -337,6 +351,7 @@ export class DigitalWalletProvider implements TrustedProcess {
       }
 
       const presentedCredentials: DigitalCredential[] = [];
+      const delegations: DelegationDisclosure[] = [];
       const errors: string[] = [];
 
       for (const credentialId of credentialIds) {
@@ -351,6 +366,26 @@ export class DigitalWalletProvider implements TrustedProcess {
           continue;
         }
 
+        // Credentials of another subject need a delegation from that subject to the owner
+        if (credential.subject !== this.ownerId) {
+          if (!this.delegationRegistry) {
+            errors.push(`Credential ${credentialId} belongs to ${credential.subject}; no delegation registry is linked to authorise presenting it`);
+            continue;
+          }
+          const delegation = this.delegationRegistry.findActiveDelegation(
+            this.ownerId,
+            credential.subject,
+            DELEGATION_SCOPES.CREDENTIAL_PRESENTATION
+          );
+          if (!delegation) {
+            errors.push(`No active delegation from ${credential.subject} permits presenting credential ${credentialId}`);
+            continue;
+          }
+          if (!delegations.some(disclosed => disclosed.delegationId === delegation.delegationId)) {
+            delegations.push(discloseDelegation(delegation));
+          }
+        }
+
         presentedCredentials.push(credential);
       }
 
@@ -370,7 +405,9 @@ export class DigitalWalletProvider implements TrustedProcess {
         message: 'Credentials presented successfully',
         data: { 
           credentials: presentedCredentials,
-          presentationId: `PRES-${Date.now()}`
+          presentationId: `PRES-${Date.now()}`,
+          presentedBy: this.ownerId,
+          delegations
         },
         timestamp: new Date()
       };
@@ -7,6 +7,9 @@
 
 // Core types and interfaces
 export * from './shared/types';
+export * from './shared/assurance';
+export * from './shared/delegation';
+export * from './shared/biometrics';
 
 // PCTF Components
 export * from './authentication';
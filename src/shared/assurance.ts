@@ -0,0 +1,36 @@
+/**
+ * Assurance level helpers for DIACC PCTF implementation
+ */
+
+import { AssuranceLevel } from './types';
+
+/**
+ * Levels of Assurance ordered from lowest to highest
+ */
+export const ASSURANCE_LEVEL_ORDER: readonly AssuranceLevel[] = [
+  AssuranceLevel.LOA1,
+  AssuranceLevel.LOA2,
+  AssuranceLevel.LOA3,
+  AssuranceLevel.LOA4
+];
+
+/**
+ * Compare two assurance levels; negative when a is lower than b
+ */
+export function compareAssuranceLevels(a: AssuranceLevel, b: AssuranceLevel): number {
+  return ASSURANCE_LEVEL_ORDER.indexOf(a) - ASSURANCE_LEVEL_ORDER.indexOf(b);
+}
+
+/**
+ * Whether an achieved assurance level satisfies a required one
+ */
+export function meetsAssuranceLevel(achieved: AssuranceLevel, required: AssuranceLevel): boolean {
+  return compareAssuranceLevels(achieved, required) >= 0;
+}
+
+/**
+ * Lowest of the given assurance levels
+ */
+export function minimumAssuranceLevel(...levels: AssuranceLevel[]): AssuranceLevel {
+  return levels.reduce((lowest, level) => compareAssuranceLevels(level, lowest) < 0 ? level : lowest);
+}
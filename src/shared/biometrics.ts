@@ -0,0 +1,45 @@
+/**
+ * Biometric types shared by authentication (BIOMETRIC credentials) and
+ * verified person (live capture verification and deduplication)
+ */
+
+export enum BiometricType {
+  FINGERPRINT = 'FINGERPRINT',
+  FACE = 'FACE',
+  IRIS = 'IRIS',
+  VOICE = 'VOICE'
+}
+
+export interface BiometricEvidence {
+  biometricType: BiometricType;
+  template: string; // Base64 encoded biometric template
+  qualityScore: number; // 0-100
+  captureDate: Date;
+}
+
+/**
+ * Compares biometric templates of the same type
+ */
+export interface BiometricTemplateMatcher {
+  compare(probe: BiometricEvidence, reference: BiometricEvidence): Promise<number>; // similarity 0-1
+}
+
+/**
+ * Matching and presentation attack detection service
+ */
+export interface BiometricProvider extends BiometricTemplateMatcher {
+  detectLiveness(sample: BiometricEvidence): Promise<number>; // 0-1, 1 = certainly live
+  assessQuality(sample: BiometricEvidence): Promise<number>; // 0-100, measured from the template itself
+}
+
+export interface BiometricVerificationPolicy {
+  minimumQualityScore: number; // 0-100, applies to live captures and document portraits
+  faceMatchThreshold: number; // similarity 0-1
+  livenessThreshold: number;
+}
+
+export const DEFAULT_BIOMETRIC_VERIFICATION_POLICY: BiometricVerificationPolicy = {
+  minimumQualityScore: 50,
+  faceMatchThreshold: 0.8,
+  livenessThreshold: 0.9
+};
@@ -0,0 +1,15 @@
+/**
+ * Constant-time comparison for secrets and challenges
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Compare two strings without leaking where they first differ; only the
+ * length comparison is not constant time
+ */
+export function constantTimeEquals(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
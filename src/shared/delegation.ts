@@ -0,0 +1,242 @@
+/**
+ * Delegated Authority
+ * Links a delegate to the principal they act for, with scope, validity and evidence
+ */
+
+import { CredentialStatus, ProcessResult } from './types';
+
+export enum DelegationType {
+  CAREGIVER = 'CAREGIVER',
+  POWER_OF_ATTORNEY = 'POWER_OF_ATTORNEY',
+  GUARDIANSHIP = 'GUARDIANSHIP',
+  ORGANIZATIONAL = 'ORGANIZATIONAL' // an employee acting for an organization
+}
+
+/**
+ * Well-known delegation scopes; relying parties may define their own
+ */
+export const DELEGATION_SCOPES = {
+  ALL: '*',
+  SESSION: 'session', // authenticate and hold a session on the principal's behalf
+  IDENTITY_PRESENTATION: 'identity-presentation',
+  CREDENTIAL_PRESENTATION: 'credential-presentation'
+} as const;
+
+/**
+ * Evidence establishing a delegation (e.g. a registered power of attorney)
+ */
+export interface DelegationEvidence {
+  evidenceType: string;
+  reference: string;
+  issuer?: string;
+  issuedDate?: Date;
+  verifiedAt?: Date;
+}
+
+export interface DelegationRequest {
+  delegateId: string;
+  principalId: string;
+  delegationType: DelegationType;
+  scope: string[];
+  validFrom?: Date; // defaults to now
+  validUntil?: Date;
+  evidence: DelegationEvidence[];
+  grantedBy: string;
+}
+
+export interface DelegatedAuthority {
+  delegationId: string;
+  delegateId: string;
+  principalId: string;
+  delegationType: DelegationType;
+  scope: string[];
+  validFrom: Date;
+  validUntil?: Date;
+  evidence: DelegationEvidence[];
+  status: CredentialStatus;
+  grantedBy: string;
+  grantedAt: Date;
+  revokedAt?: Date;
+  revocationReason?: string;
+}
+
+/**
+ * What a presentation or session discloses about the delegation it relies on
+ */
+export interface DelegationDisclosure {
+  delegationId: string;
+  delegateId: string;
+  principalId: string;
+  delegationType: DelegationType;
+  scope: string[];
+  validUntil?: Date;
+}
+
+/**
+ * Outcome of checking a delegation for a use
+ */
+export interface DelegationCheck {
+  valid: boolean;
+  delegation?: DelegatedAuthority;
+  reason?: string;
+}
+
+/**
+ * Delegation Registry class
+ */
+export class DelegationRegistry {
+  private delegations: Map<string, DelegatedAuthority> = new Map();
+
+  async grantDelegation(request: DelegationRequest): Promise<ProcessResult> {
+    try {
+      const errors: string[] = [];
+      const validFrom = request.validFrom || new Date();
+
+      if (request.delegateId === request.principalId) {
+        errors.push('Delegate and principal must differ');
+      }
+      if (request.scope.length === 0) {
+        errors.push('Delegation scope is required');
+      }
+      if (request.validUntil && request.validUntil <= validFrom) {
+        errors.push('Delegation must end after it starts');
+      }
+      if (request.evidence.length === 0) {
+        errors.push('Delegation evidence is required');
+      }
+      if (errors.length > 0) {
+        return {
+          success: false,
+          message: 'Delegation request is invalid',
+          errors,
+          timestamp: new Date()
+        };
+      }
+
+      const delegationId = this.generateDelegationId();
+      const delegation: DelegatedAuthority = {
+        delegationId,
+        delegateId: request.delegateId,
+        principalId: request.principalId,
+        delegationType: request.delegationType,
+        scope: [...request.scope],
+        validFrom,
+        validUntil: request.validUntil,
+        evidence: [...request.evidence],
+        status: CredentialStatus.ACTIVE,
+        grantedBy: request.grantedBy,
+        grantedAt: new Date()
+      };
+      this.delegations.set(delegationId, delegation);
+
+      return {
+        success: true,
+        message: 'Delegation granted successfully',
+        data: { delegationId, validFrom, validUntil: delegation.validUntil },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Delegation grant failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  async revokeDelegation(delegationId: string, reason: string): Promise<ProcessResult> {
+    const delegation = this.delegations.get(delegationId);
+    if (!delegation || delegation.status === CredentialStatus.REVOKED) {
+      return {
+        success: false,
+        message: 'Delegation not found or already revoked',
+        timestamp: new Date()
+      };
+    }
+
+    delegation.status = CredentialStatus.REVOKED;
+    delegation.revokedAt = new Date();
+    delegation.revocationReason = reason;
+
+    return {
+      success: true,
+      message: 'Delegation revoked successfully',
+      data: { delegationId, revokedAt: delegation.revokedAt },
+      timestamp: new Date()
+    };
+  }
+
+  getDelegation(delegationId: string): DelegatedAuthority | undefined {
+    return this.delegations.get(delegationId);
+  }
+
+  getDelegationsForPrincipal(principalId: string): DelegatedAuthority[] {
+    return Array.from(this.delegations.values()).filter(delegation => delegation.principalId === principalId);
+  }
+
+  getDelegationsForDelegate(delegateId: string): DelegatedAuthority[] {
+    return Array.from(this.delegations.values()).filter(delegation => delegation.delegateId === delegateId);
+  }
+
+  /**
+   * Find a delegation that currently lets the delegate act for the principal within a scope
+   */
+  findActiveDelegation(delegateId: string, principalId: string, scope?: string, at: Date = new Date()): DelegatedAuthority | undefined {
+    return this.getDelegationsForDelegate(delegateId).find(delegation =>
+      delegation.principalId === principalId && isDelegationActive(delegation, at) && coversScope(delegation, scope));
+  }
+
+  /**
+   * Check that a delegation is active, covers the scope and, where given,
+   * names the expected delegate and principal
+   */
+  checkDelegation(
+    delegationId: string,
+    expected: { delegateId?: string; principalId?: string; scope?: string },
+    at: Date = new Date()
+  ): DelegationCheck {
+    const delegation = this.delegations.get(delegationId);
+    if (!delegation) {
+      return { valid: false, reason: 'Delegation not found' };
+    }
+    if (expected.delegateId && delegation.delegateId !== expected.delegateId) {
+      return { valid: false, delegation, reason: 'Delegation was not granted to this delegate' };
+    }
+    if (expected.principalId && delegation.principalId !== expected.principalId) {
+      return { valid: false, delegation, reason: 'Delegation is for a different principal' };
+    }
+    if (!isDelegationActive(delegation, at)) {
+      return { valid: false, delegation, reason: 'Delegation is not active' };
+    }
+    if (!coversScope(delegation, expected.scope)) {
+      return { valid: false, delegation, reason: `Delegation does not cover ${expected.scope}` };
+    }
+    return { valid: true, delegation };
+  }
+
+  private generateDelegationId(): string {
+    return 'DLG-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  }
+}
+
+export function isDelegationActive(delegation: DelegatedAuthority, at: Date = new Date()): boolean {
+  return delegation.status === CredentialStatus.ACTIVE &&
+    delegation.validFrom <= at &&
+    (!delegation.validUntil || at < delegation.validUntil);
+}
+
+export function discloseDelegation(delegation: DelegatedAuthority): DelegationDisclosure {
+  return {
+    delegationId: delegation.delegationId,
+    delegateId: delegation.delegateId,
+    principalId: delegation.principalId,
+    delegationType: delegation.delegationType,
+    scope: [...delegation.scope],
+    validUntil: delegation.validUntil
+  };
+}
+
+function coversScope(delegation: DelegatedAuthority, scope?: string): boolean {
+  return !scope || delegation.scope.includes(DELEGATION_SCOPES.ALL) || delegation.scope.includes(scope);
+}
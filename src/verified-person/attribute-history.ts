@@ -0,0 +1,195 @@
+/**
+ * Attribute History
+ * Immutable, versioned record of a verified person's core attributes, kept
+ * for audits and dispute resolution
+ */
+
+import { CoreAttributes, IdentityEvidence } from './identity-provider';
+
+/**
+ * Core attributes as they stood after one establishment or update
+ */
+export interface AttributeVersion {
+  version: number; // 1 = attributes at establishment
+  attributes: Readonly<CoreAttributes>;
+  changedAttributes: string[]; // e.g. familyName, address.postalCode
+  reason: string;
+  requestedBy: string;
+  supportingEvidence: readonly IdentityEvidence[];
+  recordedAt: Date;
+}
+
+/**
+ * One attribute that differs between two versions
+ */
+export interface AttributeChange {
+  attribute: string;
+  previousValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Attribute History class
+ * Versions are never modified once recorded; callers receive copies
+ */
+export class AttributeHistory {
+  private versions: AttributeVersion[] = [];
+
+  constructor(initialAttributes: CoreAttributes, establishedAt: Date, establishedBy: string = 'system') {
+    this.versions.push(deepFreeze({
+      version: 1,
+      attributes: cloneValue(initialAttributes),
+      changedAttributes: Object.keys(flattenAttributes(initialAttributes)),
+      reason: 'Identity established',
+      requestedBy: establishedBy,
+      supportingEvidence: [],
+      recordedAt: new Date(establishedAt.getTime())
+    }));
+  }
+
+  /**
+   * Record an update as a new version. Attributes are merged over the
+   * current version one top-level attribute at a time.
+   */
+  record(
+    updatedAttributes: Partial<CoreAttributes>,
+    reason: string,
+    requestedBy: string,
+    supportingEvidence: IdentityEvidence[] = [],
+    recordedAt: Date = new Date()
+  ): AttributeVersion {
+    const current = this.versions[this.versions.length - 1];
+    if (recordedAt < current.recordedAt) {
+      throw new Error('Attribute versions must be recorded in time order');
+    }
+
+    const attributes = { ...cloneValue(current.attributes), ...cloneValue(updatedAttributes) } as CoreAttributes;
+    const version = deepFreeze({
+      version: current.version + 1,
+      attributes,
+      changedAttributes: diffAttributes(current.attributes, attributes).map(change => change.attribute),
+      reason,
+      requestedBy,
+      supportingEvidence: cloneValue(supportingEvidence),
+      recordedAt: new Date(recordedAt.getTime())
+    });
+    this.versions.push(version);
+    return cloneValue(version);
+  }
+
+  getCurrent(): AttributeVersion {
+    return cloneValue(this.versions[this.versions.length - 1]);
+  }
+
+  getVersion(version: number): AttributeVersion | undefined {
+    const match = this.versions[version - 1];
+    return match && cloneValue(match);
+  }
+
+  getVersions(): AttributeVersion[] {
+    return this.versions.map(version => cloneValue(version));
+  }
+
+  /**
+   * Version in force at a point in time; undefined before establishment
+   */
+  getAsOf(at: Date): AttributeVersion | undefined {
+    let match: AttributeVersion | undefined;
+    for (const version of this.versions) {
+      if (version.recordedAt > at) {
+        break;
+      }
+      match = version;
+    }
+    return match && cloneValue(match);
+  }
+
+  /**
+   * Attributes that differ between two versions; throws for unknown versions
+   */
+  diff(fromVersion: number, toVersion: number): AttributeChange[] {
+    const from = this.versions[fromVersion - 1];
+    const to = this.versions[toVersion - 1];
+    if (!from || !to) {
+      throw new Error(`Unknown attribute version ${!from ? fromVersion : toVersion}`);
+    }
+    return diffAttributes(from.attributes, to.attributes);
+  }
+}
+
+/**
+ * Attribute-by-attribute differences, with nested values such as the
+ * address compared field by field
+ */
+export function diffAttributes(previous: Readonly<CoreAttributes>, next: Readonly<CoreAttributes>): AttributeChange[] {
+  const before = flattenAttributes(previous);
+  const after = flattenAttributes(next);
+  const attributes = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return attributes
+    .filter(attribute => !sameValue(before[attribute], after[attribute]))
+    .map(attribute => ({ attribute, previousValue: before[attribute], newValue: after[attribute] }));
+}
+
+/**
+ * Mutable deep copy of a recorded version's attributes
+ */
+export function copyAttributes(attributes: Readonly<CoreAttributes>): CoreAttributes {
+  return cloneValue(attributes) as CoreAttributes;
+}
+
+function flattenAttributes(value: unknown, prefix: string = ''): Record<string, unknown> {
+  const flattened: Record<string, unknown> = {};
+  if (!isPlainObject(value)) {
+    return flattened;
+  }
+  Object.entries(value).forEach(([key, entry]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(entry)) {
+      Object.assign(flattened, flattenAttributes(entry, path));
+    } else if (entry !== undefined) {
+      flattened[path] = entry;
+    }
+  });
+  return flattened;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => sameValue(item, b[index]));
+  }
+  return a === b;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function cloneValue<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item)) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    const clone: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      clone[key] = cloneValue(entry);
+    });
+    return clone as T;
+  }
+  return value;
+}
+
+function deepFreeze<T>(value: T): T {
+  // Freezing cannot stop a Date's setters, so dates are copied on the way in and out
+  if (typeof value === 'object' && value !== null && !(value instanceof Date) && !Object.isFrozen(value)) {
+    Object.values(value).forEach(entry => deepFreeze(entry));
+    Object.freeze(value);
+  }
+  return value;
+}
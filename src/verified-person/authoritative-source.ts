@@ -0,0 +1,267 @@
+/**
+ * Authoritative Source Validation
+ * Confirms identity evidence with the authority that issued it, such as a
+ * provincial registry or the passport office
+ */
+
+import { CoreAttributes, IdentityEvidence } from './identity-provider';
+import { normaliseToken, sameDay } from './normalisation';
+
+export enum AuthoritativeSourceStatus {
+  CONFIRMED = 'CONFIRMED',
+  NOT_FOUND = 'NOT_FOUND',
+  MISMATCH = 'MISMATCH', // record exists but some details differ
+  REVOKED = 'REVOKED', // reported lost, stolen or cancelled
+  UNAVAILABLE = 'UNAVAILABLE'
+}
+
+/**
+ * What the issuer is asked to confirm
+ */
+export interface AuthoritativeSourceQuery {
+  issuer: string;
+  evidenceType: string;
+  documentNumber: string;
+  familyName?: string;
+  givenName?: string;
+  dateOfBirth?: Date;
+  expirationDate?: Date;
+}
+
+export interface AuthoritativeSourceResponse {
+  status: AuthoritativeSourceStatus;
+  mismatchedFields?: string[];
+  reference?: string; // issuer's transaction or record reference
+  message?: string;
+}
+
+/**
+ * Connection to one issuing authority's validation service
+ */
+export interface AuthoritativeSourceConnector {
+  connectorId: string;
+  lookup(query: AuthoritativeSourceQuery): Promise<AuthoritativeSourceResponse>;
+}
+
+export interface AuthoritativeSourcePolicy {
+  timeoutMs: number; // per attempt
+  maxRetries: number; // further attempts after a timeout, error or UNAVAILABLE
+  retryDelayMs: number;
+  cacheTtlMs: number; // definitive answers only; UNAVAILABLE is never cached
+}
+
+export const DEFAULT_AUTHORITATIVE_SOURCE_POLICY: AuthoritativeSourcePolicy = {
+  timeoutMs: 5000,
+  maxRetries: 2,
+  retryDelayMs: 250,
+  cacheTtlMs: 15 * 60 * 1000
+};
+
+/**
+ * Response with how it was obtained
+ */
+export interface AuthoritativeSourceResult extends AuthoritativeSourceResponse {
+  connectorId: string;
+  attempts: number; // 0 when served from cache
+  cached: boolean;
+  checkedAt: Date;
+}
+
+/**
+ * Authoritative Source Validator class
+ * Routes lookups by issuer and applies timeouts, retries and caching
+ */
+export class AuthoritativeSourceValidator {
+  private policy: AuthoritativeSourcePolicy;
+  private connectors: Map<string, AuthoritativeSourceConnector> = new Map();
+  private cache: Map<string, { result: AuthoritativeSourceResult; expiresAt: number }> = new Map();
+
+  constructor(policy: AuthoritativeSourcePolicy = DEFAULT_AUTHORITATIVE_SOURCE_POLICY) {
+    this.policy = policy;
+  }
+
+  /**
+   * Route lookups for evidence from these issuers to the connector
+   */
+  registerConnector(issuers: string | string[], connector: AuthoritativeSourceConnector): void {
+    (Array.isArray(issuers) ? issuers : [issuers]).forEach(issuer => {
+      this.connectors.set(normaliseIssuer(issuer), connector);
+    });
+  }
+
+  hasConnector(issuer: string): boolean {
+    return this.connectors.has(normaliseIssuer(issuer));
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Ask the evidence's issuer to confirm it. Returns undefined when no
+   * connector serves the issuer or the evidence has no document number.
+   */
+  async confirm(evidence: IdentityEvidence, claimedAttributes?: CoreAttributes): Promise<AuthoritativeSourceResult | undefined> {
+    const connector = this.connectors.get(normaliseIssuer(evidence.issuer));
+    const documentNumber = evidence.requiredFields.find(field => field.fieldName === 'documentNumber')?.value;
+    if (!connector || !documentNumber) {
+      return undefined;
+    }
+
+    const query: AuthoritativeSourceQuery = {
+      issuer: evidence.issuer,
+      evidenceType: evidence.evidenceType,
+      documentNumber: String(documentNumber),
+      familyName: claimedAttributes?.familyName,
+      givenName: claimedAttributes?.givenName,
+      dateOfBirth: claimedAttributes?.dateOfBirth,
+      expirationDate: evidence.expirationDate
+    };
+    const cacheKey = `${connector.connectorId}|${JSON.stringify(query)}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return { ...cached.result, attempts: 0, cached: true };
+    }
+
+    let response: AuthoritativeSourceResponse = { status: AuthoritativeSourceStatus.UNAVAILABLE };
+    let attempts = 0;
+    while (attempts <= this.policy.maxRetries) {
+      if (attempts > 0) {
+        await delay(this.policy.retryDelayMs);
+      }
+      attempts++;
+      try {
+        response = await withTimeout(connector.lookup(query), this.policy.timeoutMs);
+      } catch (error) {
+        response = {
+          status: AuthoritativeSourceStatus.UNAVAILABLE,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+      if (response.status !== AuthoritativeSourceStatus.UNAVAILABLE) {
+        break;
+      }
+    }
+
+    const result: AuthoritativeSourceResult = {
+      ...response,
+      connectorId: connector.connectorId,
+      attempts,
+      cached: false,
+      checkedAt: new Date()
+    };
+    if (result.status !== AuthoritativeSourceStatus.UNAVAILABLE) {
+      this.cache.set(cacheKey, { result, expiresAt: Date.now() + this.policy.cacheTtlMs });
+    }
+    return result;
+  }
+}
+
+/**
+ * Record held by an in-memory issuer registry
+ */
+export interface IssuerRecord {
+  documentNumber: string;
+  familyName?: string;
+  givenName?: string;
+  dateOfBirth?: Date;
+  expirationDate?: Date;
+  revoked?: boolean;
+}
+
+/**
+ * In-memory stand-in for an issuer's registry, for tests and demos. Outages
+ * and latency can be simulated to exercise retries and timeouts.
+ */
+export class InMemoryIssuerRegistry implements AuthoritativeSourceConnector {
+  public connectorId: string;
+  private records: Map<string, IssuerRecord> = new Map();
+  private outageLookups = 0;
+  private latencyMs = 0;
+  private lookupCount = 0;
+
+  constructor(connectorId: string, records: IssuerRecord[] = []) {
+    this.connectorId = connectorId;
+    records.forEach(record => this.addRecord(record));
+  }
+
+  addRecord(record: IssuerRecord): void {
+    this.records.set(normaliseToken(record.documentNumber), record);
+  }
+
+  revoke(documentNumber: string): void {
+    const record = this.records.get(normaliseToken(documentNumber));
+    if (record) {
+      record.revoked = true;
+    }
+  }
+
+  /**
+   * The next `lookups` lookups report UNAVAILABLE
+   */
+  simulateOutage(lookups: number): void {
+    this.outageLookups = lookups;
+  }
+
+  simulateLatency(latencyMs: number): void {
+    this.latencyMs = latencyMs;
+  }
+
+  getLookupCount(): number {
+    return this.lookupCount;
+  }
+
+  async lookup(query: AuthoritativeSourceQuery): Promise<AuthoritativeSourceResponse> {
+    this.lookupCount++;
+    if (this.latencyMs > 0) {
+      await delay(this.latencyMs);
+    }
+    if (this.outageLookups > 0) {
+      this.outageLookups--;
+      return { status: AuthoritativeSourceStatus.UNAVAILABLE, message: `${this.connectorId} unavailable` };
+    }
+
+    const record = this.records.get(normaliseToken(query.documentNumber));
+    const reference = `${this.connectorId}-${this.lookupCount}`;
+    if (!record) {
+      return { status: AuthoritativeSourceStatus.NOT_FOUND, reference };
+    }
+    if (record.revoked) {
+      return { status: AuthoritativeSourceStatus.REVOKED, reference };
+    }
+
+    const mismatchedFields: string[] = [];
+    if (record.familyName && query.familyName && normaliseToken(record.familyName) !== normaliseToken(query.familyName)) {
+      mismatchedFields.push('familyName');
+    }
+    if (record.givenName && query.givenName && normaliseToken(record.givenName) !== normaliseToken(query.givenName)) {
+      mismatchedFields.push('givenName');
+    }
+    if (record.dateOfBirth && query.dateOfBirth && !sameDay(record.dateOfBirth, query.dateOfBirth)) {
+      mismatchedFields.push('dateOfBirth');
+    }
+    if (record.expirationDate && query.expirationDate && !sameDay(record.expirationDate, query.expirationDate)) {
+      mismatchedFields.push('expirationDate');
+    }
+
+    return mismatchedFields.length > 0
+      ? { status: AuthoritativeSourceStatus.MISMATCH, mismatchedFields, reference }
+      : { status: AuthoritativeSourceStatus.CONFIRMED, reference };
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Lookup timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function normaliseIssuer(issuer: string): string {
+  return (issuer || '').trim().toLowerCase();
+}
@@ -0,0 +1,373 @@
+/**
+ * Document Authenticity
+ * Machine-readable data checks for Canadian identity documents: AAMVA PDF417
+ * barcodes on driver's licences and provincial ID cards, and passport MRZs
+ */
+
+import { CoreAttributes, IdentityEvidence } from './identity-provider';
+import { isoDate, normaliseToken, sameDay } from './normalisation';
+
+export enum FindingSeverity {
+  INFO = 'INFO',
+  WARNING = 'WARNING',
+  FAILURE = 'FAILURE' // fails the check it belongs to
+}
+
+/**
+ * One observation made while validating evidence
+ */
+export interface ValidationFinding {
+  code: string;
+  severity: FindingSeverity;
+  message: string;
+  field?: string;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Fields common to documents read from a barcode or MRZ
+ */
+export interface MachineReadableDocument {
+  documentNumber?: string;
+  familyName?: string;
+  givenNames?: string;
+  dateOfBirth?: Date;
+  expiryDate?: Date;
+  postalCode?: string;
+}
+
+/**
+ * Driver's licence or ID card data from an AAMVA PDF417 barcode
+ */
+export interface AamvaBarcodeData extends MachineReadableDocument {
+  issuerIdentificationNumber: string;
+  aamvaVersion: number;
+  documentType: string; // DL or ID
+  jurisdiction?: string;
+  country?: string;
+  issueDate?: Date;
+  streetAddress?: string;
+  city?: string;
+  elements: Record<string, string>; // raw data elements by id, e.g. DAQ
+}
+
+/**
+ * Passport data from a TD3 machine readable zone
+ */
+export interface PassportMrzData extends MachineReadableDocument {
+  documentCode: string;
+  issuingState: string;
+  nationality: string;
+  sex: string;
+  personalNumber: string;
+  namesTruncated: boolean; // the name field was filled, so names may be cut short
+  checkDigits: Record<'documentNumber' | 'dateOfBirth' | 'expiryDate' | 'personalNumber' | 'composite', boolean>;
+}
+
+/**
+ * AAMVA issuer identification numbers of Canadian jurisdictions
+ */
+export const CANADIAN_AAMVA_ISSUERS: Record<string, string> = {
+  '604426': 'PE',
+  '604428': 'QC',
+  '604429': 'YT',
+  '604430': 'NT',
+  '604432': 'AB',
+  '604433': 'NU',
+  '636012': 'ON',
+  '636013': 'NS',
+  '636016': 'NL',
+  '636017': 'NB',
+  '636028': 'BC',
+  '636044': 'SK',
+  '636048': 'MB'
+};
+
+const MANDATORY_AAMVA_ELEMENTS: Record<string, string> = {
+  DAQ: 'document number',
+  DBB: 'date of birth',
+  DBA: 'expiry date'
+};
+
+/**
+ * Parse the text of an AAMVA-compliant PDF417 barcode. Throws when the
+ * header is not AAMVA.
+ */
+export function parseAamvaBarcode(data: string): AamvaBarcodeData {
+  const header = /^@\s*\x1e?\s*(?:ANSI |AAMVA)(\d{6})(\d{2})(\d{2})?(\d{2})?((?:(?:DL|ID|Z[A-Z])\d{8})+)/.exec(data);
+  if (!header) {
+    throw new Error('Not an AAMVA barcode header');
+  }
+
+  const issuerIdentificationNumber = header[1];
+  const aamvaVersion = parseInt(header[2], 10);
+  const documentType = header[5].slice(0, 2);
+  const elements: Record<string, string> = {};
+
+  data.slice(header[0].length).split(/[\r\n]+/).forEach(rawLine => {
+    // The first element of each subfile follows the subfile type, e.g. "DLDAQ..."
+    const line = /^(?:DL|ID|Z[A-Z])(?=[DZ][A-Z]{2})/.test(rawLine) ? rawLine.slice(2) : rawLine;
+    const element = /^([DZ][A-Z]{2})(.*)$/.exec(line.trim());
+    if (element && elements[element[1]] === undefined) {
+      elements[element[1]] = element[2].trim();
+    }
+  });
+
+  const country = elements.DCG || (CANADIAN_AAMVA_ISSUERS[issuerIdentificationNumber] ? 'CAN' : undefined);
+  const canadianDates = country === 'CAN';
+  // Version 1 barcodes carry the whole name in DAA as "FAMILY,GIVEN,MIDDLE"
+  const legacyName = elements.DAA ? elements.DAA.split(/[,$]/).map(part => part.trim()) : [];
+
+  return {
+    issuerIdentificationNumber,
+    aamvaVersion,
+    documentType,
+    jurisdiction: elements.DAJ,
+    country,
+    documentNumber: elements.DAQ,
+    familyName: elements.DCS || legacyName[0],
+    givenNames: [elements.DAC || elements.DCT || legacyName[1], elements.DAD || legacyName[2]]
+      .filter(name => name && name !== 'NONE')
+      .join(' ') || undefined,
+    dateOfBirth: parseAamvaDate(elements.DBB, canadianDates),
+    expiryDate: parseAamvaDate(elements.DBA, canadianDates),
+    issueDate: parseAamvaDate(elements.DBD, canadianDates),
+    streetAddress: elements.DAG,
+    city: elements.DAI,
+    postalCode: elements.DAK,
+    elements
+  };
+}
+
+/**
+ * Structural checks on a licence or ID card barcode
+ */
+export function checkAamvaBarcode(data: string): { document?: AamvaBarcodeData; findings: ValidationFinding[] } {
+  let document: AamvaBarcodeData;
+  try {
+    document = parseAamvaBarcode(data);
+  } catch (error) {
+    return {
+      findings: [failure('BARCODE_HEADER_INVALID', error instanceof Error ? error.message : 'Unreadable barcode')]
+    };
+  }
+
+  const findings: ValidationFinding[] = [];
+  Object.entries(MANDATORY_AAMVA_ELEMENTS).forEach(([element, description]) => {
+    if (!document.elements[element]) {
+      findings.push(failure('BARCODE_ELEMENT_MISSING', `Barcode has no ${description}`, element));
+    }
+  });
+  if (!document.familyName) {
+    findings.push(failure('BARCODE_ELEMENT_MISSING', 'Barcode has no family name', 'DCS'));
+  }
+
+  (['DBB', 'DBA', 'DBD'] as const).forEach(element => {
+    if (document.elements[element] && !parseAamvaDate(document.elements[element], document.country === 'CAN')) {
+      findings.push(failure('BARCODE_DATE_INVALID', `Barcode date ${element} is not a valid date`, element, undefined, document.elements[element]));
+    }
+  });
+  if (document.issueDate && document.expiryDate && document.issueDate >= document.expiryDate) {
+    findings.push(failure('BARCODE_DATES_INCONSISTENT', 'Barcode issue date is not before its expiry date', 'DBD'));
+  }
+  if (document.dateOfBirth && document.issueDate && document.dateOfBirth >= document.issueDate) {
+    findings.push(failure('BARCODE_DATES_INCONSISTENT', 'Barcode date of birth is not before its issue date', 'DBB'));
+  }
+
+  const issuerJurisdiction = CANADIAN_AAMVA_ISSUERS[document.issuerIdentificationNumber];
+  if (!issuerJurisdiction) {
+    findings.push({
+      code: 'BARCODE_ISSUER_NOT_CANADIAN',
+      severity: FindingSeverity.WARNING,
+      message: `Issuer identification number ${document.issuerIdentificationNumber} is not a Canadian jurisdiction`
+    });
+  } else if (document.jurisdiction && document.jurisdiction !== issuerJurisdiction) {
+    findings.push(failure(
+      'BARCODE_JURISDICTION_MISMATCH',
+      'Barcode issuer does not match the jurisdiction it states',
+      'DAJ',
+      issuerJurisdiction,
+      document.jurisdiction
+    ));
+  }
+
+  return { document, findings };
+}
+
+/**
+ * ICAO 9303 check digit: weights 7, 3, 1 over digits, letters (A=10) and fillers (<=0)
+ */
+export function mrzCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    const charValue = char === '<' ? 0 : /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 55;
+    sum += charValue * weights[index % 3];
+  }
+  return sum % 10;
+}
+
+/**
+ * Parse a two-line TD3 (passport) MRZ. Throws when the format is wrong.
+ */
+export function parsePassportMrz(mrz: string): PassportMrzData {
+  const lines = mrz.trim().split(/\s*\n\s*/).map(line => line.trim().toUpperCase());
+  if (lines.length !== 2 || lines.some(line => !/^[A-Z0-9<]{44}$/.test(line))) {
+    throw new Error('Passport MRZ must be two lines of 44 characters');
+  }
+  const [first, second] = lines;
+
+  const nameField = first.slice(5);
+  const [family, given = ''] = nameField.split('<<');
+  const digitMatches = (field: string, digit: string) => digit === '<' ? /^<*$/.test(field) : mrzCheckDigit(field) === Number(digit);
+
+  return {
+    documentCode: first.slice(0, 2).replace(/</g, ''),
+    issuingState: first.slice(2, 5).replace(/</g, ''),
+    familyName: family.replace(/</g, ' ').trim(),
+    givenNames: given.replace(/</g, ' ').trim() || undefined,
+    namesTruncated: !nameField.endsWith('<'),
+    documentNumber: second.slice(0, 9).replace(/</g, ''),
+    nationality: second.slice(10, 13).replace(/</g, ''),
+    dateOfBirth: parseMrzDate(second.slice(13, 19), false),
+    sex: second[20],
+    expiryDate: parseMrzDate(second.slice(21, 27), true),
+    personalNumber: second.slice(28, 42).replace(/</g, ''),
+    checkDigits: {
+      documentNumber: digitMatches(second.slice(0, 9), second[9]),
+      dateOfBirth: digitMatches(second.slice(13, 19), second[19]),
+      expiryDate: digitMatches(second.slice(21, 27), second[27]),
+      personalNumber: digitMatches(second.slice(28, 42), second[42]),
+      composite: mrzCheckDigit(second.slice(0, 10) + second.slice(13, 20) + second.slice(21, 43)) === Number(second[43])
+    }
+  };
+}
+
+/**
+ * Format and check-digit verification of a passport MRZ
+ */
+export function checkPassportMrz(mrz: string): { document?: PassportMrzData; findings: ValidationFinding[] } {
+  let document: PassportMrzData;
+  try {
+    document = parsePassportMrz(mrz);
+  } catch (error) {
+    return { findings: [failure('MRZ_FORMAT_INVALID', error instanceof Error ? error.message : 'Unreadable MRZ')] };
+  }
+
+  const findings: ValidationFinding[] = [];
+  (Object.keys(document.checkDigits) as (keyof PassportMrzData['checkDigits'])[]).forEach(field => {
+    if (!document.checkDigits[field]) {
+      findings.push(failure('MRZ_CHECK_DIGIT_INVALID', `MRZ ${field} check digit does not match`, field));
+    }
+  });
+  if (!document.documentCode.startsWith('P')) {
+    findings.push(failure('MRZ_NOT_PASSPORT', `MRZ document code ${document.documentCode} is not a passport`, 'documentCode'));
+  }
+  if (!document.dateOfBirth || !document.expiryDate) {
+    findings.push(failure('MRZ_DATE_INVALID', 'MRZ date of birth or expiry date is not a valid date'));
+  }
+  if (document.issuingState !== 'CAN') {
+    findings.push({
+      code: 'MRZ_ISSUER_NOT_CANADIAN',
+      severity: FindingSeverity.INFO,
+      message: `Passport issued by ${document.issuingState}`
+    });
+  }
+
+  return { document, findings };
+}
+
+/**
+ * Compare machine-readable data with the evidence record and the identity
+ * attributes the applicant claimed
+ */
+export function checkDocumentConsistency(
+  document: MachineReadableDocument,
+  evidence: IdentityEvidence,
+  claimedAttributes?: CoreAttributes,
+  namesMayBeTruncated: boolean = false
+): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+
+  const recordedNumber = evidence.requiredFields.find(field => field.fieldName === 'documentNumber')?.value;
+  if (recordedNumber && document.documentNumber && normaliseToken(String(recordedNumber)) !== normaliseToken(document.documentNumber)) {
+    findings.push(failure('DOCUMENT_NUMBER_MISMATCH', 'Document number differs from the machine-readable data', 'documentNumber', document.documentNumber, String(recordedNumber)));
+  }
+  if (document.expiryDate && evidence.expirationDate && !sameDay(document.expiryDate, evidence.expirationDate)) {
+    findings.push(failure('EXPIRY_DATE_MISMATCH', 'Expiry date differs from the machine-readable data', 'expirationDate', isoDate(document.expiryDate), isoDate(evidence.expirationDate)));
+  }
+
+  if (!claimedAttributes) {
+    return findings;
+  }
+
+  if (document.familyName && !namesMatch(claimedAttributes.familyName, document.familyName, namesMayBeTruncated)) {
+    findings.push(failure('FAMILY_NAME_MISMATCH', 'Claimed family name differs from the document', 'familyName', document.familyName, claimedAttributes.familyName));
+  }
+  if (document.givenNames) {
+    const documentFirstName = document.givenNames.split(/\s+/)[0];
+    const claimedFirstName = (claimedAttributes.givenName || '').split(/[\s-]+/)[0];
+    if (!namesMatch(claimedFirstName, documentFirstName, namesMayBeTruncated) && !namesMatch(claimedAttributes.givenName, document.givenNames, namesMayBeTruncated)) {
+      findings.push(failure('GIVEN_NAME_MISMATCH', 'Claimed given name differs from the document', 'givenName', document.givenNames, claimedAttributes.givenName));
+    }
+  }
+  if (document.dateOfBirth && claimedAttributes.dateOfBirth && !sameDay(document.dateOfBirth, claimedAttributes.dateOfBirth)) {
+    findings.push(failure('DATE_OF_BIRTH_MISMATCH', 'Claimed date of birth differs from the document', 'dateOfBirth', isoDate(document.dateOfBirth), isoDate(claimedAttributes.dateOfBirth)));
+  }
+  if (document.postalCode && claimedAttributes.address?.postalCode &&
+      normaliseToken(document.postalCode).slice(0, 6) !== normaliseToken(claimedAttributes.address.postalCode).slice(0, 6)) {
+    // People move; the document may predate the claimed address
+    findings.push({
+      code: 'POSTAL_CODE_MISMATCH',
+      severity: FindingSeverity.WARNING,
+      message: 'Claimed postal code differs from the document',
+      field: 'postalCode',
+      expected: document.postalCode,
+      actual: claimedAttributes.address.postalCode
+    });
+  }
+
+  return findings;
+}
+
+function failure(code: string, message: string, field?: string, expected?: string, actual?: string): ValidationFinding {
+  return { code, severity: FindingSeverity.FAILURE, message, field, expected, actual };
+}
+
+function parseAamvaDate(value: string | undefined, yearFirst: boolean): Date | undefined {
+  if (!value || !/^\d{8}$/.test(value)) {
+    return undefined;
+  }
+  const [year, month, day] = yearFirst
+    ? [value.slice(0, 4), value.slice(4, 6), value.slice(6, 8)]
+    : [value.slice(4, 8), value.slice(0, 2), value.slice(2, 4)];
+  return utcDate(Number(year), Number(month), Number(day));
+}
+
+function parseMrzDate(value: string, future: boolean): Date | undefined {
+  if (!/^\d{6}$/.test(value)) {
+    return undefined;
+  }
+  const twoDigitYear = Number(value.slice(0, 2));
+  const currentTwoDigitYear = new Date().getUTCFullYear() % 100;
+  // Expiry dates are this century; birth dates are last century when later than this year
+  const century = future || twoDigitYear <= currentTwoDigitYear ? 2000 : 1900;
+  return utcDate(century + twoDigitYear, Number(value.slice(2, 4)), Number(value.slice(4, 6)));
+}
+
+function utcDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+}
+
+/**
+ * Names match ignoring case, accents and punctuation; a truncated document
+ * name matches a claimed name it is a prefix of
+ */
+function namesMatch(claimed: string, documentName: string, mayBeTruncated: boolean): boolean {
+  const a = normaliseToken(claimed);
+  const b = normaliseToken(documentName);
+  return a.length > 0 && (a === b || (mayBeTruncated && b.length > 0 && a.startsWith(b)));
+}
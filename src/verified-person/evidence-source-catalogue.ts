@@ -0,0 +1,546 @@
+/**
+ * Evidence Source Catalogue
+ * Acceptable sources of identity evidence with their trust levels, and the
+ * per-level rules an evidence package must satisfy
+ */
+
+import { readFile } from 'fs/promises';
+import { AssuranceLevel, EvidenceType } from '../shared/types';
+import { ASSURANCE_LEVEL_ORDER, meetsAssuranceLevel } from '../shared/assurance';
+import { EvidencePackage, EvidenceSource, IdentityEvidence } from './identity-provider';
+import {
+  EVIDENCE_STRENGTH_ORDER,
+  EvidenceStrength,
+  EvidenceStrengthGrade,
+  classifyEvidenceStrength,
+  meetsEvidenceStrength
+} from './evidence-strength';
+
+export enum EvidenceCategory {
+  PRIMARY = 'PRIMARY', // foundational, e.g. passport or birth certificate
+  SECONDARY = 'SECONDARY' // corroborating, e.g. health card or utility bill
+}
+
+/**
+ * A catalogued source of identity evidence
+ */
+export interface CatalogueEvidenceSource extends EvidenceSource {
+  category: EvidenceCategory;
+  maximumAssuranceLevel: AssuranceLevel; // highest level this source may be used to proof to
+  photo?: boolean; // bears a photograph of the holder
+  strength?: EvidenceStrength; // overrides the strength derived from trustLevel
+  issuingAuthority?: string;
+}
+
+/**
+ * One clause of a level's evidence rules, e.g. "one primary government photo ID"
+ */
+export interface EvidenceRequirementRule {
+  description: string;
+  count: number;
+  category?: EvidenceCategory;
+  evidenceTypes?: EvidenceType[];
+  requirePhoto?: boolean;
+  minimumTrustLevel?: number;
+  minimumStrength?: EvidenceStrength;
+}
+
+/**
+ * Catalogue document as loaded from JSON or YAML
+ */
+export interface EvidenceCatalogueDefinition {
+  sources: CatalogueEvidenceSource[];
+  rules: Partial<Record<AssuranceLevel, EvidenceRequirementRule[]>>;
+}
+
+export interface EvidenceRuleResult {
+  rule: EvidenceRequirementRule;
+  satisfied: boolean;
+  satisfiedBy: string[]; // evidence ids
+}
+
+/**
+ * Outcome of checking an evidence package against a level's rules
+ */
+export interface EvidenceRuleEvaluation {
+  assuranceLevel: AssuranceLevel;
+  satisfied: boolean;
+  rules: EvidenceRuleResult[];
+  unacceptedEvidence: { evidenceId: string; reason: string }[];
+  evidenceStrengths: EvidenceStrengthGrade[];
+}
+
+/**
+ * Highest assurance level an evidence package supports, and what the next level still needs
+ */
+export interface EvidenceAssessment {
+  maximumAssuranceLevel?: AssuranceLevel; // undefined when not even the lowest level is met
+  nextAssuranceLevel?: AssuranceLevel;
+  unmetRequirements: string[]; // for the next level
+  evidenceStrengths: EvidenceStrengthGrade[];
+  evaluations: EvidenceRuleEvaluation[];
+}
+
+export const DEFAULT_EVIDENCE_CATALOGUE: EvidenceCatalogueDefinition = {
+  sources: [
+    { sourceId: 'CA-PASSPORT', sourceName: 'Canadian Passport', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 95, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: true, issuingAuthority: 'IRCC' },
+    { sourceId: 'CA-PR-CARD', sourceName: 'Permanent Resident Card', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 90, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: true, issuingAuthority: 'IRCC' },
+    { sourceId: 'CA-CITIZENSHIP-CERTIFICATE', sourceName: 'Canadian Citizenship Certificate', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 85, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: false, issuingAuthority: 'IRCC' },
+    { sourceId: 'PT-DRIVERS-LICENCE', sourceName: 'Provincial or Territorial Driver\'s Licence', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 85, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: true },
+    { sourceId: 'PT-PHOTO-ID', sourceName: 'Provincial or Territorial Photo Identification Card', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 85, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: true },
+    { sourceId: 'PT-BIRTH-CERTIFICATE', sourceName: 'Provincial or Territorial Birth Certificate', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 80, category: EvidenceCategory.PRIMARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: false },
+    { sourceId: 'PT-HEALTH-CARD', sourceName: 'Provincial or Territorial Health Card', evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID, trustLevel: 60, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA3, photo: false },
+    { sourceId: 'FACE-COMPARISON', sourceName: 'Facial Comparison Against Document Portrait', evidenceType: EvidenceType.BIOMETRIC, trustLevel: 80, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA4, photo: false },
+    { sourceId: 'FINANCIAL-STATEMENT', sourceName: 'Financial Institution Statement', evidenceType: EvidenceType.DOCUMENT_VERIFICATION, trustLevel: 50, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA2, photo: false },
+    { sourceId: 'UTILITY-BILL', sourceName: 'Utility Bill', evidenceType: EvidenceType.DOCUMENT_VERIFICATION, trustLevel: 40, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA2, photo: false },
+    { sourceId: 'CREDIT-BUREAU', sourceName: 'Credit Bureau Knowledge Check', evidenceType: EvidenceType.KNOWLEDGE_BASED, trustLevel: 50, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA2, photo: false },
+    { sourceId: 'VOUCHING', sourceName: 'Vouching by a Known Person', evidenceType: EvidenceType.SOCIAL_VERIFICATION, trustLevel: 30, category: EvidenceCategory.SECONDARY, maximumAssuranceLevel: AssuranceLevel.LOA1, photo: false }
+  ],
+  rules: {
+    [AssuranceLevel.LOA1]: [
+      { description: 'One piece of evidence', count: 1 }
+    ],
+    [AssuranceLevel.LOA2]: [
+      { description: 'One fair primary evidence', category: EvidenceCategory.PRIMARY, minimumStrength: EvidenceStrength.FAIR, count: 1 }
+    ],
+    [AssuranceLevel.LOA3]: [
+      { description: 'One strong primary government photo ID', category: EvidenceCategory.PRIMARY, evidenceTypes: [EvidenceType.GOVERNMENT_ISSUED_ID], requirePhoto: true, minimumStrength: EvidenceStrength.STRONG, count: 1 },
+      { description: 'One fair secondary evidence', category: EvidenceCategory.SECONDARY, minimumStrength: EvidenceStrength.FAIR, count: 1 }
+    ],
+    [AssuranceLevel.LOA4]: [
+      { description: 'One superior primary government photo ID', category: EvidenceCategory.PRIMARY, evidenceTypes: [EvidenceType.GOVERNMENT_ISSUED_ID], requirePhoto: true, minimumStrength: EvidenceStrength.SUPERIOR, count: 1 },
+      { description: 'A second strong primary evidence', category: EvidenceCategory.PRIMARY, minimumStrength: EvidenceStrength.STRONG, count: 1 },
+      { description: 'One fair secondary evidence', category: EvidenceCategory.SECONDARY, minimumStrength: EvidenceStrength.FAIR, count: 1 }
+    ]
+  }
+};
+
+/**
+ * Evidence Source Catalogue class
+ */
+export class EvidenceSourceCatalogue {
+  private sources: Map<string, CatalogueEvidenceSource> = new Map();
+  private rules: Partial<Record<AssuranceLevel, EvidenceRequirementRule[]>>;
+
+  constructor(definition: EvidenceCatalogueDefinition = DEFAULT_EVIDENCE_CATALOGUE) {
+    const problems = validateCatalogueDefinition(definition);
+    if (problems.length > 0) {
+      throw new Error(`Invalid evidence catalogue: ${problems.join('; ')}`);
+    }
+    definition.sources.forEach(source => this.sources.set(source.sourceId, { ...source }));
+    this.rules = definition.rules;
+  }
+
+  static fromJson(json: string): EvidenceSourceCatalogue {
+    return new EvidenceSourceCatalogue(JSON.parse(json));
+  }
+
+  /**
+   * Load from YAML using block mappings and sequences, flow sequences and plain or quoted scalars
+   */
+  static fromYaml(yaml: string): EvidenceSourceCatalogue {
+    return new EvidenceSourceCatalogue(parseYaml(yaml) as EvidenceCatalogueDefinition);
+  }
+
+  /**
+   * Load a .json, .yaml or .yml catalogue file
+   */
+  static async fromFile(path: string): Promise<EvidenceSourceCatalogue> {
+    const content = await readFile(path, 'utf8');
+    return /\.ya?ml$/i.test(path) ? EvidenceSourceCatalogue.fromYaml(content) : EvidenceSourceCatalogue.fromJson(content);
+  }
+
+  getSource(sourceId: string): CatalogueEvidenceSource | undefined {
+    return this.sources.get(sourceId);
+  }
+
+  getSources(): CatalogueEvidenceSource[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * Sources of a type that may be used when proofing to the given level, most trusted first
+   */
+  getAcceptableSources(evidenceType: EvidenceType, assuranceLevel: AssuranceLevel): CatalogueEvidenceSource[] {
+    return this.getSources()
+      .filter(source => source.evidenceType === evidenceType && meetsAssuranceLevel(source.maximumAssuranceLevel, assuranceLevel))
+      .sort((a, b) => b.trustLevel - a.trustLevel);
+  }
+
+  getRules(assuranceLevel: AssuranceLevel): EvidenceRequirementRule[] {
+    return this.rules[assuranceLevel] || [];
+  }
+
+  /**
+   * Grade evidence by the catalogued source it names
+   */
+  gradeEvidence(evidence: IdentityEvidence, at: Date = new Date()): EvidenceStrengthGrade {
+    const source = evidence.sourceId ? this.sources.get(evidence.sourceId) : undefined;
+    return classifyEvidenceStrength(evidence, source?.evidenceType === evidence.evidenceType ? source : undefined, at);
+  }
+
+  /**
+   * Check an evidence package against a level's rules. Each piece of evidence
+   * counts towards at most one rule; evidence is identified by its sourceId.
+   * Expired evidence is never accepted.
+   */
+  evaluate(evidencePackage: EvidencePackage, assuranceLevel: AssuranceLevel, at: Date = new Date()): EvidenceRuleEvaluation {
+    const unacceptedEvidence: { evidenceId: string; reason: string }[] = [];
+    const accepted: { evidence: IdentityEvidence; source: CatalogueEvidenceSource; strength: EvidenceStrength }[] = [];
+    const evidenceStrengths: EvidenceStrengthGrade[] = [];
+
+    [...evidencePackage.primaryEvidence, ...(evidencePackage.secondaryEvidence || [])].forEach(evidence => {
+      const source = evidence.sourceId ? this.sources.get(evidence.sourceId) : undefined;
+      const grade = this.gradeEvidence(evidence, at);
+      evidenceStrengths.push(grade);
+      if (!source) {
+        unacceptedEvidence.push({ evidenceId: evidence.evidenceId, reason: evidence.sourceId ? `Unknown source ${evidence.sourceId}` : 'No evidence source given' });
+      } else if (evidence.expirationDate && evidence.expirationDate <= at) {
+        unacceptedEvidence.push({ evidenceId: evidence.evidenceId, reason: 'Evidence has expired' });
+      } else if (source.evidenceType !== evidence.evidenceType) {
+        unacceptedEvidence.push({ evidenceId: evidence.evidenceId, reason: `${source.sourceId} provides ${source.evidenceType} evidence` });
+      } else if (!meetsAssuranceLevel(source.maximumAssuranceLevel, assuranceLevel)) {
+        unacceptedEvidence.push({ evidenceId: evidence.evidenceId, reason: `${source.sourceId} is not accepted at ${assuranceLevel}` });
+      } else {
+        accepted.push({ evidence, source, strength: grade.strength });
+      }
+    });
+
+    // Expand rules into slots and match evidence to slots (augmenting paths),
+    // so evidence that fits several rules is placed where it is needed
+    const rules = this.getRules(assuranceLevel);
+    const slots = rules.flatMap((rule, ruleIndex) => Array(rule.count).fill(ruleIndex) as number[]);
+    const slotEvidence: (number | undefined)[] = slots.map(() => undefined);
+    const assign = (evidenceIndex: number, visited: Set<number>): boolean => {
+      for (let slot = 0; slot < slots.length; slot++) {
+        if (visited.has(slot) || !ruleAccepts(rules[slots[slot]], accepted[evidenceIndex].source, accepted[evidenceIndex].strength)) {
+          continue;
+        }
+        visited.add(slot);
+        if (slotEvidence[slot] === undefined || assign(slotEvidence[slot]!, visited)) {
+          slotEvidence[slot] = evidenceIndex;
+          return true;
+        }
+      }
+      return false;
+    };
+    accepted.forEach((_entry, evidenceIndex) => assign(evidenceIndex, new Set()));
+
+    const results: EvidenceRuleResult[] = rules.map((rule, ruleIndex) => {
+      const satisfiedBy = slots
+        .map((slotRule, slot) => slotRule === ruleIndex && slotEvidence[slot] !== undefined ? accepted[slotEvidence[slot]!].evidence.evidenceId : undefined)
+        .filter((evidenceId): evidenceId is string => evidenceId !== undefined);
+      return { rule, satisfied: satisfiedBy.length >= rule.count, satisfiedBy };
+    });
+
+    return {
+      assuranceLevel,
+      satisfied: results.every(result => result.satisfied),
+      rules: results,
+      unacceptedEvidence,
+      evidenceStrengths
+    };
+  }
+
+  /**
+   * Find the highest level whose rules the package meets, taking levels in
+   * order, and explain what the next level up is missing
+   */
+  assess(evidencePackage: EvidencePackage, at: Date = new Date()): EvidenceAssessment {
+    const evaluations: EvidenceRuleEvaluation[] = [];
+    let maximumAssuranceLevel: AssuranceLevel | undefined;
+    let nextAssuranceLevel: AssuranceLevel | undefined;
+    const unmetRequirements: string[] = [];
+
+    for (const level of ASSURANCE_LEVEL_ORDER) {
+      if (!this.rules[level]) {
+        continue;
+      }
+      const evaluation = this.evaluate(evidencePackage, level, at);
+      evaluations.push(evaluation);
+      if (!evaluation.satisfied) {
+        nextAssuranceLevel = level;
+        evaluation.rules
+          .filter(result => !result.satisfied)
+          .forEach(result => unmetRequirements.push(`${result.rule.description} (${result.satisfiedBy.length} of ${result.rule.count})`));
+        evaluation.unacceptedEvidence.forEach(unaccepted => unmetRequirements.push(`${unaccepted.evidenceId}: ${unaccepted.reason}`));
+        break;
+      }
+      maximumAssuranceLevel = level;
+    }
+
+    return {
+      maximumAssuranceLevel,
+      nextAssuranceLevel,
+      unmetRequirements,
+      evidenceStrengths: evaluations.length > 0 ? evaluations[0].evidenceStrengths : [],
+      evaluations
+    };
+  }
+}
+
+function ruleAccepts(rule: EvidenceRequirementRule, source: CatalogueEvidenceSource, strength: EvidenceStrength): boolean {
+  return (!rule.category || rule.category === source.category) &&
+    (!rule.evidenceTypes || rule.evidenceTypes.includes(source.evidenceType)) &&
+    (!rule.requirePhoto || source.photo === true) &&
+    (rule.minimumTrustLevel === undefined || source.trustLevel >= rule.minimumTrustLevel) &&
+    (!rule.minimumStrength || meetsEvidenceStrength(strength, rule.minimumStrength));
+}
+
+function validateCatalogueDefinition(definition: EvidenceCatalogueDefinition): string[] {
+  const problems: string[] = [];
+  const evidenceTypes = Object.values(EvidenceType) as string[];
+  const categories = Object.values(EvidenceCategory) as string[];
+  const seen = new Set<string>();
+
+  if (!definition || !Array.isArray(definition.sources)) {
+    return ['sources must be a list'];
+  }
+
+  definition.sources.forEach((source, index) => {
+    const label = source?.sourceId || `sources[${index}]`;
+    if (!source?.sourceId || !source.sourceName) {
+      problems.push(`${label} needs a sourceId and sourceName`);
+    } else if (seen.has(source.sourceId)) {
+      problems.push(`${label} is defined more than once`);
+    }
+    seen.add(source?.sourceId);
+    if (!evidenceTypes.includes(source?.evidenceType)) {
+      problems.push(`${label} has unknown evidenceType ${source?.evidenceType}`);
+    }
+    if (!categories.includes(source?.category)) {
+      problems.push(`${label} has unknown category ${source?.category}`);
+    }
+    if (!ASSURANCE_LEVEL_ORDER.includes(source?.maximumAssuranceLevel)) {
+      problems.push(`${label} has unknown maximumAssuranceLevel ${source?.maximumAssuranceLevel}`);
+    }
+    if (typeof source?.trustLevel !== 'number' || source.trustLevel < 0 || source.trustLevel > 100) {
+      problems.push(`${label} trustLevel must be between 0 and 100`);
+    }
+    if (source?.strength && !EVIDENCE_STRENGTH_ORDER.includes(source.strength)) {
+      problems.push(`${label} has unknown strength ${source.strength}`);
+    }
+  });
+
+  Object.entries(definition.rules || {}).forEach(([level, rules]) => {
+    if (!ASSURANCE_LEVEL_ORDER.includes(level as AssuranceLevel)) {
+      problems.push(`rules given for unknown assurance level ${level}`);
+    }
+    (rules || []).forEach((rule, index) => {
+      if (!Number.isInteger(rule.count) || rule.count < 1) {
+        problems.push(`${level} rule ${index + 1} count must be a positive integer`);
+      }
+      if (rule.minimumStrength && !EVIDENCE_STRENGTH_ORDER.includes(rule.minimumStrength)) {
+        problems.push(`${level} rule ${index + 1} has unknown minimumStrength ${rule.minimumStrength}`);
+      }
+      if (rule.category && !categories.includes(rule.category)) {
+        problems.push(`${level} rule ${index + 1} has unknown category ${rule.category}`);
+      }
+      (rule.evidenceTypes || []).filter(type => !evidenceTypes.includes(type)).forEach(type => {
+        problems.push(`${level} rule ${index + 1} has unknown evidenceType ${type}`);
+      });
+    });
+  });
+
+  return problems;
+}
+
+interface YamlLine {
+  number: number;
+  indent: number;
+  content: string;
+}
+
+/**
+ * Parse the YAML subset catalogue files use. Anchors, tags, flow mappings
+ * and multi-line scalars are not supported.
+ */
+function parseYaml(yaml: string): unknown {
+  const lines: YamlLine[] = [];
+  yaml.split(/\r?\n/).forEach((raw, index) => {
+    const content = stripYamlComment(raw).trimEnd();
+    if (content.trim() === '' || content.trim() === '---') {
+      return;
+    }
+    const indent = content.search(/\S/);
+    if (content.slice(0, indent).includes('\t')) {
+      throw new Error(`YAML line ${index + 1}: tabs are not allowed in indentation`);
+    }
+    lines.push({ number: index + 1, indent, content: content.slice(indent) });
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+  const [value, next] = parseYamlNode(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw new Error(`YAML line ${lines[next].number}: unexpected indentation`);
+  }
+  return value;
+}
+
+function parseYamlNode(lines: YamlLine[], position: number, indent: number): [unknown, number] {
+  return isSequenceItem(lines[position].content)
+    ? parseYamlSequence(lines, position, indent)
+    : parseYamlMapping(lines, position, indent);
+}
+
+function parseYamlSequence(lines: YamlLine[], position: number, indent: number): [unknown[], number] {
+  const items: unknown[] = [];
+
+  while (position < lines.length && lines[position].indent === indent && isSequenceItem(lines[position].content)) {
+    const line = lines[position];
+    const rest = line.content.slice(1).trimStart();
+
+    if (rest === '') {
+      const child = lines[position + 1];
+      if (!child || child.indent <= indent) {
+        items.push(null);
+        position++;
+      } else {
+        const [value, next] = parseYamlNode(lines, position + 1, child.indent);
+        items.push(value);
+        position = next;
+      }
+    } else if (mappingKey(rest)) {
+      // "- key: value" starts a mapping indented to where its first key begins
+      const itemIndent = indent + line.content.length - rest.length;
+      lines[position] = { ...line, indent: itemIndent, content: rest };
+      const [value, next] = parseYamlMapping(lines, position, itemIndent);
+      items.push(value);
+      position = next;
+    } else {
+      items.push(parseYamlScalar(rest, line.number));
+      position++;
+    }
+  }
+
+  return [items, position];
+}
+
+function parseYamlMapping(lines: YamlLine[], position: number, indent: number): [Record<string, unknown>, number] {
+  const mapping: Record<string, unknown> = {};
+
+  while (position < lines.length && lines[position].indent >= indent) {
+    const line = lines[position];
+    if (line.indent > indent) {
+      throw new Error(`YAML line ${line.number}: unexpected indentation`);
+    }
+    const key = mappingKey(line.content);
+    if (!key) {
+      throw new Error(`YAML line ${line.number}: expected "key: value"`);
+    }
+    if (Object.prototype.hasOwnProperty.call(mapping, key.name)) {
+      throw new Error(`YAML line ${line.number}: duplicate key ${key.name}`);
+    }
+
+    const child = lines[position + 1];
+    if (key.value !== '') {
+      mapping[key.name] = parseYamlScalar(key.value, line.number);
+      position++;
+    } else if (child && (child.indent > indent || (child.indent === indent && isSequenceItem(child.content)))) {
+      const [value, next] = parseYamlNode(lines, position + 1, child.indent);
+      mapping[key.name] = value;
+      position = next;
+    } else {
+      mapping[key.name] = null;
+      position++;
+    }
+  }
+
+  return [mapping, position];
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+function mappingKey(content: string): { name: string; value: string } | undefined {
+  const match = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'\[\]{}#,][^:]*?)\s*:(?:\s+(.*))?$/.exec(content);
+  if (!match) {
+    return undefined;
+  }
+  const name = /^["']/.test(match[1]) ? String(parseYamlScalar(match[1], 0)) : match[1];
+  return { name, value: (match[2] || '').trim() };
+}
+
+function parseYamlScalar(text: string, lineNumber: number): unknown {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new Error(`YAML line ${lineNumber}: invalid double-quoted string`);
+    }
+  }
+  if (text.startsWith('\'')) {
+    if (!/^'(?:[^']|'')*'$/.test(text)) {
+      throw new Error(`YAML line ${lineNumber}: invalid single-quoted string`);
+    }
+    return text.slice(1, -1).replace(/''/g, '\'');
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new Error(`YAML line ${lineNumber}: unterminated flow sequence`);
+    }
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlowItems(inner).map(item => parseYamlScalar(item.trim(), lineNumber));
+  }
+  if (text.startsWith('{') || text.startsWith('&') || text.startsWith('*') || text.startsWith('!') || text.startsWith('|') || text.startsWith('>')) {
+    throw new Error(`YAML line ${lineNumber}: unsupported YAML construct`);
+  }
+  if (/^(true|false)$/.test(text)) {
+    return text === 'true';
+  }
+  if (/^(null|~)$/.test(text)) {
+    return null;
+  }
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+function splitFlowItems(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | undefined;
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (opensQuote(text, index)) {
+      quote = char;
+    } else if (char === ',') {
+      items.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  items.push(text.slice(start));
+  return items;
+}
+
+function stripYamlComment(line: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (opensQuote(line, index)) {
+      quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
+
+/**
+ * Quotes only start a string at the beginning of a scalar, so apostrophes in plain text are literal
+ */
+function opensQuote(text: string, index: number): boolean {
+  return (text[index] === '"' || text[index] === '\'') && (index === 0 || /[\s\[,]/.test(text[index - 1]));
+}
@@ -0,0 +1,85 @@
+/**
+ * Evidence Strength
+ * Grades identity evidence as weak, fair, strong or superior
+ */
+
+import { IdentityEvidence } from './identity-provider';
+import { CatalogueEvidenceSource } from './evidence-source-catalogue';
+
+export enum EvidenceStrength {
+  WEAK = 'WEAK',
+  FAIR = 'FAIR',
+  STRONG = 'STRONG',
+  SUPERIOR = 'SUPERIOR'
+}
+
+export const EVIDENCE_STRENGTH_ORDER: readonly EvidenceStrength[] = [
+  EvidenceStrength.WEAK,
+  EvidenceStrength.FAIR,
+  EvidenceStrength.STRONG,
+  EvidenceStrength.SUPERIOR
+];
+
+/**
+ * Grade given to one piece of evidence, with what lowered it
+ */
+export interface EvidenceStrengthGrade {
+  evidenceId: string;
+  sourceId?: string;
+  strength: EvidenceStrength;
+  reasons: string[];
+}
+
+export function meetsEvidenceStrength(achieved: EvidenceStrength, required: EvidenceStrength): boolean {
+  return EVIDENCE_STRENGTH_ORDER.indexOf(achieved) >= EVIDENCE_STRENGTH_ORDER.indexOf(required);
+}
+
+/**
+ * Strength a source's evidence carries when current and complete. A source's
+ * explicit strength wins; otherwise it follows the trust level, and only
+ * photo-bearing sources reach SUPERIOR.
+ */
+export function sourceEvidenceStrength(source: CatalogueEvidenceSource): EvidenceStrength {
+  if (source.strength) {
+    return source.strength;
+  }
+  if (source.trustLevel >= 90) {
+    return source.photo ? EvidenceStrength.SUPERIOR : EvidenceStrength.STRONG;
+  }
+  if (source.trustLevel >= 75) {
+    return EvidenceStrength.STRONG;
+  }
+  return source.trustLevel >= 50 ? EvidenceStrength.FAIR : EvidenceStrength.WEAK;
+}
+
+/**
+ * Grade a piece of evidence from its catalogued source, downgrading it when
+ * expired or missing required fields
+ */
+export function classifyEvidenceStrength(
+  evidence: IdentityEvidence,
+  source: CatalogueEvidenceSource | undefined,
+  at: Date = new Date()
+): EvidenceStrengthGrade {
+  const grade = (strength: EvidenceStrength, reasons: string[]): EvidenceStrengthGrade =>
+    ({ evidenceId: evidence.evidenceId, sourceId: source?.sourceId, strength, reasons });
+
+  if (!source) {
+    return grade(EvidenceStrength.WEAK, ['Evidence source is not catalogued']);
+  }
+  if (evidence.expirationDate && evidence.expirationDate <= at) {
+    return grade(EvidenceStrength.WEAK, ['Evidence has expired']);
+  }
+
+  const reasons: string[] = [];
+  let index = EVIDENCE_STRENGTH_ORDER.indexOf(sourceEvidenceStrength(source));
+  const missingFields = evidence.requiredFields
+    .filter(field => field.isRequired && (field.value === null || field.value === undefined || field.value === ''))
+    .map(field => field.fieldName);
+  if (missingFields.length > 0 && index > 0) {
+    index--;
+    reasons.push(`Missing required fields: ${missingFields.join(', ')}`);
+  }
+
+  return grade(EVIDENCE_STRENGTH_ORDER[index], reasons);
+}
@@ -0,0 +1,264 @@
+/**
+ * Duplicate Identity Detection
+ * Uniqueness checks run before a verified person is established, so one
+ * real person is not given two person ids
+ */
+
+import { BiometricEvidence, BiometricTemplateMatcher } from '../shared/biometrics';
+import {
+  Address,
+  CoreAttributes,
+  EvidencePackage,
+  IdentityInformation,
+  VerifiedPerson
+} from './identity-provider';
+import { normaliseDocumentType } from './identity-resolution';
+import { normaliseToken } from './normalisation';
+
+export { BiometricTemplateMatcher } from '../shared/biometrics';
+
+export interface DuplicateDetectionPolicy {
+  attributeMatchThreshold: number; // weighted name, date of birth and address similarity 0-1
+  biometricMatchThreshold: number;
+}
+
+export const DEFAULT_DUPLICATE_DETECTION_POLICY: DuplicateDetectionPolicy = {
+  attributeMatchThreshold: 0.85,
+  biometricMatchThreshold: 0.9
+};
+
+/**
+ * An established person the candidate may duplicate, and why
+ */
+export interface DuplicateMatch {
+  personId: string;
+  attributeScore: number;
+  matchedDocuments: string[];
+  biometricSimilarity?: number;
+  reasons: string[];
+}
+
+export enum AdjudicationStatus {
+  PENDING = 'PENDING',
+  CONFIRMED_DUPLICATE = 'CONFIRMED_DUPLICATE',
+  DISTINCT_PERSON = 'DISTINCT_PERSON'
+}
+
+/**
+ * A likely duplicate held back from establishment until someone decides it
+ */
+export interface DuplicateAdjudicationCase {
+  caseId: string;
+  personId: string; // id the candidate would be established under
+  identityInformation: IdentityInformation;
+  evidencePackage: EvidencePackage;
+  matches: DuplicateMatch[];
+  status: AdjudicationStatus;
+  createdAt: Date;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  resolutionNotes?: string;
+  duplicateOf?: string;
+}
+
+const NAME_WEIGHTS = { givenName: 0.2, familyName: 0.25 };
+const DATE_OF_BIRTH_WEIGHT = 0.35;
+const ADDRESS_WEIGHT = 0.2;
+
+/**
+ * Identity Deduplicator class
+ */
+export class IdentityDeduplicator {
+  private policy: DuplicateDetectionPolicy;
+  private biometricMatcher?: BiometricTemplateMatcher;
+
+  constructor(policy: DuplicateDetectionPolicy = DEFAULT_DUPLICATE_DETECTION_POLICY, biometricMatcher?: BiometricTemplateMatcher) {
+    this.policy = policy;
+    this.biometricMatcher = biometricMatcher;
+  }
+
+  linkBiometricTemplateMatcher(biometricMatcher: BiometricTemplateMatcher): void {
+    this.biometricMatcher = biometricMatcher;
+  }
+
+  /**
+   * Established persons the candidate likely duplicates, strongest first
+   */
+  async findDuplicates(
+    identityInformation: IdentityInformation,
+    evidencePackage: EvidencePackage,
+    establishedPersons: VerifiedPerson[]
+  ): Promise<DuplicateMatch[]> {
+    const matches: DuplicateMatch[] = [];
+    const candidateDocuments = documentKeys(identityInformation, evidencePackage);
+    const candidateTemplates = biometricTemplates(identityInformation, evidencePackage);
+
+    for (const person of establishedPersons) {
+      const reasons: string[] = [];
+
+      const attributeScore = scoreAttributeSimilarity(
+        identityInformation.coreAttributes,
+        person.identityInformation.coreAttributes
+      );
+      if (attributeScore >= this.policy.attributeMatchThreshold) {
+        reasons.push(`Name, date of birth and address similarity ${attributeScore.toFixed(2)}`);
+      }
+
+      const personDocuments = documentKeys(person.identityInformation, person.evidencePackage);
+      const matchedDocuments = candidateDocuments.filter(key => personDocuments.includes(key));
+      if (matchedDocuments.length > 0) {
+        reasons.push(`Document numbers already registered: ${matchedDocuments.join(', ')}`);
+      }
+
+      let biometricSimilarity: number | undefined;
+      if (this.biometricMatcher && candidateTemplates.length > 0) {
+        const referenceTemplates = biometricTemplates(person.identityInformation, person.evidencePackage);
+        for (const probe of candidateTemplates) {
+          for (const reference of referenceTemplates.filter(template => template.biometricType === probe.biometricType)) {
+            const similarity = await this.biometricMatcher.compare(probe, reference);
+            biometricSimilarity = Math.max(biometricSimilarity ?? 0, similarity);
+          }
+        }
+        if (biometricSimilarity !== undefined && biometricSimilarity >= this.policy.biometricMatchThreshold) {
+          reasons.push(`Biometric template similarity ${biometricSimilarity.toFixed(2)}`);
+        }
+      }
+
+      if (reasons.length > 0) {
+        matches.push({ personId: person.personId, attributeScore, matchedDocuments, biometricSimilarity, reasons });
+      }
+    }
+
+    return matches.sort((a, b) => b.reasons.length - a.reasons.length || b.attributeScore - a.attributeScore);
+  }
+}
+
+/**
+ * Weighted similarity of two people's core attributes, 0-1
+ */
+export function scoreAttributeSimilarity(candidate: CoreAttributes, existing: CoreAttributes): number {
+  const given = jaroWinkler(normaliseName(candidate.givenName), normaliseName(existing.givenName));
+  const family = jaroWinkler(normaliseName(candidate.familyName), normaliseName(existing.familyName));
+  // Given and family names recorded the other way round
+  const swapped = (
+    jaroWinkler(normaliseName(candidate.givenName), normaliseName(existing.familyName)) +
+    jaroWinkler(normaliseName(candidate.familyName), normaliseName(existing.givenName))
+  ) / 2;
+  const nameScore = Math.max(
+    (given * NAME_WEIGHTS.givenName + family * NAME_WEIGHTS.familyName) / (NAME_WEIGHTS.givenName + NAME_WEIGHTS.familyName),
+    swapped * 0.9
+  );
+
+  return nameScore * (NAME_WEIGHTS.givenName + NAME_WEIGHTS.familyName) +
+    dateOfBirthSimilarity(candidate.dateOfBirth, existing.dateOfBirth) * DATE_OF_BIRTH_WEIGHT +
+    addressSimilarity(candidate.address, existing.address) * ADDRESS_WEIGHT;
+}
+
+function dateOfBirthSimilarity(a: Date, b: Date): number {
+  if (!(a instanceof Date) || !(b instanceof Date) || isNaN(a.getTime()) || isNaN(b.getTime())) {
+    return 0;
+  }
+  const [ay, am, ad] = [a.getUTCFullYear(), a.getUTCMonth() + 1, a.getUTCDate()];
+  const [by, bm, bd] = [b.getUTCFullYear(), b.getUTCMonth() + 1, b.getUTCDate()];
+  if (ay === by && am === bm && ad === bd) {
+    return 1;
+  }
+  // Common keying errors: day and month transposed, or one component off
+  if (ay === by && am === bd && ad === bm) {
+    return 0.8;
+  }
+  const differingComponents = [ay !== by, am !== bm, ad !== bd].filter(Boolean).length;
+  return differingComponents === 1 ? 0.6 : 0;
+}
+
+function addressSimilarity(a: Address, b: Address): number {
+  if (!a || !b) {
+    return 0;
+  }
+  const sameToken = (x: string, y: string) => normaliseToken(x).length > 0 && normaliseToken(x) === normaliseToken(y);
+  const postalCode = sameToken(a.postalCode, b.postalCode) ? 1 : 0;
+  const street = jaroWinkler(normaliseToken(a.streetAddress), normaliseToken(b.streetAddress));
+  const city = sameToken(a.city, b.city) ? 1 : 0;
+  return postalCode * 0.4 + street * 0.4 + city * 0.2;
+}
+
+function documentKeys(identityInformation: IdentityInformation, evidencePackage?: EvidencePackage): string[] {
+  const keys = (identityInformation.supportingDocuments || [])
+    .filter(document => document.documentNumber)
+    .map(document => `${normaliseDocumentType(document.documentType)}:${normaliseToken(document.documentNumber)}`);
+
+  const evidence = [...(evidencePackage?.primaryEvidence || []), ...(evidencePackage?.secondaryEvidence || [])];
+  evidence.forEach(item => {
+    const documentNumber = item.requiredFields.find(field => field.fieldName === 'documentNumber')?.value;
+    if (documentNumber) {
+      keys.push(`${item.evidenceType}:${normaliseToken(String(documentNumber))}`);
+    }
+  });
+
+  return Array.from(new Set(keys));
+}
+
+function biometricTemplates(identityInformation: IdentityInformation, evidencePackage?: EvidencePackage): BiometricEvidence[] {
+  const biometricData = identityInformation.biometricData;
+  return [
+    ...(biometricData?.faceImage || []),
+    ...(biometricData?.fingerprints || []),
+    ...(biometricData?.iris || []),
+    ...(evidencePackage?.biometricEvidence || [])
+  ];
+}
+
+function normaliseName(value: string): string {
+  return (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Jaro-Winkler string similarity, 0-1
+ */
+function jaroWinkler(a: string, b: string): number {
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return 1;
+  }
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j <= Math.min(b.length - 1, i + window); j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (aMatched[i]) {
+      while (!bMatched[k]) {
+        k++;
+      }
+      if (a[i] !== b[k]) {
+        transpositions++;
+      }
+      k++;
+    }
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
@@ -12,6 +12,35 @@ import {
   RiskLevel,
   EvidenceType 
 } from '../shared/types';
+import { meetsAssuranceLevel, minimumAssuranceLevel } from '../shared/assurance';
+import { BiometricEvidence, BiometricType } from '../shared/biometrics';
+import {
+  DELEGATION_SCOPES,
+  DelegationDisclosure,
+  DelegationRegistry,
+  discloseDelegation
+} from '../shared/delegation';
+import { ResolutionScore, scoreIdentityResolution } from './identity-resolution';
+import {
+  AdjudicationStatus,
+  BiometricTemplateMatcher,
+  DuplicateAdjudicationCase,
+  IdentityDeduplicator
+} from './identity-deduplication';
+import { EvidenceCategory, EvidenceSourceCatalogue } from './evidence-source-catalogue';
+import {
+  FindingSeverity,
+  MachineReadableDocument,
+  ValidationFinding,
+  checkAamvaBarcode,
+  checkDocumentConsistency,
+  checkPassportMrz
+} from './document-authenticity';
+import { BiometricProvider, BiometricVerificationPolicy, BiometricVerifier } from './biometric-verification';
+import { AuthoritativeSourceStatus, AuthoritativeSourceValidator } from './authoritative-source';
+import { AttributeChange, AttributeHistory, AttributeVersion, copyAttributes } from './attribute-history';
+
+export { BiometricEvidence, BiometricType } from '../shared/biometrics';
 
 /**
  * Identity Provider implementing PCTF05 requirements
@@ -22,6 +51,12 @@ export class IdentityProvider {
   private assuranceLevel: AssuranceLevel;
   private verifiedPersons: Map<string, VerifiedPerson> = new Map();
   private identityProofingSessions: Map<string, IdentityProofingSession> = new Map();
+  private delegationRegistry?: DelegationRegistry;
+  private deduplicator: IdentityDeduplicator = new IdentityDeduplicator();
+  private adjudicationCases: Map<string, DuplicateAdjudicationCase> = new Map();
+  private evidenceCatalogue: EvidenceSourceCatalogue = new EvidenceSourceCatalogue();
+  private biometricVerifier: BiometricVerifier = new BiometricVerifier();
+  private authoritativeSources: AuthoritativeSourceValidator = new AuthoritativeSourceValidator();
 
   constructor(providerId: string, name: string, assuranceLevel: AssuranceLevel) {
     this.providerId = providerId;
@@ -29,6 +64,46 @@ export class IdentityProvider {
     this.assuranceLevel = assuranceLevel;
   }
 
+  /**
+   * Link the registry that delegated presentations are checked against
+   */
+  linkDelegationRegistry(delegationRegistry: DelegationRegistry): void {
+    this.delegationRegistry = delegationRegistry;
+  }
+
+  /**
+   * Replace the default evidence source catalogue
+   */
+  linkEvidenceSourceCatalogue(evidenceCatalogue: EvidenceSourceCatalogue): void {
+    this.evidenceCatalogue = evidenceCatalogue;
+  }
+
+  /**
+   * Link a matcher so duplicate detection also compares biometric templates
+   */
+  linkBiometricTemplateMatcher(biometricMatcher: BiometricTemplateMatcher): void {
+    this.deduplicator.linkBiometricTemplateMatcher(biometricMatcher);
+  }
+
+  /**
+   * Replace the validator that confirms evidence with its issuing authority
+   */
+  linkAuthoritativeSourceValidator(authoritativeSources: AuthoritativeSourceValidator): void {
+    this.authoritativeSources = authoritativeSources;
+  }
+
+  /**
+   * Link the provider that remote unsupervised verification matches faces
+   * with; it also compares templates during duplicate detection
+   */
+  linkBiometricProvider(provider: BiometricProvider, policy?: BiometricVerificationPolicy): void {
+    if (policy) {
+      this.biometricVerifier = new BiometricVerifier(policy);
+    }
+    this.biometricVerifier.linkBiometricProvider(provider);
+    this.deduplicator.linkBiometricTemplateMatcher(provider);
+  }
+
   /**
    * Trusted Process: Establishing Sources of Identity Evidence
    * Determines and validates acceptable sources of identity evidence
@@ -36,10 +111,24 @@ export class IdentityProvider {
   async establishEvidenceSources(evidenceRequirements: EvidenceRequirement[]): Promise<ProcessResult> {
     try {
       const acceptedSources: EvidenceSource[] = [];
+      const errors: string[] = [];
       
       for (const requirement of evidenceRequirements) {
         const sources = this.getAcceptableEvidenceSources(requirement.evidenceType, requirement.assuranceLevel);
-        acceptedSources.push(...sources);
+        if (sources.length === 0 && requirement.isRequired) {
+          errors.push(`No acceptable ${requirement.evidenceType} source at ${requirement.assuranceLevel}`);
+        }
+        acceptedSources.push(...sources.filter(source => !acceptedSources.some(accepted => accepted.sourceId === source.sourceId)));
+      }
+
+      if (errors.length > 0) {
+        return {
+          success: false,
+          message: 'Required evidence sources are unavailable',
+          data: { acceptedSources },
+          errors,
+          timestamp: new Date()
+        };
       }
 
       return {
@@ -58,14 +147,41 @@ export class IdentityProvider {
     }
   }
 
+  /**
+   * Grade an evidence package and find the highest assurance level it supports,
+   * explaining what the next level requires
+   */
+  async assessEvidencePackage(evidencePackage: EvidencePackage): Promise<ProcessResult> {
+    try {
+      const assessment = this.evidenceCatalogue.assess(evidencePackage);
+
+      return {
+        success: assessment.maximumAssuranceLevel !== undefined,
+        message: assessment.maximumAssuranceLevel
+          ? `Evidence supports ${assessment.maximumAssuranceLevel}`
+          : 'Evidence does not meet any assurance level',
+        data: assessment,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Evidence assessment failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
   /**
    * Trusted Process: Identity Resolution
    * Determines if the collected identity information refers to a real person
    */
   async performIdentityResolution(identityInformation: IdentityInformation): Promise<ProcessResult> {
     try {
-      const resolutionScore = await this.calculateResolutionScore(identityInformation);
-      const isResolved = resolutionScore >= this.getMinimumResolutionScore(this.assuranceLevel);
+      const { totalScore: resolutionScore, factors: breakdown } = await this.calculateResolutionScore(identityInformation);
+      const minimumScore = this.getMinimumResolutionScore(this.assuranceLevel);
+      const isResolved = resolutionScore >= minimumScore;
 
       if (isResolved) {
         return {
@@ -73,6 +189,8 @@ export class IdentityProvider {
           message: 'Identity successfully resolved',
           data: { 
             resolutionScore,
+            minimumScore,
+            breakdown,
             personId: this.generatePersonId()
           },
           timestamp: new Date()
@@ -81,7 +199,7 @@ export class IdentityProvider {
         return {
           success: false,
           message: 'Identity resolution failed - insufficient evidence',
-          data: { resolutionScore },
+          data: { resolutionScore, minimumScore, breakdown },
           timestamp: new Date()
         };
       }
@@ -101,6 +219,19 @@ export class IdentityProvider {
    */
   async establishIdentity(personId: string, identityInformation: IdentityInformation, evidencePackage: EvidencePackage): Promise<ProcessResult> {
     try {
+      if (this.verifiedPersons.has(personId)) {
+        return {
+          success: false,
+          message: 'Person is already established',
+          timestamp: new Date()
+        };
+      }
+
+      const duplicateCase = await this.screenForDuplicates(personId, identityInformation, evidencePackage);
+      if (duplicateCase) {
+        return this.duplicateCaseResult(duplicateCase);
+      }
+
       const verifiedPerson = new VerifiedPerson(
         personId,
         identityInformation,
@@ -172,9 +303,17 @@ export class IdentityProvider {
 
   /**
    * Trusted Process: Identity Verification
-   * Confirms that the identity information corresponds to a real, unique person
+   * Confirms that the identity information corresponds to a real, unique person.
+   * A submission carries evidence or a live capture presented now, which must
+   * verify against the stored record before the person is verified again.
+   * A person awaiting reverification must present fresh evidence; they are
+   * verified at the level their current evidence supports.
    */
-  async verifyIdentity(personId: string, verificationMethod: VerificationMethod): Promise<ProcessResult> {
+  async verifyIdentity(
+    personId: string,
+    verificationMethod: VerificationMethod,
+    submission?: IdentityVerificationSubmission
+  ): Promise<ProcessResult> {
     try {
       const person = this.verifiedPersons.get(personId);
       if (!person) {
@@ -185,12 +324,75 @@ export class IdentityProvider {
         };
       }
 
-      const verificationResult = await this.performVerification(person, verificationMethod);
+      if (person.verificationStatus === VerificationStatus.SUSPENDED || person.verificationStatus === VerificationStatus.REVOKED) {
+        return {
+          success: false,
+          message: `Person is ${person.verificationStatus.toLowerCase()}`,
+          errors: person.statusReason ? [person.statusReason] : undefined,
+          timestamp: new Date()
+        };
+      }
+
+      const reverifying = person.verificationStatus === VerificationStatus.REVERIFICATION_REQUIRED;
+      if (reverifying && (submission?.evidence || []).length === 0) {
+        return {
+          success: false,
+          message: 'Reverification requires fresh evidence',
+          errors: person.statusReason ? [person.statusReason] : undefined,
+          timestamp: new Date()
+        };
+      }
+
+      if (submission) {
+        const submissionResult = await this.verifySubmission(person, submission);
+        if (!submissionResult.passed) {
+          return {
+            success: false,
+            message: 'Submitted evidence does not verify the person',
+            errors: submissionResult.errors,
+            timestamp: new Date()
+          };
+        }
+      }
+
+      const verifiedAt = new Date();
+      let refreshedEvidence: { evidencePackage: EvidencePackage; assuranceLevel: AssuranceLevel } | undefined;
+      if (reverifying) {
+        const evidencePackage = this.refreshEvidencePackage(person.evidencePackage, submission!.evidence!, verifiedAt);
+        const assessment = this.evidenceCatalogue.assess(evidencePackage, verifiedAt);
+        if (!assessment.maximumAssuranceLevel) {
+          return {
+            success: false,
+            message: 'Current evidence does not support any assurance level',
+            errors: assessment.unmetRequirements,
+            timestamp: new Date()
+          };
+        }
+        refreshedEvidence = {
+          evidencePackage,
+          assuranceLevel: minimumAssuranceLevel(assessment.maximumAssuranceLevel, this.assuranceLevel)
+        };
+      }
+
+      const verificationResult = await this.performVerification(person, verificationMethod, submission?.liveCapture, submission?.evidence);
       
       if (verificationResult.success) {
-        person.verificationStatus = VerificationStatus.VERIFIED;
-        person.verifiedAt = new Date();
-        person.verificationMethod = verificationMethod;
+        if (refreshedEvidence) {
+          person.reverify(refreshedEvidence.evidencePackage, refreshedEvidence.assuranceLevel, verificationMethod, verifiedAt);
+        } else {
+          person.markVerified(verificationMethod, verifiedAt);
+        }
+
+        return {
+          ...verificationResult,
+          data: {
+            ...verificationResult.data,
+            personId,
+            assuranceLevel: person.assuranceLevel,
+            verifiedAt: person.verifiedAt,
+            reverificationDueAt: person.reverificationDueAt
+          }
+        };
       }
 
       return verificationResult;
@@ -206,23 +408,26 @@ export class IdentityProvider {
 
   /**
    * Trusted Process: Evidence Validation
-   * Validates the authenticity and integrity of identity evidence
+   * Validates the authenticity and integrity of identity evidence, and its
+   * consistency with the claimed core attributes when given
    */
-  async validateEvidence(evidence: IdentityEvidence): Promise<ProcessResult> {
+  async validateEvidence(evidence: IdentityEvidence, claimedAttributes?: CoreAttributes): Promise<ProcessResult> {
     try {
       const validationChecks: EvidenceValidationCheck[] = [
-        { type: 'AUTHENTICITY', passed: await this.checkAuthenticity(evidence) },
-        { type: 'INTEGRITY', passed: await this.checkIntegrity(evidence) },
-        { type: 'CURRENCY', passed: await this.checkCurrency(evidence) },
-        { type: 'COMPLETENESS', passed: await this.checkCompleteness(evidence) }
+        this.checkAuthenticity(evidence),
+        this.checkIntegrity(evidence, claimedAttributes),
+        this.checkCurrency(evidence),
+        this.checkCompleteness(evidence),
+        await this.checkAuthoritativeSource(evidence, claimedAttributes)
       ];
 
       const allChecksPassed = validationChecks.every(check => check.passed);
+      const strength = this.evidenceCatalogue.gradeEvidence(evidence);
 
       return {
         success: allChecksPassed,
         message: allChecksPassed ? 'Evidence validation successful' : 'Evidence validation failed',
-        data: { validationChecks },
+        data: { validationChecks, strength },
         timestamp: new Date()
       };
     } catch (error) {
@@ -239,7 +444,12 @@ export class IdentityProvider {
    * Trusted Process: Identity Presentation
    * Presents verified identity information to authorized parties
    */
-  async presentIdentity(personId: string, requesterInfo: RequesterInfo, requestedAttributes: string[]): Promise<ProcessResult> {
+  async presentIdentity(
+    personId: string,
+    requesterInfo: RequesterInfo,
+    requestedAttributes: string[],
+    delegatedPresentation?: DelegatedPresentation // set when a delegate presents the person's identity on their behalf
+  ): Promise<ProcessResult> {
     try {
       const person = this.verifiedPersons.get(personId);
       if (!person) {
@@ -268,12 +478,30 @@ export class IdentityProvider {
         };
       }
 
+      let delegation: DelegationDisclosure | undefined;
+      if (delegatedPresentation) {
+        const check = this.delegationRegistry?.checkDelegation(delegatedPresentation.delegationId, {
+          delegateId: delegatedPresentation.delegateId,
+          principalId: delegatedPresentation.principalId || personId,
+          scope: DELEGATION_SCOPES.IDENTITY_PRESENTATION
+        });
+        if (!check?.valid) {
+          return {
+            success: false,
+            message: 'Delegation does not permit presenting this identity',
+            errors: [check?.reason || 'No delegation registry linked'],
+            timestamp: new Date()
+          };
+        }
+        delegation = discloseDelegation(check.delegation!);
+      }
+
       const presentedAttributes = this.extractRequestedAttributes(person, requestedAttributes);
 
       return {
         success: true,
         message: 'Identity presented successfully',
-        data: { presentedAttributes },
+        data: { presentedAttributes, delegation },
         timestamp: new Date()
       };
     } catch (error) {
@@ -307,14 +535,13 @@ export class IdentityProvider {
         return validationResult;
       }
 
-      // Apply updates
-      person.updateInformation(updateRequest.updatedAttributes);
-      person.lastUpdated = new Date();
+      // Apply updates as a new attribute version
+      const version = person.updateInformation(updateRequest, new Date());
 
       return {
         success: true,
         message: 'Identity maintained successfully',
-        data: { updatedAt: person.lastUpdated },
+        data: { updatedAt: person.lastUpdated, version: version.version, changedAttributes: version.changedAttributes },
         timestamp: new Date()
       };
     } catch (error) {
@@ -327,6 +554,264 @@ export class IdentityProvider {
     }
   }
 
+  /**
+   * Start an identity proofing session towards a target assurance level.
+   * Any information submitted up front is used immediately; otherwise the
+   * session waits at evidence collection until resumed with a submission.
+   */
+  async startIdentityProofing(
+    targetAssuranceLevel: AssuranceLevel = this.assuranceLevel,
+    submission?: ProofingSubmission
+  ): Promise<ProcessResult> {
+    try {
+      if (!meetsAssuranceLevel(this.assuranceLevel, targetAssuranceLevel)) {
+        return {
+          success: false,
+          message: `Provider cannot proof identities to ${targetAssuranceLevel}`,
+          timestamp: new Date()
+        };
+      }
+
+      const session = new IdentityProofingSession(
+        this.generateProofingSessionId(),
+        this.generatePersonId(),
+        PROOFING_WORKFLOWS[targetAssuranceLevel]
+      );
+      this.identityProofingSessions.set(session.sessionId, session);
+
+      if (submission) {
+        session.submit(submission);
+      }
+      return await this.runProofingWorkflow(session);
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to start identity proofing',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Resume a proofing session, optionally with additional or corrected information.
+   * New identity information or evidence sends the session back to evidence collection.
+   */
+  async resumeIdentityProofing(sessionId: string, submission?: ProofingSubmission): Promise<ProcessResult> {
+    try {
+      const session = this.identityProofingSessions.get(sessionId);
+      if (!session) {
+        return {
+          success: false,
+          message: 'Proofing session not found',
+          timestamp: new Date()
+        };
+      }
+
+      if (session.status !== ProcessStatus.IN_PROGRESS) {
+        return {
+          success: false,
+          message: `Proofing session is ${session.status.toLowerCase()}`,
+          data: session.describe(),
+          timestamp: new Date()
+        };
+      }
+
+      if (submission) {
+        session.submit(submission);
+      }
+      return await this.runProofingWorkflow(session);
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Failed to resume identity proofing',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  getIdentityProofingSession(sessionId: string): IdentityProofingSession | undefined {
+    return this.identityProofingSessions.get(sessionId);
+  }
+
+  getVerifiedPerson(personId: string): VerifiedPerson | undefined {
+    return this.verifiedPersons.get(personId);
+  }
+
+  /**
+   * Core attributes held for a person at a point in time
+   */
+  getAttributesAsOf(personId: string, at: Date): AttributeVersion | undefined {
+    return this.verifiedPersons.get(personId)?.attributeHistory.getAsOf(at);
+  }
+
+  /**
+   * Attributes that changed between two versions of a person's record
+   */
+  compareAttributeVersions(personId: string, fromVersion: number, toVersion: number): ProcessResult {
+    try {
+      const person = this.verifiedPersons.get(personId);
+      if (!person) {
+        return {
+          success: false,
+          message: 'Person not found',
+          timestamp: new Date()
+        };
+      }
+
+      const changes: AttributeChange[] = person.attributeHistory.diff(fromVersion, toVersion);
+      return {
+        success: true,
+        message: `${changes.length} attribute(s) changed between versions ${fromVersion} and ${toVersion}`,
+        data: {
+          changes,
+          versions: [fromVersion, toVersion].map(version => person.attributeHistory.getVersion(version))
+        },
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Attribute version comparison failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
+  /**
+   * Decide a duplicate adjudication case. A distinct person may then be
+   * established by retrying establishment or resuming the proofing session.
+   */
+  async adjudicateDuplicate(
+    caseId: string,
+    decision: AdjudicationStatus.CONFIRMED_DUPLICATE | AdjudicationStatus.DISTINCT_PERSON,
+    adjudicatedBy: string,
+    notes?: string,
+    duplicateOf?: string // defaults to the strongest match
+  ): Promise<ProcessResult> {
+    const adjudicationCase = this.adjudicationCases.get(caseId);
+    if (!adjudicationCase || adjudicationCase.status !== AdjudicationStatus.PENDING) {
+      return {
+        success: false,
+        message: 'Adjudication case not found or already decided',
+        timestamp: new Date()
+      };
+    }
+
+    if (decision === AdjudicationStatus.CONFIRMED_DUPLICATE) {
+      const duplicate = duplicateOf || adjudicationCase.matches[0].personId;
+      if (!adjudicationCase.matches.some(match => match.personId === duplicate)) {
+        return {
+          success: false,
+          message: `${duplicate} is not a match in this case`,
+          timestamp: new Date()
+        };
+      }
+      adjudicationCase.duplicateOf = duplicate;
+    }
+
+    adjudicationCase.status = decision;
+    adjudicationCase.resolvedAt = new Date();
+    adjudicationCase.resolvedBy = adjudicatedBy;
+    adjudicationCase.resolutionNotes = notes;
+
+    return {
+      success: true,
+      message: 'Adjudication recorded',
+      data: { caseId, status: decision, duplicateOf: adjudicationCase.duplicateOf },
+      timestamp: new Date()
+    };
+  }
+
+  getAdjudicationCase(caseId: string): DuplicateAdjudicationCase | undefined {
+    return this.adjudicationCases.get(caseId);
+  }
+
+  getPendingAdjudicationCases(): DuplicateAdjudicationCase[] {
+    return Array.from(this.adjudicationCases.values()).filter(adjudicationCase => adjudicationCase.status === AdjudicationStatus.PENDING);
+  }
+
+  /**
+   * Trusted Process: Identity Maintenance (suspension)
+   * Withholds a verified person from presentation until reinstated
+   */
+  async suspendIdentity(personId: string, reason: string, suspendedBy?: string): Promise<ProcessResult> {
+    return this.changeLifecycleStatus(personId, PersonLifecycleAction.SUSPENDED, reason, suspendedBy);
+  }
+
+  /**
+   * Lift a suspension. A person whose reverification deadline passed while
+   * suspended comes back as requiring reverification.
+   */
+  async reinstateIdentity(personId: string, reason: string, reinstatedBy?: string): Promise<ProcessResult> {
+    return this.changeLifecycleStatus(personId, PersonLifecycleAction.REINSTATED, reason, reinstatedBy);
+  }
+
+  /**
+   * Trusted Process: Identity Maintenance (revocation)
+   * Permanently withdraws a verified person; revocation cannot be reversed
+   */
+  async revokeIdentity(personId: string, reason: string, revokedBy?: string): Promise<ProcessResult> {
+    return this.changeLifecycleStatus(personId, PersonLifecycleAction.REVOKED, reason, revokedBy);
+  }
+
+  /**
+   * Sweep verified persons: demote those whose expired primary evidence no
+   * longer supports their assurance level, flag those past their
+   * reverification deadline, and report who needs reverification
+   */
+  async sweepVerifiedPersons(at: Date = new Date(), noticeDays: number = 30): Promise<ProcessResult> {
+    try {
+      const demoted: { personId: string; from: AssuranceLevel; to: AssuranceLevel }[] = [];
+      const reverificationRequired: { personId: string; reason: string }[] = [];
+      const reverificationDueSoon: { personId: string; reverificationDueAt: Date }[] = [];
+      const noticeCutoff = new Date(at.getTime() + noticeDays * 24 * 60 * 60 * 1000);
+
+      for (const person of Array.from(this.verifiedPersons.values())) {
+        if (person.verificationStatus === VerificationStatus.VERIFIED) {
+          const expiredPrimary = person.evidencePackage.primaryEvidence
+            .filter(evidence => evidence.expirationDate && evidence.expirationDate <= at);
+          if (expiredPrimary.length > 0) {
+            const reason = `Primary evidence expired: ${expiredPrimary.map(evidence => evidence.evidenceId).join(', ')}`;
+            const supportedLevel = this.evidenceCatalogue.assess(person.evidencePackage, at).maximumAssuranceLevel;
+            if (!supportedLevel) {
+              person.requireReverification(reason, at);
+            } else if (!meetsAssuranceLevel(supportedLevel, person.assuranceLevel)) {
+              demoted.push({ personId: person.personId, from: person.assuranceLevel, to: supportedLevel });
+              person.demote(supportedLevel, reason, at);
+            }
+          }
+        }
+
+        if (person.verificationStatus === VerificationStatus.VERIFIED && person.reverificationDueAt && person.reverificationDueAt <= at) {
+          person.requireReverification('Reverification deadline passed', at);
+        }
+
+        if (person.verificationStatus === VerificationStatus.REVERIFICATION_REQUIRED) {
+          reverificationRequired.push({ personId: person.personId, reason: person.statusReason || 'Reverification required' });
+        } else if (person.verificationStatus === VerificationStatus.VERIFIED && person.reverificationDueAt && person.reverificationDueAt <= noticeCutoff) {
+          reverificationDueSoon.push({ personId: person.personId, reverificationDueAt: person.reverificationDueAt });
+        }
+      }
+
+      return {
+        success: true,
+        message: `Verified person sweep: ${demoted.length} demoted, ${reverificationRequired.length} require reverification, ${reverificationDueSoon.length} due within ${noticeDays} days`,
+        data: { demoted, reverificationRequired, reverificationDueSoon },
+        timestamp: at
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: 'Verified person sweep failed',
+        errors: [error instanceof Error ? error.message : 'Unknown error'],
+        timestamp: new Date()
+      };
+    }
+  }
+
   /**
    * Get conformance criteria for Verified Person component
    */
@@ -373,21 +858,24 @@ export class IdentityProvider {
 
   // Private helper methods
   private getAcceptableEvidenceSources(evidenceType: EvidenceType, assuranceLevel: AssuranceLevel): EvidenceSource[] {
-    // Implementation would return appropriate evidence sources based on type and assurance level
-    return [];
+    return this.evidenceCatalogue.getAcceptableSources(evidenceType, assuranceLevel);
   }
 
-  private async calculateResolutionScore(identityInformation: IdentityInformation): Promise<number> {
-    // Simplified scoring logic
-    return Math.random() * 100; // In real implementation, this would be sophisticated scoring
+  private async calculateResolutionScore(identityInformation: IdentityInformation): Promise<ResolutionScore> {
+    return scoreIdentityResolution(identityInformation);
   }
 
+  /**
+   * Scores out of 100: core attributes 40, supporting documents 40,
+   * biometrics 20. Names, date of birth and address (32) resolve LOA1; LOA2
+   * adds a photo ID, LOA3 a second document or biometrics, and LOA4 both.
+   */
   private getMinimumResolutionScore(assuranceLevel: AssuranceLevel): number {
     switch (assuranceLevel) {
-      case AssuranceLevel.LOA1: return 60;
-      case AssuranceLevel.LOA2: return 70;
-      case AssuranceLevel.LOA3: return 80;
-      case AssuranceLevel.LOA4: return 90;
+      case AssuranceLevel.LOA1: return 30;
+      case AssuranceLevel.LOA2: return 50;
+      case AssuranceLevel.LOA3: return 70;
+      case AssuranceLevel.LOA4: return 85;
       default: return 50;
     }
   }
@@ -407,8 +895,20 @@ export class IdentityProvider {
   }
 
   private async validateBiometricData(biometricData: BiometricData): Promise<ValidationResult> {
-    // Simplified validation
-    return { isValid: true, score: 98, details: 'Biometric data validated' };
+    const samples = [...(biometricData.faceImage || []), ...(biometricData.fingerprints || []), ...(biometricData.iris || [])];
+    if (samples.length === 0) {
+      return { isValid: true, score: 100, details: 'No biometric samples' };
+    }
+
+    const lowQuality = this.biometricVerifier.findLowQualitySamples(biometricData);
+    const averageQuality = samples.reduce((sum, sample) => sum + (sample.qualityScore || 0), 0) / samples.length;
+    return {
+      isValid: lowQuality.length === 0,
+      score: averageQuality,
+      details: lowQuality.length === 0
+        ? 'Biometric data validated'
+        : `${lowQuality.length} biometric sample(s) below quality ${this.biometricVerifier.getPolicy().minimumQualityScore}`
+    };
   }
 
   private aggregateValidationResults(results: ValidationResult[]): { isValid: boolean; score: number } {
@@ -419,37 +919,330 @@ export class IdentityProvider {
     };
   }
 
-  private async performVerification(person: VerifiedPerson, method: VerificationMethod): Promise<ProcessResult> {
-    // Simplified verification logic
+  /**
+   * A live capture, required for REMOTE_UNSUPERVISED where no operator sees
+   * the applicant, must pass liveness and match the person's enrolled faces
+   * (once established) or the portraits on their evidence. Without one the
+   * person is verified only by presented evidence that has already been
+   * checked against them.
+   */
+  private async performVerification(
+    person: VerifiedPerson,
+    method: VerificationMethod,
+    liveCapture?: BiometricEvidence,
+    presentedEvidence: IdentityEvidence[] = []
+  ): Promise<ProcessResult> {
+    if (liveCapture || method === VerificationMethod.REMOTE_UNSUPERVISED) {
+      if (!this.biometricVerifier.hasProvider()) {
+        return {
+          success: false,
+          message: 'Biometric verification is not configured',
+          errors: ['No biometric provider linked; call linkBiometricProvider() to enable live capture verification'],
+          timestamp: new Date()
+        };
+      }
+      if (!liveCapture) {
+        return {
+          success: false,
+          message: 'Remote unsupervised verification requires a live face capture',
+          timestamp: new Date()
+        };
+      }
+
+      const evidencePackage = person.evidencePackage;
+      const enrolledFaces = this.verifiedPersons.get(person.personId) === person
+        ? [
+          ...(person.identityInformation.biometricData?.faceImage || []),
+          ...(evidencePackage.biometricEvidence || [])
+        ].filter(sample => sample.biometricType === BiometricType.FACE)
+        : [];
+      const biometricResult = await this.biometricVerifier.verifyLiveCapture(
+        liveCapture,
+        enrolledFaces,
+        [...evidencePackage.primaryEvidence, ...(evidencePackage.secondaryEvidence || []), ...presentedEvidence]
+      );
+
+      return {
+        success: biometricResult.passed,
+        message: biometricResult.passed ? 'Verification completed successfully' : 'Biometric verification failed',
+        data: { biometricResult },
+        errors: biometricResult.passed ? undefined : biometricResult.reasons,
+        timestamp: new Date()
+      };
+    }
+
+    // Otherwise the person is verified by evidence already checked against them
+    if (presentedEvidence.length === 0) {
+      return {
+        success: false,
+        message: 'Nothing to verify the person against',
+        errors: ['No validated evidence or live capture presented'],
+        timestamp: new Date()
+      };
+    }
     return {
       success: true,
       message: 'Verification completed successfully',
+      data: { verifiedEvidence: presentedEvidence.map(item => item.evidenceId) },
       timestamp: new Date()
     };
   }
 
-  private async checkAuthenticity(evidence: IdentityEvidence): Promise<boolean> {
-    // Simplified authenticity check
-    return true;
-  }
+  /**
+   * Check evidence presented now against a person's stored record. Evidence
+   * must be current, pass validation against the person's attributes, and be
+   * tied to the person: a document number already on record, machine-readable
+   * data consistent with the record, or issuer confirmation. A live capture is
+   * checked by performVerification().
+   */
+  private async verifySubmission(
+    person: VerifiedPerson,
+    submission: IdentityVerificationSubmission
+  ): Promise<{ passed: boolean; errors: string[] }> {
+    const evidence = submission.evidence || [];
+    if (evidence.length === 0 && !submission.liveCapture) {
+      return { passed: false, errors: ['No evidence or live capture submitted'] };
+    }
 
-  private async checkIntegrity(evidence: IdentityEvidence): Promise<boolean> {
-    // Simplified integrity check
-    return true;
-  }
+    const errors: string[] = [];
+    const now = new Date();
+    const recordedEvidenceIds = new Set(
+      [...person.evidencePackage.primaryEvidence, ...(person.evidencePackage.secondaryEvidence || [])].map(item => item.evidenceId)
+    );
+    const recordedNumbers = new Set([
+      ...(person.identityInformation.supportingDocuments || []).map(document => document.documentNumber),
+      ...[...person.evidencePackage.primaryEvidence, ...(person.evidencePackage.secondaryEvidence || [])]
+        .map(item => item.requiredFields.find(field => field.fieldName === 'documentNumber')?.value)
+    ].filter(Boolean).map(value => String(value).toUpperCase().replace(/[^A-Z0-9]/g, '')));
+
+    for (const item of evidence) {
+      if (recordedEvidenceIds.has(item.evidenceId)) {
+        errors.push(`Evidence ${item.evidenceId} is already on record`);
+        continue;
+      }
+      if (!item.expirationDate || item.expirationDate <= now) {
+        errors.push(`Evidence ${item.evidenceId} has expired`);
+        continue;
+      }
 
-  private async checkCurrency(evidence: IdentityEvidence): Promise<boolean> {
-    // Check if evidence is current/not expired
-    return new Date() < evidence.expirationDate;
-  }
+      const validation = await this.validateEvidence(item, person.identityInformation.coreAttributes);
+      const checks: EvidenceValidationCheck[] = validation.data?.validationChecks || [];
+      if (!validation.success) {
+        errors.push(`Evidence ${item.evidenceId} failed ${checks.filter(check => !check.passed).map(check => check.type).join(', ') || 'validation'}`);
+        continue;
+      }
+
+      const documentNumber = item.requiredFields.find(field => field.fieldName === 'documentNumber')?.value;
+      const onRecord = documentNumber !== undefined && recordedNumbers.has(String(documentNumber).toUpperCase().replace(/[^A-Z0-9]/g, ''));
+      const machineReadableMatch = this.machineReadableDataMatches(item, person.identityInformation.coreAttributes);
+      const issuerConfirmed = checks.some(check => check.findings.some(finding => finding.code === 'AUTHORITATIVE_SOURCE_CONFIRMED'));
+      if (!onRecord && !machineReadableMatch && !issuerConfirmed) {
+        errors.push(`Evidence ${item.evidenceId} is not linked to the person's record`);
+      }
+    }
 
-  private async checkCompleteness(evidence: IdentityEvidence): Promise<boolean> {
-    // Check if all required fields are present
-    return evidence.requiredFields.every(field => field.value !== null && field.value !== undefined);
+    return { passed: errors.length === 0, errors };
   }
 
-  private async authorizeRequester(requesterInfo: RequesterInfo, requestedAttributes: string[]): Promise<boolean> {
-    // Simplified authorization logic
+  /**
+   * Whether the evidence's barcode or MRZ reads cleanly and names the person:
+   * family name and date of birth must be present and agree with their record
+   */
+  private machineReadableDataMatches(evidence: IdentityEvidence, coreAttributes: CoreAttributes): boolean {
+    const readings: { document?: MachineReadableDocument; findings: ValidationFinding[]; namesTruncated: boolean }[] = [];
+    if (evidence.barcodeData) {
+      readings.push({ ...checkAamvaBarcode(evidence.barcodeData), namesTruncated: false });
+    }
+    if (evidence.machineReadableZone) {
+      const mrz = checkPassportMrz(evidence.machineReadableZone);
+      readings.push({ ...mrz, namesTruncated: mrz.document?.namesTruncated || false });
+    }
+
+    return readings.some(({ document, findings, namesTruncated }) => {
+      if (!document?.familyName || !document.dateOfBirth) {
+        return false;
+      }
+      const consistency = checkDocumentConsistency(document, evidence, coreAttributes, namesTruncated);
+      return ![...findings, ...consistency].some(finding => finding.severity === FindingSeverity.FAILURE);
+    });
+  }
+
+  /**
+   * Stored evidence still current at a point in time, plus newly presented
+   * evidence filed as primary or secondary by its catalogued source
+   */
+  private refreshEvidencePackage(evidencePackage: EvidencePackage, presented: IdentityEvidence[], at: Date): EvidencePackage {
+    const current = (items: IdentityEvidence[] = []) => items.filter(item => item.expirationDate > at);
+    const isPrimary = (item: IdentityEvidence) =>
+      this.evidenceCatalogue.getSource(item.sourceId || '')?.category === EvidenceCategory.PRIMARY;
+
+    return {
+      primaryEvidence: [...current(evidencePackage.primaryEvidence), ...presented.filter(isPrimary)],
+      secondaryEvidence: [...current(evidencePackage.secondaryEvidence), ...presented.filter(item => !isPrimary(item))],
+      biometricEvidence: evidencePackage.biometricEvidence
+    };
+  }
+
+  private checkAuthenticity(evidence: IdentityEvidence): EvidenceValidationCheck {
+    // Structure and check digits of the document's machine-readable data
+    const findings: ValidationFinding[] = [];
+    if (evidence.barcodeData) {
+      findings.push(...checkAamvaBarcode(evidence.barcodeData).findings);
+    }
+    if (evidence.machineReadableZone) {
+      findings.push(...checkPassportMrz(evidence.machineReadableZone).findings);
+    }
+    if (!evidence.barcodeData && !evidence.machineReadableZone) {
+      findings.push({
+        code: 'NO_MACHINE_READABLE_DATA',
+        severity: FindingSeverity.INFO,
+        message: 'Evidence has no barcode or MRZ to verify'
+      });
+    }
+    return this.toValidationCheck('AUTHENTICITY', findings);
+  }
+
+  private checkIntegrity(evidence: IdentityEvidence, claimedAttributes?: CoreAttributes): EvidenceValidationCheck {
+    // Machine-readable data must agree with the evidence record and the claimed identity
+    const findings: ValidationFinding[] = [];
+    const barcode = evidence.barcodeData ? checkAamvaBarcode(evidence.barcodeData).document : undefined;
+    if (barcode) {
+      findings.push(...checkDocumentConsistency(barcode, evidence, claimedAttributes));
+    }
+    const passport = evidence.machineReadableZone ? checkPassportMrz(evidence.machineReadableZone).document : undefined;
+    if (passport) {
+      findings.push(...checkDocumentConsistency(passport, evidence, claimedAttributes, passport.namesTruncated));
+    }
+    return this.toValidationCheck('INTEGRITY', findings);
+  }
+
+  private checkCurrency(evidence: IdentityEvidence): EvidenceValidationCheck {
+    const findings: ValidationFinding[] = [];
+    if (!(new Date() < evidence.expirationDate)) {
+      findings.push({
+        code: 'EVIDENCE_EXPIRED',
+        severity: FindingSeverity.FAILURE,
+        message: 'Evidence has expired',
+        field: 'expirationDate'
+      });
+    }
+    return this.toValidationCheck('CURRENCY', findings);
+  }
+
+  private checkCompleteness(evidence: IdentityEvidence): EvidenceValidationCheck {
+    const findings: ValidationFinding[] = evidence.requiredFields
+      .filter(field => field.value === null || field.value === undefined)
+      .map(field => ({
+        code: 'REQUIRED_FIELD_MISSING',
+        severity: FindingSeverity.FAILURE,
+        message: `Required field ${field.fieldName} is missing`,
+        field: field.fieldName
+      }));
+    return this.toValidationCheck('COMPLETENESS', findings);
+  }
+
+  private async checkAuthoritativeSource(evidence: IdentityEvidence, claimedAttributes?: CoreAttributes): Promise<EvidenceValidationCheck> {
+    const result = await this.authoritativeSources.confirm(evidence, claimedAttributes);
+    if (!result) {
+      return this.toValidationCheck('AUTHORITATIVE_SOURCE', [{
+        code: 'AUTHORITATIVE_SOURCE_NOT_CHECKED',
+        severity: FindingSeverity.INFO,
+        message: `No authoritative source connector for ${evidence.issuer} or no document number`
+      }]);
+    }
+
+    const finding = (code: string, severity: FindingSeverity, message: string): ValidationFinding =>
+      ({ code, severity, message: result.reference ? `${message} (${result.reference})` : message });
+    switch (result.status) {
+      case AuthoritativeSourceStatus.CONFIRMED:
+        return this.toValidationCheck('AUTHORITATIVE_SOURCE', [
+          finding('AUTHORITATIVE_SOURCE_CONFIRMED', FindingSeverity.INFO, `Confirmed by ${result.connectorId}`)
+        ]);
+      case AuthoritativeSourceStatus.UNAVAILABLE:
+        // An unreachable issuer leaves the evidence unconfirmed rather than disproven
+        return this.toValidationCheck('AUTHORITATIVE_SOURCE', [
+          finding('AUTHORITATIVE_SOURCE_UNAVAILABLE', FindingSeverity.WARNING,
+            `${result.connectorId} unavailable after ${result.attempts} attempt(s)${result.message ? `: ${result.message}` : ''}`)
+        ]);
+      case AuthoritativeSourceStatus.MISMATCH:
+        return this.toValidationCheck('AUTHORITATIVE_SOURCE', [
+          finding('AUTHORITATIVE_SOURCE_MISMATCH', FindingSeverity.FAILURE,
+            `Issuer record differs in ${(result.mismatchedFields || []).join(', ') || 'some details'}`)
+        ]);
+      case AuthoritativeSourceStatus.REVOKED:
+        return this.toValidationCheck('AUTHORITATIVE_SOURCE', [
+          finding('AUTHORITATIVE_SOURCE_REVOKED', FindingSeverity.FAILURE, 'Issuer reports the document revoked')
+        ]);
+      default:
+        return this.toValidationCheck('AUTHORITATIVE_SOURCE', [
+          finding('AUTHORITATIVE_SOURCE_NOT_FOUND', FindingSeverity.FAILURE, 'Issuer has no record of the document')
+        ]);
+    }
+  }
+
+  private async changeLifecycleStatus(
+    personId: string,
+    action: PersonLifecycleAction.SUSPENDED | PersonLifecycleAction.REINSTATED | PersonLifecycleAction.REVOKED,
+    reason: string,
+    actor?: string
+  ): Promise<ProcessResult> {
+    const person = this.verifiedPersons.get(personId);
+    if (!person) {
+      return {
+        success: false,
+        message: 'Person not found',
+        timestamp: new Date()
+      };
+    }
+    if (!reason) {
+      return {
+        success: false,
+        message: 'A reason is required',
+        timestamp: new Date()
+      };
+    }
+
+    const now = new Date();
+    const previousStatus = person.verificationStatus;
+    let error: string | undefined;
+    if (previousStatus === VerificationStatus.REVOKED) {
+      error = 'Person is revoked';
+    } else if (action === PersonLifecycleAction.SUSPENDED) {
+      error = previousStatus === VerificationStatus.SUSPENDED ? 'Person is already suspended' : undefined;
+      if (!error) {
+        person.suspend(reason, actor, now);
+      }
+    } else if (action === PersonLifecycleAction.REINSTATED) {
+      error = previousStatus !== VerificationStatus.SUSPENDED ? 'Person is not suspended' : undefined;
+      if (!error) {
+        person.reinstate(reason, actor, now);
+      }
+    } else {
+      person.revoke(reason, actor, now);
+    }
+
+    if (error) {
+      return {
+        success: false,
+        message: error,
+        timestamp: now
+      };
+    }
+
+    return {
+      success: true,
+      message: `Identity ${action.toLowerCase()}`,
+      data: { personId, previousStatus, status: person.verificationStatus, reason, changedBy: actor },
+      timestamp: now
+    };
+  }
+
+  private toValidationCheck(type: EvidenceValidationCheck['type'], findings: ValidationFinding[]): EvidenceValidationCheck {
+    return { type, passed: !findings.some(finding => finding.severity === FindingSeverity.FAILURE), findings };
+  }
+
+  private async authorizeRequester(requesterInfo: RequesterInfo, requestedAttributes: string[]): Promise<boolean> {
+    // Simplified authorization logic
     return requesterInfo.isAuthorized && requestedAttributes.length > 0;
   }
 
@@ -465,13 +1258,328 @@ export class IdentityProvider {
   }
 
   private async validateUpdateRequest(updateRequest: IdentityUpdateRequest): Promise<ProcessResult> {
-    // Simplified validation
+    // Every version must say who asked for it and why
+    const errors: string[] = [];
+    if (!updateRequest.reason) {
+      errors.push('reason is required');
+    }
+    if (!updateRequest.requestedBy) {
+      errors.push('requestedBy is required');
+    }
+    if (Object.keys(updateRequest.updatedAttributes || {}).length === 0) {
+      errors.push('No attributes to update');
+    }
+
     return {
-      success: true,
-      message: 'Update request validated',
+      success: errors.length === 0,
+      message: errors.length === 0 ? 'Update request validated' : 'Invalid update request',
+      errors: errors.length > 0 ? errors : undefined,
       timestamp: new Date()
     };
   }
+
+  /**
+   * Check a candidate against established persons. Returns the case blocking
+   * establishment (pending or confirmed duplicate), or undefined when clear.
+   * Persons already adjudicated as distinct from the candidate are not matched again.
+   */
+  private async screenForDuplicates(
+    personId: string,
+    identityInformation: IdentityInformation,
+    evidencePackage: EvidencePackage
+  ): Promise<DuplicateAdjudicationCase | undefined> {
+    const priorCases = Array.from(this.adjudicationCases.values()).filter(adjudicationCase => adjudicationCase.personId === personId);
+    const blockingCase = priorCases.find(adjudicationCase => adjudicationCase.status !== AdjudicationStatus.DISTINCT_PERSON);
+    if (blockingCase) {
+      return blockingCase;
+    }
+
+    const cleared = new Set(priorCases.flatMap(adjudicationCase => adjudicationCase.matches.map(match => match.personId)));
+    const candidates = Array.from(this.verifiedPersons.values()).filter(person => !cleared.has(person.personId));
+    const matches = await this.deduplicator.findDuplicates(identityInformation, evidencePackage, candidates);
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const adjudicationCase: DuplicateAdjudicationCase = {
+      caseId: this.generateAdjudicationCaseId(),
+      personId,
+      identityInformation,
+      evidencePackage,
+      matches,
+      status: AdjudicationStatus.PENDING,
+      createdAt: new Date()
+    };
+    this.adjudicationCases.set(adjudicationCase.caseId, adjudicationCase);
+    return adjudicationCase;
+  }
+
+  private duplicateCaseResult(adjudicationCase: DuplicateAdjudicationCase): ProcessResult {
+    if (adjudicationCase.status === AdjudicationStatus.PENDING) {
+      return {
+        success: false,
+        message: 'Possible duplicate identity flagged for adjudication',
+        data: { caseId: adjudicationCase.caseId, matches: adjudicationCase.matches },
+        timestamp: new Date()
+      };
+    }
+    return {
+      success: false,
+      message: `Identity duplicates established person ${adjudicationCase.duplicateOf}`,
+      data: { caseId: adjudicationCase.caseId, duplicateOf: adjudicationCase.duplicateOf },
+      timestamp: new Date()
+    };
+  }
+
+  private generateAdjudicationCaseId(): string {
+    return 'ADJ-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  }
+
+  private generateProofingSessionId(): string {
+    return 'IPS-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+  }
+
+  /**
+   * Run steps until the session completes, fails, or needs more input
+   */
+  private async runProofingWorkflow(session: IdentityProofingSession): Promise<ProcessResult> {
+    while (session.status === ProcessStatus.IN_PROGRESS) {
+      const step = session.currentStep;
+      const startedAt = new Date();
+      const outcome = await this.executeProofingStep(session, step);
+      const result = session.recordStepResult({ ...outcome, step, startedAt, completedAt: new Date() });
+
+      if (result.outcome === ProofingStepOutcome.PASSED) {
+        session.advance();
+      } else if (result.outcome === ProofingStepOutcome.AWAITING_INPUT) {
+        break;
+      } else if (result.final || session.getAttempts(step) >= session.workflow.maxStepAttempts) {
+        session.fail([`${step}: ${result.message}`, ...(result.errors || [])]);
+      } else {
+        break;
+      }
+    }
+
+    const state = session.describe();
+    switch (session.status) {
+      case ProcessStatus.COMPLETED:
+        return { success: true, message: 'Identity proofing completed', data: state, timestamp: new Date() };
+      case ProcessStatus.FAILED:
+        return { success: false, message: 'Identity proofing failed', data: state, errors: session.failureReasons, timestamp: new Date() };
+      default: {
+        const latest = session.getLatestResult(session.currentStep);
+        const message = latest?.outcome === ProofingStepOutcome.FAILED
+          ? `${session.currentStep} failed; ${session.workflow.maxStepAttempts - latest.attempt} attempts remaining`
+          : `Identity proofing awaiting input at ${session.currentStep}`;
+        return { success: true, message, data: state, errors: latest?.errors, timestamp: new Date() };
+      }
+    }
+  }
+
+  private async executeProofingStep(session: IdentityProofingSession, step: ProofingStep): Promise<ProofingStepOutcomeDetails> {
+    switch (step) {
+      case ProofingStep.EVIDENCE_COLLECTION:
+        return this.collectProofingEvidence(session);
+      case ProofingStep.EVIDENCE_VALIDATION:
+        return this.validateProofingEvidence(session);
+      case ProofingStep.IDENTITY_RESOLUTION:
+        return this.resolveProofingIdentity(session);
+      case ProofingStep.IDENTITY_VERIFICATION:
+        return this.verifyProofingIdentity(session);
+      case ProofingStep.IDENTITY_ESTABLISHMENT:
+        return this.establishProofingIdentity(session);
+      default:
+        return { outcome: ProofingStepOutcome.FAILED, message: `Unknown proofing step ${step}`, final: true };
+    }
+  }
+
+  private async collectProofingEvidence(session: IdentityProofingSession): Promise<ProofingStepOutcomeDetails> {
+    const workflow = session.workflow;
+    const evidencePackage = session.evidencePackage;
+    const missing: string[] = [];
+
+    if (!session.identityInformation) {
+      missing.push('Identity information is required');
+    }
+    const primaryCount = evidencePackage?.primaryEvidence.length || 0;
+    if (primaryCount < workflow.minimumPrimaryEvidence) {
+      missing.push(`${workflow.minimumPrimaryEvidence} primary evidence required, ${primaryCount} provided`);
+    }
+    const secondaryCount = evidencePackage?.secondaryEvidence?.length || 0;
+    if (secondaryCount < workflow.minimumSecondaryEvidence) {
+      missing.push(`${workflow.minimumSecondaryEvidence} secondary evidence required, ${secondaryCount} provided`);
+    }
+    if (workflow.requireBiometricEvidence && !evidencePackage?.biometricEvidence?.length) {
+      missing.push('Biometric evidence is required');
+    }
+
+    const evidenceRules = evidencePackage ? this.evidenceCatalogue.evaluate(evidencePackage, session.targetAssuranceLevel) : undefined;
+    evidenceRules?.rules.filter(result => !result.satisfied).forEach(result => missing.push(result.rule.description));
+
+    if (missing.length > 0) {
+      return { outcome: ProofingStepOutcome.AWAITING_INPUT, message: 'Additional evidence required', data: { evidenceRules }, errors: missing };
+    }
+    return {
+      outcome: ProofingStepOutcome.PASSED,
+      message: 'Evidence collected',
+      data: { primaryEvidence: primaryCount, secondaryEvidence: secondaryCount, evidenceRules }
+    };
+  }
+
+  private async validateProofingEvidence(session: IdentityProofingSession): Promise<ProofingStepOutcomeDetails> {
+    const evidencePackage = session.evidencePackage!;
+    const evidence = [...evidencePackage.primaryEvidence, ...(evidencePackage.secondaryEvidence || [])];
+    const errors: string[] = [];
+    const evidenceResults: Record<string, EvidenceValidationCheck[]> = {};
+
+    for (const item of evidence) {
+      const validation = await this.validateEvidence(item, session.identityInformation?.coreAttributes);
+      evidenceResults[item.evidenceId] = validation.data?.validationChecks || [];
+      if (!validation.success) {
+        const failedChecks: EvidenceValidationCheck[] = (validation.data?.validationChecks || [])
+          .filter((check: EvidenceValidationCheck) => !check.passed);
+        const failures = failedChecks
+          .flatMap(check => check.findings)
+          .filter(finding => finding.severity === FindingSeverity.FAILURE)
+          .map(finding => finding.message);
+        errors.push(
+          `Evidence ${item.evidenceId} failed ${failedChecks.map(check => check.type).join(', ') || 'validation'}` +
+          (failures.length > 0 ? `: ${failures.join('; ')}` : '')
+        );
+      }
+    }
+
+    const informationValidation = await this.validateIdentityInformation(session.identityInformation!);
+    if (!informationValidation.success) {
+      errors.push(informationValidation.message);
+    }
+
+    if (errors.length > 0) {
+      return { outcome: ProofingStepOutcome.FAILED, message: 'Evidence validation failed', data: { evidenceResults }, errors };
+    }
+    return {
+      outcome: ProofingStepOutcome.PASSED,
+      message: 'Evidence validated',
+      data: { evidenceResults, informationScore: informationValidation.data?.overallScore }
+    };
+  }
+
+  private async resolveProofingIdentity(session: IdentityProofingSession): Promise<ProofingStepOutcomeDetails> {
+    const { totalScore: resolutionScore, factors: breakdown } = await this.calculateResolutionScore(session.identityInformation!);
+    const minimumScore = this.getMinimumResolutionScore(session.targetAssuranceLevel);
+
+    if (resolutionScore < minimumScore) {
+      return {
+        outcome: ProofingStepOutcome.FAILED,
+        message: 'Identity could not be resolved to a unique person',
+        data: { resolutionScore, minimumScore, breakdown }
+      };
+    }
+    return { outcome: ProofingStepOutcome.PASSED, message: 'Identity resolved', data: { resolutionScore, minimumScore, breakdown } };
+  }
+
+  private async verifyProofingIdentity(session: IdentityProofingSession): Promise<ProofingStepOutcomeDetails> {
+    const method = session.verificationMethod;
+    if (!method) {
+      return {
+        outcome: ProofingStepOutcome.AWAITING_INPUT,
+        message: 'Verification method required',
+        errors: [`Accepted methods: ${session.workflow.verificationMethods.join(', ')}`]
+      };
+    }
+    if (!session.workflow.verificationMethods.includes(method)) {
+      return {
+        outcome: ProofingStepOutcome.FAILED,
+        message: `${method} verification is not accepted at ${session.targetAssuranceLevel}`,
+        final: true
+      };
+    }
+
+    const evidence = await this.validatedProofingEvidence(session);
+    if (evidence.length === 0 && !session.liveCapture) {
+      return {
+        outcome: ProofingStepOutcome.AWAITING_INPUT,
+        message: 'Verification requires validated evidence or a live capture',
+        errors: ['Submit an evidence package or a live capture']
+      };
+    }
+
+    const candidate = new VerifiedPerson(
+      session.personId,
+      session.identityInformation!,
+      session.evidencePackage!,
+      session.targetAssuranceLevel,
+      new Date()
+    );
+    const verification = await this.performVerification(candidate, method, session.liveCapture, evidence);
+    return {
+      outcome: verification.success ? ProofingStepOutcome.PASSED : ProofingStepOutcome.FAILED,
+      message: verification.message,
+      data: { ...verification.data, verificationMethod: method },
+      errors: verification.errors
+    };
+  }
+
+  /**
+   * Session evidence that has passed validation; workflows without a
+   * validation step have it checked here
+   */
+  private async validatedProofingEvidence(session: IdentityProofingSession): Promise<IdentityEvidence[]> {
+    const evidence = [...(session.evidencePackage?.primaryEvidence || []), ...(session.evidencePackage?.secondaryEvidence || [])];
+    if (session.workflow.steps.includes(ProofingStep.EVIDENCE_VALIDATION)) {
+      return evidence;
+    }
+
+    const validated: IdentityEvidence[] = [];
+    for (const item of evidence) {
+      if ((await this.validateEvidence(item, session.identityInformation!.coreAttributes)).success) {
+        validated.push(item);
+      }
+    }
+    return validated;
+  }
+
+  private async establishProofingIdentity(session: IdentityProofingSession): Promise<ProofingStepOutcomeDetails> {
+    if (this.verifiedPersons.has(session.personId)) {
+      return { outcome: ProofingStepOutcome.FAILED, message: 'Person is already established', final: true };
+    }
+
+    const duplicateCase = await this.screenForDuplicates(session.personId, session.identityInformation!, session.evidencePackage!);
+    if (duplicateCase?.status === AdjudicationStatus.PENDING) {
+      return {
+        outcome: ProofingStepOutcome.AWAITING_INPUT,
+        message: 'Awaiting duplicate identity adjudication',
+        data: { caseId: duplicateCase.caseId, matches: duplicateCase.matches }
+      };
+    }
+    if (duplicateCase) {
+      return {
+        outcome: ProofingStepOutcome.FAILED,
+        message: `Identity duplicates established person ${duplicateCase.duplicateOf}`,
+        data: { caseId: duplicateCase.caseId, duplicateOf: duplicateCase.duplicateOf },
+        final: true
+      };
+    }
+
+    const person = new VerifiedPerson(
+      session.personId,
+      session.identityInformation!,
+      session.evidencePackage!,
+      session.targetAssuranceLevel,
+      new Date()
+    );
+    const verification = session.getLatestResult(ProofingStep.IDENTITY_VERIFICATION);
+    if (verification?.outcome === ProofingStepOutcome.PASSED) {
+      person.markVerified(session.verificationMethod!, verification.completedAt);
+    }
+    this.verifiedPersons.set(person.personId, person);
+
+    return {
+      outcome: ProofingStepOutcome.PASSED,
+      message: 'Identity established',
+      data: { personId: person.personId, assuranceLevel: person.assuranceLevel, establishedAt: person.establishedAt }
+    };
+  }
 }
 
 // Supporting classes and interfaces
@@ -485,6 +1593,10 @@ export class VerifiedPerson {
   public verifiedAt?: Date;
   public verificationMethod?: VerificationMethod;
   public lastUpdated?: Date;
+  public reverificationDueAt?: Date;
+  public statusReason?: string;
+  public lifecycleHistory: PersonLifecycleEvent[] = [];
+  public attributeHistory: AttributeHistory;
 
   constructor(
     personId: string,
@@ -499,10 +1611,99 @@ export class VerifiedPerson {
     this.assuranceLevel = assuranceLevel;
     this.establishedAt = establishedAt;
     this.verificationStatus = VerificationStatus.PENDING;
+    this.attributeHistory = new AttributeHistory(identityInformation.coreAttributes, establishedAt);
+  }
+
+  markVerified(method: VerificationMethod, at: Date): void {
+    this.verifiedAt = at;
+    this.verificationMethod = method;
+    this.reverificationDueAt = new Date(at.getTime() + REVERIFICATION_INTERVAL_DAYS[this.assuranceLevel] * 24 * 60 * 60 * 1000);
+    this.recordLifecycleEvent(PersonLifecycleAction.VERIFIED, VerificationStatus.VERIFIED, `Verified ${method}`, at);
+  }
+
+  /**
+   * Verify again on a refreshed evidence package, at the level it supports
+   */
+  reverify(evidencePackage: EvidencePackage, assuranceLevel: AssuranceLevel, method: VerificationMethod, at: Date): void {
+    const previousAssuranceLevel = this.assuranceLevel;
+    this.evidencePackage = evidencePackage;
+    this.assuranceLevel = assuranceLevel;
+    this.verifiedAt = at;
+    this.verificationMethod = method;
+    this.reverificationDueAt = new Date(at.getTime() + REVERIFICATION_INTERVAL_DAYS[assuranceLevel] * 24 * 60 * 60 * 1000);
+    this.recordLifecycleEvent(PersonLifecycleAction.VERIFIED, VerificationStatus.VERIFIED, `Reverified ${method}`, at, undefined, previousAssuranceLevel);
+  }
+
+  suspend(reason: string, actor: string | undefined, at: Date): void {
+    this.recordLifecycleEvent(PersonLifecycleAction.SUSPENDED, VerificationStatus.SUSPENDED, reason, at, actor);
+  }
+
+  /**
+   * Return to the status held before suspension
+   */
+  reinstate(reason: string, actor: string | undefined, at: Date): void {
+    const suspension = [...this.lifecycleHistory].reverse().find(event => event.action === PersonLifecycleAction.SUSPENDED);
+    let status = suspension?.previousStatus ?? VerificationStatus.PENDING;
+    if (status === VerificationStatus.VERIFIED && this.reverificationDueAt && this.reverificationDueAt <= at) {
+      status = VerificationStatus.REVERIFICATION_REQUIRED;
+    }
+    this.recordLifecycleEvent(PersonLifecycleAction.REINSTATED, status, reason, at, actor);
+  }
+
+  revoke(reason: string, actor: string | undefined, at: Date): void {
+    this.recordLifecycleEvent(PersonLifecycleAction.REVOKED, VerificationStatus.REVOKED, reason, at, actor);
   }
 
-  updateInformation(updatedAttributes: Partial<CoreAttributes>): void {
-    Object.assign(this.identityInformation.coreAttributes, updatedAttributes);
+  requireReverification(reason: string, at: Date): void {
+    this.recordLifecycleEvent(PersonLifecycleAction.REVERIFICATION_REQUIRED, VerificationStatus.REVERIFICATION_REQUIRED, reason, at);
+  }
+
+  demote(assuranceLevel: AssuranceLevel, reason: string, at: Date): void {
+    const previousAssuranceLevel = this.assuranceLevel;
+    this.assuranceLevel = assuranceLevel;
+    this.recordLifecycleEvent(PersonLifecycleAction.DEMOTED, this.verificationStatus, reason, at, undefined, previousAssuranceLevel);
+  }
+
+  private recordLifecycleEvent(
+    action: PersonLifecycleAction,
+    status: VerificationStatus,
+    reason: string,
+    at: Date,
+    actor?: string,
+    previousAssuranceLevel: AssuranceLevel = this.assuranceLevel
+  ): void {
+    this.lifecycleHistory.push({
+      action,
+      previousStatus: this.verificationStatus,
+      status,
+      previousAssuranceLevel,
+      assuranceLevel: this.assuranceLevel,
+      reason,
+      actor,
+      occurredAt: at
+    });
+    this.verificationStatus = status;
+    this.statusReason = status === VerificationStatus.VERIFIED ? undefined : reason;
+  }
+
+  /**
+   * Record an update as a new attribute version and make it current
+   */
+  updateInformation(updateRequest: IdentityUpdateRequest, at: Date): AttributeVersion {
+    const version = this.attributeHistory.record(
+      updateRequest.updatedAttributes,
+      updateRequest.reason,
+      updateRequest.requestedBy,
+      updateRequest.supportingEvidence,
+      at
+    );
+    // A fresh working copy, so the previous object and the recorded versions stay untouched
+    this.identityInformation = {
+      ...this.identityInformation,
+      coreAttributes: copyAttributes(version.attributes)
+    };
+    this.lastUpdated = at;
+    return version;
   }
 }
 
@@ -539,17 +1740,14 @@ export interface EvidencePackage {
 export interface IdentityEvidence {
   evidenceId: string;
   evidenceType: EvidenceType;
+  sourceId?: string; // catalogued evidence source, e.g. CA-PASSPORT
   issuer: string;
   issuedDate: Date;
   expirationDate: Date;
   requiredFields: FieldDefinition[];
-}
-
-export interface BiometricEvidence {
-  biometricType: BiometricType;
-  template: string; // Base64 encoded biometric template
-  qualityScore: number;
-  captureDate: Date;
+  barcodeData?: string; // PDF417 text from the back of a driver's licence or provincial ID card
+  machineReadableZone?: string; // passport MRZ, two lines
+  portrait?: BiometricEvidence; // face image from the document's photo page or chip
 }
 
 export interface FieldDefinition {
@@ -572,21 +1770,49 @@ export interface BiometricData {
   iris?: BiometricEvidence[];
 }
 
-export enum BiometricType {
-  FINGERPRINT = 'FINGERPRINT',
-  FACE = 'FACE',
-  IRIS = 'IRIS',
-  VOICE = 'VOICE'
-}
-
 export enum VerificationStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
   VERIFIED = 'VERIFIED',
   FAILED = 'FAILED',
-  SUSPENDED = 'SUSPENDED'
+  SUSPENDED = 'SUSPENDED',
+  REVERIFICATION_REQUIRED = 'REVERIFICATION_REQUIRED',
+  REVOKED = 'REVOKED'
+}
+
+export enum PersonLifecycleAction {
+  VERIFIED = 'VERIFIED',
+  SUSPENDED = 'SUSPENDED',
+  REINSTATED = 'REINSTATED',
+  REVOKED = 'REVOKED',
+  REVERIFICATION_REQUIRED = 'REVERIFICATION_REQUIRED',
+  DEMOTED = 'DEMOTED'
 }
 
+/**
+ * One change to a verified person's status or assurance level
+ */
+export interface PersonLifecycleEvent {
+  action: PersonLifecycleAction;
+  previousStatus: VerificationStatus;
+  status: VerificationStatus;
+  previousAssuranceLevel: AssuranceLevel;
+  assuranceLevel: AssuranceLevel;
+  reason: string;
+  actor?: string;
+  occurredAt: Date;
+}
+
+/**
+ * Days a verification stays current before the person must be reverified
+ */
+export const REVERIFICATION_INTERVAL_DAYS: Record<AssuranceLevel, number> = {
+  [AssuranceLevel.LOA1]: 5 * 365,
+  [AssuranceLevel.LOA2]: 3 * 365,
+  [AssuranceLevel.LOA3]: 2 * 365,
+  [AssuranceLevel.LOA4]: 365
+};
+
 export enum VerificationMethod {
   IN_PERSON = 'IN_PERSON',
   REMOTE_SUPERVISED = 'REMOTE_SUPERVISED',
@@ -613,8 +1839,9 @@ export interface ValidationResult {
 }
 
 export interface EvidenceValidationCheck {
-  type: 'AUTHENTICITY' | 'INTEGRITY' | 'CURRENCY' | 'COMPLETENESS';
-  passed: boolean;
+  type: 'AUTHENTICITY' | 'INTEGRITY' | 'CURRENCY' | 'COMPLETENESS' | 'AUTHORITATIVE_SOURCE';
+  passed: boolean; // no FAILURE findings
+  findings: ValidationFinding[];
 }
 
 export interface RequesterInfo {
@@ -624,26 +1851,230 @@ export interface RequesterInfo {
   isAuthorized: boolean;
 }
 
+/**
+ * The delegation a delegate relies on to present someone else's identity
+ */
+export interface DelegatedPresentation {
+  delegationId: string;
+  delegateId: string;
+  principalId?: string; // principal as named in the grant, e.g. an authentication subject id; defaults to the person id
+}
+
+/**
+ * Evidence and biometrics presented when an established person is verified
+ * again, e.g. to recover a lost authenticator
+ */
+export interface IdentityVerificationSubmission {
+  evidence?: IdentityEvidence[]; // presented now, not taken from the stored record
+  liveCapture?: BiometricEvidence; // face captured during this verification
+}
+
 export interface IdentityUpdateRequest {
   personId: string;
   updatedAttributes: Partial<CoreAttributes>;
   reason: string;
   requestedBy: string;
+  supportingEvidence?: IdentityEvidence[]; // evidence backing the change, e.g. a marriage certificate
+}
+
+/**
+ * Steps of the identity proofing workflow, in the order they run
+ */
+export enum ProofingStep {
+  EVIDENCE_COLLECTION = 'EVIDENCE_COLLECTION',
+  EVIDENCE_VALIDATION = 'EVIDENCE_VALIDATION',
+  IDENTITY_RESOLUTION = 'IDENTITY_RESOLUTION',
+  IDENTITY_VERIFICATION = 'IDENTITY_VERIFICATION',
+  IDENTITY_ESTABLISHMENT = 'IDENTITY_ESTABLISHMENT'
+}
+
+export enum ProofingStepOutcome {
+  PASSED = 'PASSED',
+  FAILED = 'FAILED',
+  AWAITING_INPUT = 'AWAITING_INPUT' // resumable once the applicant supplies more
+}
+
+/**
+ * Workflow requirements for proofing to a target assurance level
+ */
+export interface ProofingWorkflowDefinition {
+  assuranceLevel: AssuranceLevel;
+  steps: ProofingStep[];
+  minimumPrimaryEvidence: number;
+  minimumSecondaryEvidence: number;
+  requireBiometricEvidence: boolean;
+  verificationMethods: VerificationMethod[];
+  maxStepAttempts: number; // failures of one step before the session fails
+}
+
+/**
+ * Information an applicant submits to a proofing session
+ */
+export interface ProofingSubmission {
+  identityInformation?: IdentityInformation;
+  evidencePackage?: EvidencePackage;
+  verificationMethod?: VerificationMethod;
+  liveCapture?: BiometricEvidence; // face captured during the session, for REMOTE_UNSUPERVISED
 }
 
+interface ProofingStepOutcomeDetails {
+  outcome: ProofingStepOutcome;
+  message: string;
+  data?: any;
+  errors?: string[];
+  final?: boolean; // the failure cannot be corrected by resubmitting
+}
+
+export interface ProofingStepResult extends ProofingStepOutcomeDetails {
+  step: ProofingStep;
+  attempt: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+export const PROOFING_WORKFLOWS: Record<AssuranceLevel, ProofingWorkflowDefinition> = {
+  [AssuranceLevel.LOA1]: {
+    assuranceLevel: AssuranceLevel.LOA1,
+    // Self-asserted information; there is no validation step, so any evidence is checked at verification
+    steps: [
+      ProofingStep.EVIDENCE_COLLECTION,
+      ProofingStep.IDENTITY_RESOLUTION,
+      ProofingStep.IDENTITY_VERIFICATION,
+      ProofingStep.IDENTITY_ESTABLISHMENT
+    ],
+    minimumPrimaryEvidence: 0,
+    minimumSecondaryEvidence: 0,
+    requireBiometricEvidence: false,
+    verificationMethods: [VerificationMethod.IN_PERSON, VerificationMethod.REMOTE_SUPERVISED, VerificationMethod.REMOTE_UNSUPERVISED],
+    maxStepAttempts: 3
+  },
+  [AssuranceLevel.LOA2]: {
+    assuranceLevel: AssuranceLevel.LOA2,
+    steps: Object.values(ProofingStep),
+    minimumPrimaryEvidence: 1,
+    minimumSecondaryEvidence: 0,
+    requireBiometricEvidence: false,
+    verificationMethods: [VerificationMethod.IN_PERSON, VerificationMethod.REMOTE_SUPERVISED, VerificationMethod.REMOTE_UNSUPERVISED],
+    maxStepAttempts: 3
+  },
+  [AssuranceLevel.LOA3]: {
+    assuranceLevel: AssuranceLevel.LOA3,
+    steps: Object.values(ProofingStep),
+    minimumPrimaryEvidence: 1,
+    minimumSecondaryEvidence: 1,
+    requireBiometricEvidence: false,
+    verificationMethods: [VerificationMethod.IN_PERSON, VerificationMethod.REMOTE_SUPERVISED],
+    maxStepAttempts: 3
+  },
+  [AssuranceLevel.LOA4]: {
+    assuranceLevel: AssuranceLevel.LOA4,
+    steps: Object.values(ProofingStep),
+    minimumPrimaryEvidence: 2,
+    minimumSecondaryEvidence: 1,
+    requireBiometricEvidence: true,
+    verificationMethods: [VerificationMethod.IN_PERSON],
+    maxStepAttempts: 2
+  }
+};
+
 export class IdentityProofingSession {
   public sessionId: string;
   public personId: string;
   public status: ProcessStatus;
   public startedAt: Date;
   public completedAt?: Date;
-  public currentStep: string;
+  public currentStep: ProofingStep;
+  public workflow: ProofingWorkflowDefinition;
+  public targetAssuranceLevel: AssuranceLevel;
+  public identityInformation?: IdentityInformation;
+  public evidencePackage?: EvidencePackage;
+  public verificationMethod?: VerificationMethod;
+  public liveCapture?: BiometricEvidence;
+  public stepResults: ProofingStepResult[] = [];
+  public failureReasons: string[] = [];
 
-  constructor(sessionId: string, personId: string) {
+  constructor(sessionId: string, personId: string, workflow: ProofingWorkflowDefinition = PROOFING_WORKFLOWS[AssuranceLevel.LOA2]) {
     this.sessionId = sessionId;
     this.personId = personId;
     this.status = ProcessStatus.IN_PROGRESS;
     this.startedAt = new Date();
-    this.currentStep = 'EVIDENCE_COLLECTION';
+    this.workflow = workflow;
+    this.targetAssuranceLevel = workflow.assuranceLevel;
+    this.currentStep = workflow.steps[0];
+  }
+
+  /**
+   * Accept applicant input; new information or evidence is collected and validated again
+   */
+  submit(submission: ProofingSubmission): void {
+    if (submission.identityInformation || submission.evidencePackage) {
+      this.identityInformation = submission.identityInformation || this.identityInformation;
+      this.evidencePackage = submission.evidencePackage || this.evidencePackage;
+      this.currentStep = this.workflow.steps[0];
+    }
+    if (submission.verificationMethod) {
+      this.verificationMethod = submission.verificationMethod;
+    }
+    if (submission.liveCapture) {
+      this.liveCapture = submission.liveCapture;
+    }
+  }
+
+  recordStepResult(result: Omit<ProofingStepResult, 'attempt'>): ProofingStepResult {
+    const recorded = { ...result, attempt: this.getAttempts(result.step) + 1 };
+    this.stepResults.push(recorded);
+    return recorded;
+  }
+
+  /**
+   * Number of times a step has run since it last passed
+   */
+  getAttempts(step: ProofingStep): number {
+    let attempts = 0;
+    for (let index = this.stepResults.length - 1; index >= 0; index--) {
+      const result = this.stepResults[index];
+      if (result.step !== step || result.outcome === ProofingStepOutcome.AWAITING_INPUT) {
+        continue;
+      }
+      if (result.outcome === ProofingStepOutcome.PASSED) {
+        break;
+      }
+      attempts++;
+    }
+    return attempts;
+  }
+
+  getLatestResult(step: ProofingStep): ProofingStepResult | undefined {
+    return [...this.stepResults].reverse().find(result => result.step === step);
+  }
+
+  advance(): void {
+    const next = this.workflow.steps[this.workflow.steps.indexOf(this.currentStep) + 1];
+    if (next) {
+      this.currentStep = next;
+    } else {
+      this.status = ProcessStatus.COMPLETED;
+      this.completedAt = new Date();
+    }
+  }
+
+  fail(reasons: string[]): void {
+    this.status = ProcessStatus.FAILED;
+    this.failureReasons = reasons;
+    this.completedAt = new Date();
+  }
+
+  describe(): Record<string, any> {
+    return {
+      sessionId: this.sessionId,
+      personId: this.personId,
+      targetAssuranceLevel: this.targetAssuranceLevel,
+      status: this.status,
+      currentStep: this.currentStep,
+      stepResults: this.stepResults,
+      failureReasons: this.failureReasons,
+      startedAt: this.startedAt,
+      completedAt: this.completedAt
+    };
   }
 }
@@ -0,0 +1,209 @@
+/**
+ * Identity Resolution Scoring
+ * Deterministic model scoring how well collected identity information
+ * distinguishes a single real person
+ */
+
+import { CoreAttributes, IdentityInformation, SupportingDocument, BiometricEvidence } from './identity-provider';
+
+export enum ResolutionFactor {
+  CORE_ATTRIBUTES = 'CORE_ATTRIBUTES',
+  SUPPORTING_DOCUMENTS = 'SUPPORTING_DOCUMENTS',
+  BIOMETRICS = 'BIOMETRICS'
+}
+
+/**
+ * Contribution of one factor to the resolution score
+ */
+export interface ResolutionFactorScore {
+  factor: ResolutionFactor;
+  score: number;
+  maxScore: number;
+  details: string[];
+}
+
+export interface ResolutionScore {
+  totalScore: number; // 0-100
+  factors: ResolutionFactorScore[];
+}
+
+/**
+ * Points for each core attribute; they total the core attribute factor's maximum
+ */
+export const CORE_ATTRIBUTE_WEIGHTS = {
+  givenName: 6,
+  familyName: 6,
+  dateOfBirth: 8,
+  placeOfBirth: 4,
+  phoneNumber: 2,
+  emailAddress: 2,
+  address: {
+    streetAddress: 3,
+    city: 2,
+    province: 2,
+    postalCode: 3,
+    country: 2
+  }
+} as const;
+
+/**
+ * Points for a supporting document by normalised document type
+ */
+export const SUPPORTING_DOCUMENT_WEIGHTS: Record<string, number> = {
+  PASSPORT: 20,
+  DRIVERS_LICENCE: 20,
+  DRIVERS_LICENSE: 20,
+  PROVINCIAL_PHOTO_ID: 20,
+  PERMANENT_RESIDENT_CARD: 20,
+  CITIZENSHIP_CERTIFICATE: 20,
+  SECURE_CERTIFICATE_OF_INDIAN_STATUS: 20,
+  BIRTH_CERTIFICATE: 12,
+  HEALTH_CARD: 12,
+  MARRIAGE_CERTIFICATE: 12
+};
+
+const DEFAULT_DOCUMENT_WEIGHT = 6;
+const MAX_DOCUMENT_SCORE = 40;
+const BIOMETRIC_MODALITY_WEIGHT = 10;
+const LOW_QUALITY_BIOMETRIC_WEIGHT = 4;
+const MAX_BIOMETRIC_SCORE = 20;
+const MINIMUM_BIOMETRIC_QUALITY = 50;
+const MAXIMUM_AGE_YEARS = 130;
+
+/**
+ * Score identity information; the same input always yields the same score
+ */
+export function scoreIdentityResolution(identityInformation: IdentityInformation, at: Date = new Date()): ResolutionScore {
+  const factors = [
+    scoreCoreAttributes(identityInformation.coreAttributes, at),
+    scoreSupportingDocuments(identityInformation.supportingDocuments || [], at),
+    scoreBiometrics(identityInformation)
+  ];
+
+  return {
+    totalScore: factors.reduce((sum, factor) => sum + factor.score, 0),
+    factors
+  };
+}
+
+function scoreCoreAttributes(coreAttributes: CoreAttributes, at: Date): ResolutionFactorScore {
+  const weights = CORE_ATTRIBUTE_WEIGHTS;
+  const details: string[] = [];
+  let score = 0;
+  let maxScore = 0;
+
+  const award = (name: string, weight: number, present: boolean, reason = 'missing') => {
+    maxScore += weight;
+    if (present) {
+      score += weight;
+    } else {
+      details.push(`${name} ${reason}`);
+    }
+  };
+
+  award('givenName', weights.givenName, hasText(coreAttributes?.givenName));
+  award('familyName', weights.familyName, hasText(coreAttributes?.familyName));
+
+  const dateOfBirth = coreAttributes?.dateOfBirth;
+  if (!(dateOfBirth instanceof Date) || isNaN(dateOfBirth.getTime())) {
+    award('dateOfBirth', weights.dateOfBirth, false);
+  } else {
+    const ageYears = (at.getTime() - dateOfBirth.getTime()) / (365.25 * 24 * 60 * 60 * 1000);
+    award('dateOfBirth', weights.dateOfBirth, ageYears >= 0 && ageYears <= MAXIMUM_AGE_YEARS, 'implausible');
+  }
+
+  award('placeOfBirth', weights.placeOfBirth, hasText(coreAttributes?.placeOfBirth));
+  award('phoneNumber', weights.phoneNumber, hasText(coreAttributes?.phoneNumber));
+  award('emailAddress', weights.emailAddress, hasText(coreAttributes?.emailAddress));
+
+  (Object.keys(weights.address) as (keyof typeof weights.address)[]).forEach(field => {
+    award(`address.${field}`, weights.address[field], hasText(coreAttributes?.address?.[field]));
+  });
+
+  return { factor: ResolutionFactor.CORE_ATTRIBUTES, score, maxScore, details };
+}
+
+function scoreSupportingDocuments(documents: SupportingDocument[], at: Date): ResolutionFactorScore {
+  const details: string[] = [];
+  const counted = new Set<string>();
+  let score = 0;
+
+  documents.forEach(document => {
+    const documentType = normaliseDocumentType(document.documentType);
+    const key = `${documentType}:${document.documentNumber}`;
+
+    if (!hasText(document.documentNumber)) {
+      details.push(`${documentType} has no document number`);
+    } else if (document.expirationDate && document.expirationDate <= at) {
+      details.push(`${documentType} expired`);
+    } else if (counted.has(key)) {
+      details.push(`${documentType} ${document.documentNumber} submitted more than once`);
+    } else {
+      counted.add(key);
+      const weight = SUPPORTING_DOCUMENT_WEIGHTS[documentType] ?? DEFAULT_DOCUMENT_WEIGHT;
+      score += weight;
+      details.push(`${documentType} +${weight}`);
+    }
+  });
+
+  if (documents.length === 0) {
+    details.push('No supporting documents');
+  }
+  if (score > MAX_DOCUMENT_SCORE) {
+    details.push(`Capped at ${MAX_DOCUMENT_SCORE}`);
+  }
+
+  return {
+    factor: ResolutionFactor.SUPPORTING_DOCUMENTS,
+    score: Math.min(score, MAX_DOCUMENT_SCORE),
+    maxScore: MAX_DOCUMENT_SCORE,
+    details
+  };
+}
+
+function scoreBiometrics(identityInformation: IdentityInformation): ResolutionFactorScore {
+  const biometricData = identityInformation.biometricData;
+  const modalities: [string, BiometricEvidence[] | undefined][] = [
+    ['face', biometricData?.faceImage],
+    ['fingerprint', biometricData?.fingerprints],
+    ['iris', biometricData?.iris]
+  ];
+  const details: string[] = [];
+  let score = 0;
+
+  modalities.forEach(([modality, samples]) => {
+    if (!samples || samples.length === 0) {
+      return;
+    }
+    const bestQuality = Math.max(...samples.map(sample => sample.qualityScore));
+    if (bestQuality >= MINIMUM_BIOMETRIC_QUALITY) {
+      score += BIOMETRIC_MODALITY_WEIGHT;
+      details.push(`${modality} +${BIOMETRIC_MODALITY_WEIGHT}`);
+    } else {
+      score += LOW_QUALITY_BIOMETRIC_WEIGHT;
+      details.push(`${modality} quality ${bestQuality} below ${MINIMUM_BIOMETRIC_QUALITY} +${LOW_QUALITY_BIOMETRIC_WEIGHT}`);
+    }
+  });
+
+  if (details.length === 0) {
+    details.push('No biometric data');
+  }
+
+  return {
+    factor: ResolutionFactor.BIOMETRICS,
+    score: Math.min(score, MAX_BIOMETRIC_SCORE),
+    maxScore: MAX_BIOMETRIC_SCORE,
+    details
+  };
+}
+
+/**
+ * Canonical form of a document type, e.g. "Driver's Licence" -> DRIVERS_LICENCE
+ */
+export function normaliseDocumentType(documentType: string): string {
+  return (documentType || 'UNKNOWN').trim().toUpperCase().replace(/'/g, '').replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function hasText(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
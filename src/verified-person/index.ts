@@ -3,4 +3,12 @@
  * Barrel export for verified person module
  */
 
-export { IdentityProvider } from './identity-provider';
+export * from './identity-provider';
+export * from './identity-resolution';
+export * from './identity-deduplication';
+export * from './evidence-source-catalogue';
+export * from './evidence-strength';
+export * from './document-authenticity';
+export * from './biometric-verification';
+export * from './authoritative-source';
+export * from './attribute-history';
@@ -0,0 +1,24 @@
+/**
+ * Normalisation
+ * Comparison helpers for identity attributes and document numbers;
+ * internal to the verified person module
+ */
+
+/**
+ * Uppercase letters and digits only, with accents removed, so that
+ * document numbers and names compare regardless of case and punctuation
+ */
+export function normaliseToken(value: string): string {
+  return (value || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Calendar date (YYYY-MM-DD, UTC) of a date-only attribute
+ */
+export function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function sameDay(a: Date, b: Date): boolean {
+  return isoDate(a) === isoDate(b);
+}
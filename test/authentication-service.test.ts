@@ -0,0 +1,151 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssuranceLevel, EvidenceType } from '../src/shared/types';
+import { AuthenticationServiceProvider } from '../src/authentication/authentication-service';
+import { CredentialType } from '../src/authentication/authentication-credential';
+import { IdentityEvidence, IdentityProvider, VerificationMethod } from '../src/verified-person/identity-provider';
+
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+function newProvider(): AuthenticationServiceProvider {
+  return new AuthenticationServiceProvider('ASP-TEST', 'Test ASP', AssuranceLevel.LOA2, {
+    throttlePolicy: { maxCredentialFailures: 3, baseBackoffSeconds: 0, maxBackoffSeconds: 0 }
+  });
+}
+
+function passport(evidenceId: string): IdentityEvidence {
+  return {
+    evidenceId,
+    evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID,
+    issuer: 'Passport Canada',
+    issuedDate: new Date('2020-01-01'),
+    expirationDate: new Date('2030-01-01'),
+    requiredFields: [{ fieldName: 'documentNumber', value: 'AB123456', isRequired: true }]
+  };
+}
+
+/**
+ * Link an identity provider holding one established person, bound to subjectId
+ */
+async function linkEstablishedPerson(provider: AuthenticationServiceProvider, subjectId: string): Promise<IdentityProvider> {
+  const identityProvider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await identityProvider.establishIdentity('PERSON-001', {
+    coreAttributes: {
+      givenName: 'John',
+      familyName: 'Doe',
+      dateOfBirth: new Date('1990-01-01'),
+      address: { streetAddress: '1 Main St', city: 'Ottawa', province: 'ON', postalCode: 'K1A 0A1', country: 'CA' }
+    }
+  }, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+  provider.linkIdentityProvider(identityProvider);
+  provider.bindSubjectToPerson(subjectId, 'PERSON-001');
+  return identityProvider;
+}
+
+async function issuePassword(provider: AuthenticationServiceProvider, subjectId: string = 'USER-001'): Promise<string> {
+  const issued = await provider.issueCredential(subjectId, CredentialType.PASSWORD, { secret: PASSWORD });
+  assert.equal(issued.success, true, issued.message);
+  return issued.data.credentialId;
+}
+
+test('locks a credential after the failure threshold until an administrator unlocks it', async () => {
+  const provider = newProvider();
+  const credentialId = await issuePassword(provider);
+
+  for (let attempt = 1; attempt < 3; attempt++) {
+    const failed = await provider.authenticate(credentialId, 'wrong-password');
+    assert.equal(failed.success, false);
+    assert.equal(failed.data.lockedOut, false);
+  }
+  const locked = await provider.authenticate(credentialId, 'wrong-password');
+  assert.equal(locked.data.lockedOut, true);
+  assert.match(provider.getCredentialLockout(credentialId)!.reason, /^LOCKOUT: 3 consecutive failed attempts/);
+
+  // The right password does not get past a lockout
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, false);
+
+  const unlocked = await provider.unlockCredential(credentialId, 'ADMIN-01');
+  assert.equal(unlocked.success, true, unlocked.message);
+  assert.equal(unlocked.data.unlockedBy, 'ADMIN-01');
+  assert.equal(provider.getCredentialLockout(credentialId), undefined);
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, true);
+
+  assert.equal((await provider.unlockCredential(credentialId, 'ADMIN-01')).message, 'No lockout found for credential');
+});
+
+test('refuses recovery when no evidence or live capture is presented', async () => {
+  const provider = newProvider();
+  const credentialId = await issuePassword(provider);
+  await linkEstablishedPerson(provider, 'USER-001');
+
+  const refused = await provider.recoverCredential({
+    credentialId,
+    verificationMethod: VerificationMethod.REMOTE_SUPERVISED,
+    evidence: [],
+    enrollmentData: { secret: 'Another-Horse-Battery-7' }
+  });
+  assert.equal(refused.success, false);
+  assert.equal(refused.message, 'Recovery requires fresh evidence or a live biometric capture');
+  // The credential is neither replaced nor revoked
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, true);
+
+  const recovered = await provider.recoverCredential({
+    credentialId,
+    verificationMethod: VerificationMethod.REMOTE_SUPERVISED,
+    evidence: [passport('EVD-PRESENTED')],
+    enrollmentData: { secret: 'Another-Horse-Battery-7' }
+  });
+  assert.equal(recovered.success, true, recovered.message);
+  assert.equal(recovered.data.replacesCredentialId, credentialId);
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, false);
+  assert.equal((await provider.authenticate(recovered.data.credentialId, 'Another-Horse-Battery-7')).success, true);
+});
+
+test('re-issues on renewal only for types the policy requires it of', async () => {
+  const provider = new AuthenticationServiceProvider('ASP-TEST', 'Test ASP', AssuranceLevel.LOA2, {
+    renewalPolicy: { renewalWindowDays: 3650 }
+  });
+  const token = await provider.issueCredential('USER-001', CredentialType.TOKEN, {});
+  assert.equal(token.success, true, token.message);
+
+  const refused = await provider.renewCredential(token.data.credentialId, { otpSeed: 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ' });
+  assert.equal(refused.success, false);
+  assert.equal(refused.message, 'TOKEN credentials are renewed in place; enrollment data is not accepted');
+
+  const extended = await provider.renewCredential(token.data.credentialId);
+  assert.equal(extended.success, true, extended.message);
+  assert.equal(extended.data.credentialId, token.data.credentialId);
+  assert.equal(extended.data.replacesCredentialId, undefined);
+
+  const passwordId = await issuePassword(provider);
+  assert.equal(
+    (await provider.renewCredential(passwordId)).message,
+    'Renewal of PASSWORD credentials requires new enrollment data'
+  );
+  const reissued = await provider.renewCredential(passwordId, { secret: 'Another-Horse-Battery-7' });
+  assert.equal(reissued.success, true, reissued.message);
+  assert.equal(reissued.data.replacesCredentialId, passwordId);
+  assert.equal((await provider.authenticate(passwordId, PASSWORD)).success, false);
+  assert.equal((await provider.authenticate(reissued.data.credentialId, 'Another-Horse-Battery-7')).success, true);
+});
+
+test('opens at most one session per authentication', async () => {
+  const provider = newProvider();
+  const credentialId = await issuePassword(provider);
+  const sessionParameters = { assuranceLevel: AssuranceLevel.LOA2, maxDuration: 60, credentialIds: [credentialId] };
+
+  assert.equal((await provider.initiateSession('USER-001', sessionParameters)).success, false);
+
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, true);
+  const first = await provider.initiateSession('USER-001', sessionParameters);
+  assert.equal(first.success, true, first.message);
+
+  const replayed = await provider.initiateSession('USER-001', sessionParameters);
+  assert.equal(replayed.success, false);
+  assert.equal(replayed.message, `Credential ${credentialId} has not authenticated in the last 10 minutes`);
+
+  assert.equal((await provider.authenticate(credentialId, PASSWORD)).success, true);
+  const second = await provider.initiateSession('USER-001', sessionParameters);
+  assert.equal(second.success, true, second.message);
+  assert.notEqual(second.data.sessionId, first.data.sessionId);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssuranceLevel } from '../src/shared/types';
+import { AuthenticationCredential, CredentialType } from '../src/authentication/authentication-credential';
+import { BiometricFactorVerifier } from '../src/authentication/authentication-verifier';
+import { ReferenceBiometricProvider } from '../src/verified-person/biometric-verification';
+import { BiometricType } from '../src/verified-person/identity-provider';
+
+const ENROLLED_TEMPLATE = 'face-template-enrolled-0001';
+
+async function enrolledVerifier(): Promise<{
+  verifier: BiometricFactorVerifier;
+  provider: ReferenceBiometricProvider;
+  credential: AuthenticationCredential;
+}> {
+  const provider = new ReferenceBiometricProvider();
+  const verifier = new BiometricFactorVerifier(provider);
+  const now = new Date();
+  const credential = new AuthenticationCredential(
+    'CRED-BIO-001',
+    'USER-001',
+    CredentialType.BIOMETRIC,
+    AssuranceLevel.LOA2,
+    now,
+    new Date(now.getTime() + 24 * 60 * 60 * 1000)
+  );
+  await verifier.enroll(credential, {
+    biometricReference: { biometricType: BiometricType.FACE, template: ENROLLED_TEMPLATE, qualityScore: 90, captureDate: now }
+  });
+  return { verifier, provider, credential };
+}
+
+test('accepts a live sample that matches the enrolled reference', async () => {
+  const { verifier, credential } = await enrolledVerifier();
+
+  assert.deepEqual(await verifier.verify(credential, ENROLLED_TEMPLATE), { verified: true });
+});
+
+test('rejects a live sample below the minimum quality before matching', async () => {
+  const { verifier, provider, credential } = await enrolledVerifier();
+  provider.setQualityScore(ENROLLED_TEMPLATE, 20);
+
+  const result = await verifier.verify(credential, ENROLLED_TEMPLATE);
+  assert.equal(result.verified, false);
+  assert.equal(result.reason, 'Biometric sample quality 20 below 50');
+});
+
+test('rejects a sample that fails liveness', async () => {
+  const { verifier, provider, credential } = await enrolledVerifier();
+  provider.setLivenessScore(ENROLLED_TEMPLATE, 0.2);
+
+  const result = await verifier.verify(credential, ENROLLED_TEMPLATE);
+  assert.equal(result.verified, false);
+  assert.match(result.reason!, /^Liveness 0\.20 below/);
+});
+
+test('rejects a sample that does not match the enrolled reference', async () => {
+  const { verifier, credential } = await enrolledVerifier();
+
+  const result = await verifier.verify(credential, 'someone-else-entirely');
+  assert.equal(result.verified, false);
+  assert.match(result.reason!, /^Biometric match/);
+});
+
+test('refuses to enrol a low-quality reference', async () => {
+  const verifier = new BiometricFactorVerifier(new ReferenceBiometricProvider());
+  const now = new Date();
+  const credential = new AuthenticationCredential('CRED-BIO-002', 'USER-001', CredentialType.BIOMETRIC, AssuranceLevel.LOA2, now, now);
+
+  await assert.rejects(
+    verifier.enroll(credential, {
+      biometricReference: { biometricType: BiometricType.FACE, template: ENROLLED_TEMPLATE, qualityScore: 10, captureDate: now }
+    }),
+    /Biometric reference quality 10 below 50/
+  );
+});
@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EvidenceType } from '../src/shared/types';
+import { IdentityEvidence } from '../src/verified-person/identity-provider';
+import {
+  AuthoritativeSourcePolicy,
+  AuthoritativeSourceStatus,
+  AuthoritativeSourceValidator,
+  InMemoryIssuerRegistry
+} from '../src/verified-person/authoritative-source';
+
+const ISSUER = 'Passport Canada';
+
+const POLICY: AuthoritativeSourcePolicy = {
+  timeoutMs: 50,
+  maxRetries: 2,
+  retryDelayMs: 5,
+  cacheTtlMs: 60 * 1000
+};
+
+function passport(documentNumber: string = 'AB123456'): IdentityEvidence {
+  return {
+    evidenceId: `EVD-${documentNumber}`,
+    evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID,
+    issuer: ISSUER,
+    issuedDate: new Date('2020-01-01'),
+    expirationDate: new Date('2030-01-01'),
+    requiredFields: [{ fieldName: 'documentNumber', value: documentNumber, isRequired: true }]
+  };
+}
+
+function setUp(policy: AuthoritativeSourcePolicy = POLICY): { validator: AuthoritativeSourceValidator; registry: InMemoryIssuerRegistry } {
+  const registry = new InMemoryIssuerRegistry('passport-office', [
+    { documentNumber: 'AB123456', familyName: 'Doe', givenName: 'John', expirationDate: new Date('2030-01-01') }
+  ]);
+  const validator = new AuthoritativeSourceValidator(policy);
+  validator.registerConnector(ISSUER, registry);
+  return { validator, registry };
+}
+
+test('reports UNAVAILABLE when every attempt times out', async () => {
+  const { validator, registry } = setUp();
+  registry.simulateLatency(200);
+
+  const result = await validator.confirm(passport());
+  assert.ok(result);
+  assert.equal(result.status, AuthoritativeSourceStatus.UNAVAILABLE);
+  assert.match(result.message!, /timed out after 50ms/);
+  assert.equal(result.attempts, POLICY.maxRetries + 1);
+  assert.equal(registry.getLookupCount(), POLICY.maxRetries + 1);
+});
+
+test('does not cache an UNAVAILABLE answer', async () => {
+  const { validator, registry } = setUp();
+  registry.simulateOutage(POLICY.maxRetries + 1);
+
+  assert.equal((await validator.confirm(passport()))?.status, AuthoritativeSourceStatus.UNAVAILABLE);
+  const retried = await validator.confirm(passport());
+  assert.equal(retried?.status, AuthoritativeSourceStatus.CONFIRMED);
+  assert.equal(retried?.cached, false);
+});
+
+test('confirms on a retry after an outage', async () => {
+  const { validator, registry } = setUp();
+  registry.simulateOutage(2);
+
+  const result = await validator.confirm(passport(), {
+    givenName: 'John',
+    familyName: 'Doe',
+    dateOfBirth: new Date('1990-01-01'),
+    address: { streetAddress: '1 Main St', city: 'Ottawa', province: 'ON', postalCode: 'K1A 0A1', country: 'CA' }
+  });
+  assert.equal(result?.status, AuthoritativeSourceStatus.CONFIRMED);
+  assert.equal(result?.attempts, 3);
+  assert.equal(result?.cached, false);
+  assert.equal(registry.getLookupCount(), 3);
+});
+
+test('serves a repeated lookup from the cache', async () => {
+  const { validator, registry } = setUp();
+
+  const first = await validator.confirm(passport());
+  const second = await validator.confirm(passport());
+  assert.equal(first?.status, AuthoritativeSourceStatus.CONFIRMED);
+  assert.equal(second?.status, AuthoritativeSourceStatus.CONFIRMED);
+  assert.equal(second?.cached, true);
+  assert.equal(second?.attempts, 0);
+  assert.equal(second?.reference, first?.reference);
+  assert.equal(registry.getLookupCount(), 1);
+
+  // A different document is a different question
+  assert.equal((await validator.confirm(passport('ZZ999999')))?.status, AuthoritativeSourceStatus.NOT_FOUND);
+  assert.equal(registry.getLookupCount(), 2);
+
+  validator.clearCache();
+  assert.equal((await validator.confirm(passport()))?.cached, false);
+  assert.equal(registry.getLookupCount(), 3);
+});
+
+test('looks up again once the cached answer expires', async () => {
+  const { validator, registry } = setUp({ ...POLICY, cacheTtlMs: 20 });
+
+  await validator.confirm(passport());
+  await new Promise(resolve => setTimeout(resolve, 40));
+  const result = await validator.confirm(passport());
+  assert.equal(result?.cached, false);
+  assert.equal(registry.getLookupCount(), 2);
+});
+
+test('skips evidence with no connector or document number', async () => {
+  const { validator, registry } = setUp();
+
+  assert.equal(await validator.confirm({ ...passport(), issuer: 'Unknown Registry' }), undefined);
+  assert.equal(await validator.confirm({ ...passport(), requiredFields: [] }), undefined);
+  assert.equal(registry.getLookupCount(), 0);
+});
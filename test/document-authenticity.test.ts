@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPassportMrz, mrzCheckDigit, parsePassportMrz } from '../src/verified-person/document-authenticity';
+
+// ICAO Doc 9303 Part 4 TD3 specimen
+const SPECIMEN_MRZ = 'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10';
+
+test('computes ICAO 9303 check digits with weights 7, 3, 1', () => {
+  assert.equal(mrzCheckDigit('L898902C3'), 6);
+  assert.equal(mrzCheckDigit('740812'), 2);
+  assert.equal(mrzCheckDigit('120415'), 9);
+  assert.equal(mrzCheckDigit('ZE184226B<<<<<'), 1);
+  assert.equal(mrzCheckDigit('L898902C36' + '7408122' + '120415' + '9ZE184226B<<<<<1'), 0);
+  // Fillers count as zero, letters from A=10
+  assert.equal(mrzCheckDigit('<<<<<<<<<'), 0);
+  assert.equal(mrzCheckDigit('A'), 0);
+  assert.equal(mrzCheckDigit('AB'), 3);
+});
+
+test('accepts the ICAO specimen passport MRZ', () => {
+  const document = parsePassportMrz(SPECIMEN_MRZ);
+  assert.deepEqual(document.checkDigits, {
+    documentNumber: true,
+    dateOfBirth: true,
+    expiryDate: true,
+    personalNumber: true,
+    composite: true
+  });
+  assert.equal(document.documentNumber, 'L898902C3');
+  assert.equal(document.familyName, 'ERIKSSON');
+  assert.equal(document.givenNames, 'ANNA MARIA');
+
+  const { findings } = checkPassportMrz(SPECIMEN_MRZ);
+  assert.deepEqual(findings.map(finding => finding.code), ['MRZ_ISSUER_NOT_CANADIAN']);
+});
+
+test('reports each check digit an altered MRZ no longer satisfies', () => {
+  // Document number L898902C3 altered to L898902C4
+  const altered = SPECIMEN_MRZ.replace('L898902C36', 'L898902C46');
+  const { findings } = checkPassportMrz(altered);
+  assert.deepEqual(
+    findings.filter(finding => finding.code === 'MRZ_CHECK_DIGIT_INVALID').map(finding => finding.field),
+    ['documentNumber', 'composite']
+  );
+});
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AssuranceLevel, EvidenceType } from '../src/shared/types';
+import { EvidenceCategory, EvidenceSourceCatalogue } from '../src/verified-person/evidence-source-catalogue';
+
+const CATALOGUE_YAML = `
+# Evidence sources accepted by this provider
+---
+sources:
+  - sourceId: CA-PASSPORT   # trailing comment
+    sourceName: "Canadian Passport"
+    evidenceType: GOVERNMENT_ISSUED_ID
+    trustLevel: 95
+    category: PRIMARY
+    maximumAssuranceLevel: LOA4
+    photo: true
+  - sourceId: UTILITY-BILL
+    sourceName: 'Hydro''s bill' # quoted apostrophe
+    evidenceType: DOCUMENT_VERIFICATION
+    trustLevel: 40
+    category: SECONDARY
+    maximumAssuranceLevel: LOA2
+    photo: false
+rules:
+  LOA2:
+  - description: One primary photo ID
+    category: PRIMARY
+    evidenceTypes: [GOVERNMENT_ISSUED_ID, 'BIOMETRIC']
+    requirePhoto: true
+    count: 1
+  LOA3:
+    - description: One primary photo ID
+      category: PRIMARY
+      count: 1
+    - description: One secondary evidence
+      category: SECONDARY
+      count: 1
+`;
+
+test('fromYaml loads sources and rules', () => {
+  const catalogue = EvidenceSourceCatalogue.fromYaml(CATALOGUE_YAML);
+
+  assert.deepEqual(catalogue.getSource('CA-PASSPORT'), {
+    sourceId: 'CA-PASSPORT',
+    sourceName: 'Canadian Passport',
+    evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID,
+    trustLevel: 95,
+    category: EvidenceCategory.PRIMARY,
+    maximumAssuranceLevel: AssuranceLevel.LOA4,
+    photo: true
+  });
+  assert.equal(catalogue.getSource('UTILITY-BILL')?.sourceName, 'Hydro\'s bill');
+  assert.equal(catalogue.getSource('UTILITY-BILL')?.photo, false);
+
+  const loa2 = catalogue.getRules(AssuranceLevel.LOA2);
+  assert.equal(loa2.length, 1);
+  assert.deepEqual(loa2[0].evidenceTypes, [EvidenceType.GOVERNMENT_ISSUED_ID, EvidenceType.BIOMETRIC]);
+  assert.equal(loa2[0].requirePhoto, true);
+  assert.equal(catalogue.getRules(AssuranceLevel.LOA3).length, 2);
+});
+
+test('fromYaml matches the same catalogue loaded from JSON', () => {
+  const fromYaml = EvidenceSourceCatalogue.fromYaml(CATALOGUE_YAML);
+  const fromJson = EvidenceSourceCatalogue.fromJson(JSON.stringify({
+    sources: fromYaml.getSources(),
+    rules: { LOA2: fromYaml.getRules(AssuranceLevel.LOA2), LOA3: fromYaml.getRules(AssuranceLevel.LOA3) }
+  }));
+
+  assert.deepEqual(fromJson.getSources(), fromYaml.getSources());
+  assert.deepEqual(fromJson.getRules(AssuranceLevel.LOA3), fromYaml.getRules(AssuranceLevel.LOA3));
+});
+
+test('sources are accepted up to their maximum assurance level', () => {
+  const catalogue = EvidenceSourceCatalogue.fromYaml(CATALOGUE_YAML);
+
+  const at = (level: AssuranceLevel) =>
+    catalogue.getAcceptableSources(EvidenceType.DOCUMENT_VERIFICATION, level).map(source => source.sourceId);
+  assert.deepEqual(at(AssuranceLevel.LOA1), ['UTILITY-BILL']);
+  assert.deepEqual(at(AssuranceLevel.LOA2), ['UTILITY-BILL']);
+  assert.deepEqual(at(AssuranceLevel.LOA3), []);
+});
+
+test('fromYaml reports the line of malformed input', () => {
+  const cases: [string, RegExp][] = [
+    ['sources:\n\t- sourceId: X', /line 2: tabs are not allowed/],
+    ['sources: []\nsources: []', /line 2: duplicate key sources/],
+    ['sources:\n  - sourceId: X\n      sourceName: Y', /line 3: unexpected indentation/],
+    ['sources: [a, b\nrules: {}', /line 1: unterminated flow sequence/],
+    ['sources: &anchor []', /line 1: unsupported YAML construct/],
+    ['sources:\n  just text', /line 2: expected "key: value"/],
+    ['name: "unterminated', /line 1: invalid double-quoted string/]
+  ];
+
+  cases.forEach(([yaml, expected]) => assert.throws(() => EvidenceSourceCatalogue.fromYaml(yaml), expected));
+});
+
+test('fromYaml validates the loaded catalogue', () => {
+  const yaml = CATALOGUE_YAML.replace('maximumAssuranceLevel: LOA4', 'maximumAssuranceLevel: LOA9');
+
+  assert.throws(
+    () => EvidenceSourceCatalogue.fromYaml(yaml),
+    /Invalid evidence catalogue: CA-PASSPORT has unknown maximumAssuranceLevel LOA9/
+  );
+  assert.throws(() => EvidenceSourceCatalogue.fromYaml(''), /sources must be a list/);
+});
+
+test('fromFile picks the parser from the file extension', async () => {
+  const directory = await mkdtemp(join(tmpdir(), 'evidence-catalogue-'));
+  try {
+    const yamlPath = join(directory, 'catalogue.yml');
+    const jsonPath = join(directory, 'catalogue.json');
+    await writeFile(yamlPath, CATALOGUE_YAML);
+    await writeFile(jsonPath, JSON.stringify({ sources: EvidenceSourceCatalogue.fromYaml(CATALOGUE_YAML).getSources(), rules: {} }));
+
+    assert.equal((await EvidenceSourceCatalogue.fromFile(yamlPath)).getSources().length, 2);
+    assert.equal((await EvidenceSourceCatalogue.fromFile(jsonPath)).getSource('CA-PASSPORT')?.trustLevel, 95);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,247 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssuranceLevel, EvidenceType, ProcessStatus } from '../src/shared/types';
+import { mrzCheckDigit } from '../src/verified-person/document-authenticity';
+import { AdjudicationStatus } from '../src/verified-person/identity-deduplication';
+import {
+  IdentityEvidence,
+  IdentityInformation,
+  IdentityProvider,
+  ProofingStep,
+  VerificationMethod,
+  VerificationStatus
+} from '../src/verified-person/identity-provider';
+
+const IDENTITY_INFORMATION: IdentityInformation = {
+  coreAttributes: {
+    givenName: 'John',
+    familyName: 'Doe',
+    dateOfBirth: new Date('1990-01-01'),
+    address: { streetAddress: '1 Main St', city: 'Ottawa', province: 'ON', postalCode: 'K1A 0A1', country: 'CA' }
+  },
+  supportingDocuments: [{
+    documentType: 'Passport',
+    documentNumber: 'AB123456',
+    issuer: 'Passport Canada',
+    issuedDate: new Date('2020-01-01'),
+    expirationDate: new Date('2030-01-01')
+  }]
+};
+
+function passport(evidenceId: string): IdentityEvidence {
+  return {
+    evidenceId,
+    evidenceType: EvidenceType.GOVERNMENT_ISSUED_ID,
+    sourceId: 'CA-PASSPORT',
+    issuer: 'Passport Canada',
+    issuedDate: new Date('2020-01-01'),
+    expirationDate: new Date('2030-01-01'),
+    requiredFields: [{ fieldName: 'documentNumber', value: 'AB123456', isRequired: true }]
+  };
+}
+
+/**
+ * TD3 passport MRZ for a Canadian passport expiring 2030-01-01
+ */
+function passportMrz(names: string, documentNumber: string, dateOfBirth: string): string {
+  const number = documentNumber.padEnd(9, '<');
+  const line = `${number}${mrzCheckDigit(number)}CAN${dateOfBirth}${mrzCheckDigit(dateOfBirth)}M300101${mrzCheckDigit('300101')}${'<'.repeat(14)}0`;
+  const composite = mrzCheckDigit(line.slice(0, 10) + line.slice(13, 20) + line.slice(21, 43));
+  return `${`P<CAN${names}`.padEnd(44, '<')}\n${line}${composite}`;
+}
+
+function passportWithMrz(evidenceId: string, mrz: string): IdentityEvidence {
+  return {
+    ...passport(evidenceId),
+    requiredFields: [{ fieldName: 'documentNumber', value: 'GA1234567', isRequired: true }],
+    machineReadableZone: mrz
+  };
+}
+
+test('does not verify an established person when nothing is presented', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await provider.establishIdentity('PERSON-001', IDENTITY_INFORMATION, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+
+  const result = await provider.verifyIdentity('PERSON-001', VerificationMethod.IN_PERSON);
+  assert.equal(result.success, false);
+  assert.equal(result.message, 'Nothing to verify the person against');
+  assert.equal(provider.getVerifiedPerson('PERSON-001')?.verificationStatus, VerificationStatus.PENDING);
+});
+
+test('links a passport not on record to the person only when its MRZ names them', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await provider.establishIdentity('PERSON-001', IDENTITY_INFORMATION, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+
+  // An MRZ that reads cleanly but carries no name does not tie a new document number to the person
+  const unnamed = await provider.verifyIdentity('PERSON-001', VerificationMethod.IN_PERSON, {
+    evidence: [passportWithMrz('EVD-UNNAMED', passportMrz('', 'GA1234567', '900101'))]
+  });
+  assert.equal(unnamed.success, false);
+  assert.deepEqual(unnamed.errors, ['Evidence EVD-UNNAMED is not linked to the person\'s record']);
+
+  const named = await provider.verifyIdentity('PERSON-001', VerificationMethod.IN_PERSON, {
+    evidence: [passportWithMrz('EVD-RENEWED', passportMrz('DOE<<JOHN', 'GA1234567', '900101'))]
+  });
+  assert.equal(named.success, true, named.message);
+  assert.equal(provider.getVerifiedPerson('PERSON-001')?.verificationStatus, VerificationStatus.VERIFIED);
+});
+
+test('holds a self-asserted LOA1 proofing session at verification until evidence is presented', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+
+  const started = await provider.startIdentityProofing(AssuranceLevel.LOA1, {
+    identityInformation: IDENTITY_INFORMATION,
+    verificationMethod: VerificationMethod.REMOTE_SUPERVISED
+  });
+  assert.equal(started.data.status, ProcessStatus.IN_PROGRESS);
+  assert.equal(started.data.currentStep, ProofingStep.IDENTITY_VERIFICATION);
+  assert.equal(started.message, `Identity proofing awaiting input at ${ProofingStep.IDENTITY_VERIFICATION}`);
+  assert.equal(provider.getVerifiedPerson(started.data.personId), undefined);
+
+  const resumed = await provider.resumeIdentityProofing(started.data.sessionId, {
+    evidencePackage: { primaryEvidence: [passport('EVD-PRESENTED')] }
+  });
+  assert.equal(resumed.success, true, resumed.message);
+  assert.equal(resumed.data.status, ProcessStatus.COMPLETED);
+  assert.equal(provider.getVerifiedPerson(resumed.data.personId)?.verificationStatus, VerificationStatus.VERIFIED);
+});
+
+test('steps an LOA2 proofing session through collection, verification and establishment', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+
+  const started = await provider.startIdentityProofing(AssuranceLevel.LOA2);
+  assert.equal(started.data.currentStep, ProofingStep.EVIDENCE_COLLECTION);
+
+  const collected = await provider.resumeIdentityProofing(started.data.sessionId, {
+    identityInformation: IDENTITY_INFORMATION,
+    evidencePackage: { primaryEvidence: [passport('EVD-PRESENTED')] }
+  });
+  assert.equal(collected.data.status, ProcessStatus.IN_PROGRESS);
+  assert.equal(collected.data.currentStep, ProofingStep.IDENTITY_VERIFICATION);
+  assert.deepEqual(collected.errors, [`Accepted methods: ${Object.values(VerificationMethod).join(', ')}`]);
+
+  const completed = await provider.resumeIdentityProofing(started.data.sessionId, { verificationMethod: VerificationMethod.IN_PERSON });
+  assert.equal(completed.data.status, ProcessStatus.COMPLETED);
+  assert.deepEqual(
+    completed.data.stepResults.map((result: { step: ProofingStep; outcome: string }) => `${result.step}:${result.outcome}`),
+    [
+      'EVIDENCE_COLLECTION:AWAITING_INPUT',
+      'EVIDENCE_COLLECTION:PASSED',
+      'EVIDENCE_VALIDATION:PASSED',
+      'IDENTITY_RESOLUTION:PASSED',
+      'IDENTITY_VERIFICATION:AWAITING_INPUT',
+      'IDENTITY_VERIFICATION:PASSED',
+      'IDENTITY_ESTABLISHMENT:PASSED'
+    ]
+  );
+  assert.equal(provider.getVerifiedPerson(started.data.personId)?.verificationStatus, VerificationStatus.VERIFIED);
+
+  const finished = await provider.resumeIdentityProofing(started.data.sessionId);
+  assert.equal(finished.success, false);
+  assert.equal(finished.message, 'Proofing session is completed');
+});
+
+/**
+ * A provider holding one established person and an LOA2 proofing session,
+ * for the same person, held for duplicate adjudication
+ */
+async function proofingHeldForAdjudication(): Promise<{ provider: IdentityProvider; sessionId: string; caseId: string }> {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await provider.establishIdentity('PERSON-EXISTING', IDENTITY_INFORMATION, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+
+  const held = await provider.startIdentityProofing(AssuranceLevel.LOA2, {
+    identityInformation: IDENTITY_INFORMATION,
+    evidencePackage: { primaryEvidence: [passport('EVD-PRESENTED')] },
+    verificationMethod: VerificationMethod.IN_PERSON
+  });
+  assert.equal(held.data.status, ProcessStatus.IN_PROGRESS);
+  assert.equal(held.data.currentStep, ProofingStep.IDENTITY_ESTABLISHMENT);
+  assert.equal(held.message, `Identity proofing awaiting input at ${ProofingStep.IDENTITY_ESTABLISHMENT}`);
+
+  const [pending] = provider.getPendingAdjudicationCases();
+  assert.equal(pending.personId, held.data.personId);
+  assert.deepEqual(pending.matches.map(match => match.personId), ['PERSON-EXISTING']);
+  return { provider, sessionId: held.data.sessionId, caseId: pending.caseId };
+}
+
+test('resumes a proofing session once a flagged duplicate is adjudicated a distinct person', async () => {
+  const { provider, sessionId, caseId } = await proofingHeldForAdjudication();
+
+  // Nothing changes while the case is pending
+  const stillHeld = await provider.resumeIdentityProofing(sessionId);
+  assert.equal(stillHeld.data.currentStep, ProofingStep.IDENTITY_ESTABLISHMENT);
+  assert.equal(stillHeld.data.status, ProcessStatus.IN_PROGRESS);
+
+  const adjudicated = await provider.adjudicateDuplicate(caseId, AdjudicationStatus.DISTINCT_PERSON, 'ADJUDICATOR-01', 'Twins');
+  assert.equal(adjudicated.success, true, adjudicated.message);
+
+  const resumed = await provider.resumeIdentityProofing(sessionId);
+  assert.equal(resumed.data.status, ProcessStatus.COMPLETED);
+  assert.equal(provider.getVerifiedPerson(resumed.data.personId)?.verificationStatus, VerificationStatus.VERIFIED);
+  assert.equal(provider.getPendingAdjudicationCases().length, 0);
+});
+
+test('fails a proofing session once a flagged duplicate is confirmed', async () => {
+  const { provider, sessionId, caseId } = await proofingHeldForAdjudication();
+
+  await provider.adjudicateDuplicate(caseId, AdjudicationStatus.CONFIRMED_DUPLICATE, 'ADJUDICATOR-01');
+
+  const resumed = await provider.resumeIdentityProofing(sessionId);
+  assert.equal(resumed.success, false);
+  assert.equal(resumed.data.status, ProcessStatus.FAILED);
+  assert.deepEqual(resumed.errors, [`${ProofingStep.IDENTITY_ESTABLISHMENT}: Identity duplicates established person PERSON-EXISTING`]);
+  assert.equal(provider.getVerifiedPerson(resumed.data.personId), undefined);
+});
+
+test('reinstates a suspended person to the status held before suspension', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await provider.establishIdentity('PERSON-VERIFIED', IDENTITY_INFORMATION, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+  await provider.verifyIdentity('PERSON-VERIFIED', VerificationMethod.IN_PERSON, { evidence: [passport('EVD-PRESENTED')] });
+  await provider.establishIdentity('PERSON-PENDING', {
+    coreAttributes: {
+      givenName: 'Jane',
+      familyName: 'Roe',
+      dateOfBirth: new Date('1975-06-30'),
+      address: { streetAddress: '9 Rue Laval', city: 'Gatineau', province: 'QC', postalCode: 'J8X 3H3', country: 'CA' }
+    }
+  }, { primaryEvidence: [] });
+
+  for (const [personId, priorStatus] of [
+    ['PERSON-VERIFIED', VerificationStatus.VERIFIED],
+    ['PERSON-PENDING', VerificationStatus.PENDING]
+  ] as const) {
+    const suspended = await provider.suspendIdentity(personId, 'Reported stolen identity', 'OFFICER-01');
+    assert.equal(suspended.data.previousStatus, priorStatus);
+    assert.equal(suspended.data.status, VerificationStatus.SUSPENDED);
+    assert.equal((await provider.suspendIdentity(personId, 'Again')).message, 'Person is already suspended');
+
+    const reinstated = await provider.reinstateIdentity(personId, 'Report withdrawn', 'OFFICER-02');
+    assert.equal(reinstated.success, true, reinstated.message);
+    assert.equal(reinstated.data.previousStatus, VerificationStatus.SUSPENDED);
+    assert.equal(reinstated.data.status, priorStatus);
+    assert.equal(provider.getVerifiedPerson(personId)?.verificationStatus, priorStatus);
+  }
+
+  assert.equal((await provider.reinstateIdentity('PERSON-VERIFIED', 'Not suspended')).message, 'Person is not suspended');
+});
+
+test('reinstates a person awaiting reverification to that status, and never a revoked person', async () => {
+  const provider = new IdentityProvider('IDP-TEST', 'Test IdP', AssuranceLevel.LOA2);
+  await provider.establishIdentity('PERSON-001', IDENTITY_INFORMATION, { primaryEvidence: [passport('EVD-ESTABLISHED')] });
+  await provider.verifyIdentity('PERSON-001', VerificationMethod.IN_PERSON, { evidence: [passport('EVD-PRESENTED')] });
+  const person = provider.getVerifiedPerson('PERSON-001')!;
+
+  await provider.sweepVerifiedPersons(new Date(person.reverificationDueAt!.getTime() + 1000));
+  assert.equal(person.verificationStatus, VerificationStatus.REVERIFICATION_REQUIRED);
+
+  await provider.suspendIdentity('PERSON-001', 'Under investigation');
+  const reinstated = await provider.reinstateIdentity('PERSON-001', 'Investigation closed');
+  assert.equal(reinstated.data.status, VerificationStatus.REVERIFICATION_REQUIRED);
+
+  await provider.suspendIdentity('PERSON-001', 'Under investigation');
+  await provider.revokeIdentity('PERSON-001', 'Fraud confirmed', 'OFFICER-01');
+  const refused = await provider.reinstateIdentity('PERSON-001', 'Appeal');
+  assert.equal(refused.success, false);
+  assert.equal(refused.message, 'Person is revoked');
+  assert.equal(person.verificationStatus, VerificationStatus.REVOKED);
+});
@@ -0,0 +1,303 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { AssuranceLevel } from '../src/shared/types';
+import { AuthenticationServiceProvider } from '../src/authentication/authentication-service';
+import { CredentialType } from '../src/authentication/authentication-credential';
+import {
+  ASSURANCE_LEVEL_ACR_VALUES,
+  createOidcRequestListener,
+  OidcHttpResponse,
+  OpenIdConnectProvider
+} from '../src/authentication/oidc-provider';
+
+const ISSUER = 'https://localhost/oidc';
+const CLIENT_ID = 'rp-public';
+const REDIRECT_URI = 'https://rp.example.ca/callback';
+const PASSWORD = 'Correct-Horse-Battery-9';
+
+interface Fixture {
+  provider: OpenIdConnectProvider;
+  authProvider: AuthenticationServiceProvider;
+  sessionId: string;
+  cookie: string;
+}
+
+async function setUp(): Promise<Fixture> {
+  const authProvider = new AuthenticationServiceProvider('ASP-TEST', 'Test ASP', AssuranceLevel.LOA2);
+  const provider = new OpenIdConnectProvider(authProvider, {
+    issuer: ISSUER,
+    claimsSource: {
+      getClaims: async subjectId => ({ given_name: 'Jane', family_name: 'Doe', email: `${subjectId}@example.ca` })
+    }
+  });
+  const registration = await provider.registerClient({ clientId: CLIENT_ID, redirectUris: [REDIRECT_URI] });
+  assert.equal(registration.success, true, registration.message);
+
+  const issued = await authProvider.issueCredential('USER-001', CredentialType.PASSWORD, { secret: PASSWORD });
+  assert.equal(issued.success, true, issued.message);
+  const credentialId = issued.data.credentialId;
+  assert.equal((await authProvider.authenticate(credentialId, PASSWORD)).success, true);
+
+  const session = await authProvider.initiateSession('USER-001', {
+    assuranceLevel: AssuranceLevel.LOA2,
+    maxDuration: 60,
+    credentialIds: [credentialId]
+  });
+  assert.equal(session.success, true, session.message);
+  return {
+    provider,
+    authProvider,
+    sessionId: session.data.sessionId,
+    cookie: `pctf_session=${encodeURIComponent(session.data.sessionToken)}`
+  };
+}
+
+function pkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: createHash('sha256').update(verifier).digest('base64url') };
+}
+
+function authorize(fixture: Fixture, parameters: Record<string, string> = {}): Promise<OidcHttpResponse> {
+  return fixture.provider.handleRequest({
+    method: 'GET',
+    path: '/oidc/authorize',
+    query: {
+      response_type: 'code',
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid profile',
+      state: 'state-123',
+      ...parameters
+    },
+    headers: { cookie: fixture.cookie }
+  });
+}
+
+function redeem(fixture: Fixture, code: string, codeVerifier: string): Promise<OidcHttpResponse> {
+  return fixture.provider.handleRequest({
+    method: 'POST',
+    path: '/oidc/token',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: REDIRECT_URI,
+      client_id: CLIENT_ID,
+      code_verifier: codeVerifier
+    }).toString()
+  });
+}
+
+function redirectParameters(response: OidcHttpResponse): URLSearchParams {
+  assert.equal(response.status, 302);
+  return new URL(response.headers['Location']).searchParams;
+}
+
+function decodeJwtPayload(token: string): Record<string, any> {
+  return JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+}
+
+test('completes authorize, token and userinfo with PKCE S256', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+
+  const location = redirectParameters(await authorize(fixture, {
+    code_challenge: pkce.challenge,
+    code_challenge_method: 'S256',
+    nonce: 'nonce-456'
+  }));
+  assert.equal(location.get('state'), 'state-123');
+  assert.equal(location.get('iss'), ISSUER);
+  const code = location.get('code')!;
+  assert.ok(code);
+
+  const tokenResponse = await redeem(fixture, code, pkce.verifier);
+  assert.equal(tokenResponse.status, 200, tokenResponse.body);
+  const tokens = JSON.parse(tokenResponse.body);
+  assert.equal(tokens.token_type, 'Bearer');
+
+  const idToken = decodeJwtPayload(tokens.id_token);
+  assert.equal(idToken.iss, ISSUER);
+  assert.equal(idToken.sub, 'USER-001');
+  assert.equal(idToken.aud, CLIENT_ID);
+  assert.equal(idToken.nonce, 'nonce-456');
+  assert.equal(idToken.acr, ASSURANCE_LEVEL_ACR_VALUES[AssuranceLevel.LOA2]);
+
+  const userInfo = await fixture.provider.handleRequest({
+    method: 'GET',
+    path: '/oidc/userinfo',
+    headers: { authorization: `Bearer ${tokens.access_token}` }
+  });
+  assert.equal(userInfo.status, 200);
+  // email is not released without the email scope
+  assert.deepEqual(JSON.parse(userInfo.body), { sub: 'USER-001', given_name: 'Jane', family_name: 'Doe' });
+});
+
+test('rejects a wrong PKCE verifier', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+  const code = redirectParameters(await authorize(fixture, { code_challenge: pkce.challenge, code_challenge_method: 'S256' })).get('code')!;
+
+  const response = await redeem(fixture, code, pkcePair().verifier);
+  assert.equal(response.status, 400);
+  assert.equal(JSON.parse(response.body).error, 'invalid_grant');
+});
+
+test('requires PKCE from public clients', async () => {
+  const fixture = await setUp();
+
+  const location = redirectParameters(await authorize(fixture));
+  assert.equal(location.get('error'), 'invalid_request');
+});
+
+test('revokes tokens issued from a replayed authorization code', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+  const code = redirectParameters(await authorize(fixture, { code_challenge: pkce.challenge, code_challenge_method: 'S256' })).get('code')!;
+
+  const first = JSON.parse((await redeem(fixture, code, pkce.verifier)).body);
+  const replay = await redeem(fixture, code, pkce.verifier);
+  assert.equal(replay.status, 400);
+  assert.deepEqual(JSON.parse(replay.body), { error: 'invalid_grant', error_description: 'Authorization code has already been used' });
+
+  const userInfo = await fixture.provider.handleRequest({
+    method: 'GET',
+    path: '/oidc/userinfo',
+    headers: { authorization: `Bearer ${first.access_token}` }
+  });
+  assert.equal(userInfo.status, 401);
+  assert.equal(JSON.parse(userInfo.body).error, 'invalid_token');
+});
+
+test('reports acr_values the session does not satisfy', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+
+  const location = redirectParameters(await authorize(fixture, {
+    code_challenge: pkce.challenge,
+    code_challenge_method: 'S256',
+    acr_values: ASSURANCE_LEVEL_ACR_VALUES[AssuranceLevel.LOA3]
+  }));
+  assert.equal(location.get('error'), 'unmet_authentication_requirements');
+  assert.equal(location.get('code'), null);
+});
+
+test('requires fresh authentication when the session is older than max_age', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+  const parameters = { code_challenge: pkce.challenge, code_challenge_method: 'S256', prompt: 'none' };
+
+  assert.ok(redirectParameters(await authorize(fixture, { ...parameters, max_age: '3600' })).get('code'));
+
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  const location = redirectParameters(await authorize(fixture, { ...parameters, max_age: '0' }));
+  assert.equal(location.get('error'), 'login_required');
+});
+
+test('rejects a max_age that is not a number of seconds', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+
+  for (const maxAge of ['soon', '-5', '1.5', '']) {
+    const location = redirectParameters(await authorize(fixture, {
+      code_challenge: pkce.challenge,
+      code_challenge_method: 'S256',
+      max_age: maxAge
+    }));
+    assert.equal(location.get('error'), 'invalid_request', `max_age=${maxAge}`);
+    assert.equal(location.get('code'), null);
+  }
+});
+
+test('asserts only the level the session\'s verified factors support', async () => {
+  const fixture = await setUp();
+  // A session whose recorded level is above what its factors support
+  fixture.authProvider.getSession(fixture.sessionId)!.assuranceLevel = AssuranceLevel.LOA3;
+  const pkce = pkcePair();
+
+  const unmet = redirectParameters(await authorize(fixture, {
+    code_challenge: pkce.challenge,
+    code_challenge_method: 'S256',
+    acr_values: ASSURANCE_LEVEL_ACR_VALUES[AssuranceLevel.LOA3]
+  }));
+  assert.equal(unmet.get('error'), 'unmet_authentication_requirements');
+
+  const code = redirectParameters(await authorize(fixture, { code_challenge: pkce.challenge, code_challenge_method: 'S256' })).get('code')!;
+  const tokens = JSON.parse((await redeem(fixture, code, pkce.verifier)).body);
+  assert.equal(decodeJwtPayload(tokens.id_token).acr, ASSURANCE_LEVEL_ACR_VALUES[AssuranceLevel.LOA2]);
+});
+
+test('treats a malformed session cookie as no session', async () => {
+  const fixture = await setUp();
+  const pkce = pkcePair();
+
+  const location = redirectParameters(await authorize(
+    { ...fixture, cookie: 'pctf_session=%E0%A4%A' },
+    { code_challenge: pkce.challenge, code_challenge_method: 'S256', prompt: 'none' }
+  ));
+  assert.equal(location.get('error'), 'login_required');
+});
+
+test('rejects malformed Basic client credentials as invalid_client', async () => {
+  const fixture = await setUp();
+
+  const response = await fixture.provider.handleRequest({
+    method: 'POST',
+    path: '/oidc/token',
+    headers: { authorization: `Basic ${Buffer.from('rp%zz:secret%').toString('base64')}` },
+    body: 'grant_type=authorization_code&code=unused'
+  });
+  assert.equal(response.status, 401);
+  assert.equal(JSON.parse(response.body).error, 'invalid_client');
+});
+
+test('serves the provider over http with the request listener', async () => {
+  const fixture = await setUp();
+  const server: Server = createServer(createOidcRequestListener(fixture.provider));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oidc`;
+
+  try {
+    const discovery = await fetch(`${base}/.well-known/openid-configuration`);
+    assert.equal(discovery.status, 200);
+    assert.equal(((await discovery.json()) as { issuer: string }).issuer, ISSUER);
+
+    const pkce = pkcePair();
+    const query = new URLSearchParams({
+      response_type: 'code',
+      client_id: CLIENT_ID,
+      redirect_uri: REDIRECT_URI,
+      scope: 'openid',
+      code_challenge: pkce.challenge,
+      code_challenge_method: 'S256'
+    });
+    const authorization = await fetch(`${base}/authorize?${query}`, { headers: { cookie: fixture.cookie }, redirect: 'manual' });
+    assert.equal(authorization.status, 302);
+    const code = new URL(authorization.headers.get('location')!).searchParams.get('code')!;
+
+    const token = await fetch(`${base}/token`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: REDIRECT_URI,
+        client_id: CLIENT_ID,
+        code_verifier: pkce.verifier
+      })
+    });
+    assert.equal(token.status, 200);
+    const { access_token: accessToken } = (await token.json()) as { access_token: string };
+
+    const userInfo = await fetch(`${base}/userinfo`, { headers: { authorization: `Bearer ${accessToken}` } });
+    assert.deepEqual(await userInfo.json(), { sub: 'USER-001' });
+
+    const oversized = await fetch(`${base}/token`, { method: 'POST', body: 'x'.repeat(65 * 1024) }).catch(() => undefined);
+    assert.ok(!oversized || oversized.status === 413);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});